@@ -4,14 +4,27 @@ import helmet from 'helmet';
 import morgan from 'morgan';
 import compression from 'compression';
 import path from 'path';
+import { Server } from 'http';
 import { config, validateConfig } from './config';
 import { logger, loggerStream } from './utils/logger';
 import animationRoutes from './routes/animationRoutes';
 import systemRoutes from './routes/systemRoutes';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
+import { jobQueueService } from './services/jobQueueService';
+import { JobSocketServer } from './services/jobSocketServer';
+import { startupRecoveryService } from './services/startupRecoveryService';
+
+// Browser origins allowed to call the API, over HTTP (CORS) and WebSocket
+const ALLOWED_ORIGINS =
+  process.env.NODE_ENV === 'production'
+    ? ['https://yourdomain.com'] // Replace with your domain
+    : ['http://localhost:3000', 'http://127.0.0.1:3000'];
 
 export class App {
   public app: express.Application;
+  private server?: Server;
+  private socketServer?: JobSocketServer;
+  private shuttingDown = false;
 
   constructor() {
     // Validate configuration before starting
@@ -27,6 +40,10 @@ export class App {
    * Setup middleware
    */
   private setupMiddleware(): void {
+    // Behind a reverse proxy (nginx in the Compose stack) the client's address is forwarded;
+    // rate limits and resource profile caps go by it
+    this.app.set('trust proxy', config.server.trustProxy);
+
     // Security middleware
     this.app.use(
       helmet({
@@ -46,10 +63,7 @@ export class App {
     // CORS configuration
     this.app.use(
       cors({
-        origin:
-          process.env.NODE_ENV === 'production'
-            ? ['https://yourdomain.com'] // Replace with your domain
-            : ['http://localhost:3000', 'http://127.0.0.1:3000'],
+        origin: ALLOWED_ORIGINS,
         credentials: true,
         methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
         allowedHeaders: ['Content-Type', 'Authorization', 'X-Request-ID'],
@@ -75,6 +89,16 @@ export class App {
       next();
     });
 
+    // Refuse new work while draining, so load balancers and clients move on to another instance
+    this.app.use((req, res, next) => {
+      if (!this.shuttingDown) return next();
+      res.set('Connection', 'close');
+      res.status(503).json({
+        message: 'Server is shutting down, please try again shortly',
+        code: 'SHUTTING_DOWN',
+      });
+    });
+
     // Static file serving for outputs
     this.app.use(
       '/outputs',
@@ -114,6 +138,7 @@ export class App {
           generate: '/api/animations/generate',
           status: '/api/animations/status/:id',
           jobs: '/api/animations/jobs',
+          websocket: '/api/ws',
         },
       });
     });
@@ -145,13 +170,34 @@ export class App {
       await fs.promises.mkdir(tempDir, { recursive: true });
       await fs.promises.mkdir(logsDir, { recursive: true });
 
-      this.app.listen(config.server.port, () => {
+      // The API writes the job history, including the updates of worker processes
+      jobQueueService.openHistory();
+
+      const server = (this.server = this.app.listen(config.server.port, () => {
         logger.info(`Server started successfully`, {
           port: config.server.port,
           environment: config.server.nodeEnv,
           timestamp: new Date().toISOString(),
         });
+      }));
+
+      // WebSocket API for following and controlling jobs, on the same port
+      this.socketServer = new JobSocketServer(server, jobQueueService, {
+        path: '/api/ws',
+        allowedOrigins: ALLOWED_ORIGINS,
       });
+
+      // API-only replicas leave rendering to worker processes (RUN_WORKERS=false)
+      if (config.workers.enabled) {
+        // Clean up after a crash before taking new jobs: orphaned containers, temp files and
+        // jobs stuck active
+        if (config.recovery.enabled) {
+          await startupRecoveryService.recover().catch(error => {
+            logger.error('Startup recovery failed', { error });
+          });
+        }
+        jobQueueService.startWorkers();
+      }
     } catch (error) {
       logger.error('Failed to start server', { error });
       process.exit(1);
@@ -159,13 +205,30 @@ export class App {
   }
 
   /**
-   * Graceful shutdown
+   * Graceful shutdown: stop accepting requests, let running jobs finish within the grace
+   * period (re-queueing the rest), kill leftover render containers, then exit
    */
   public async shutdown(): Promise<void> {
-    logger.info('Shutting down server gracefully...');
+    if (this.shuttingDown) return;
+    this.shuttingDown = true;
+    logger.info('Shutting down server gracefully...', {
+      gracePeriodMs: config.server.shutdownGracePeriodMs,
+    });
+
+    try {
+      this.server?.close();
+      this.server?.closeIdleConnections();
+      await this.socketServer?.close();
 
-    // Close any open connections here if needed
+      await jobQueueService.drain(config.server.shutdownGracePeriodMs);
+      await jobQueueService.close();
+      this.server?.closeAllConnections();
 
-    process.exit(0);
+      logger.info('Shutdown complete');
+      process.exit(0);
+    } catch (error) {
+      logger.error('Graceful shutdown failed', { error });
+      process.exit(1);
+    }
   }
 }
@@ -1,13 +1,86 @@
 import dotenv from 'dotenv';
+import { randomUUID } from 'crypto';
+import os from 'os';
 import path from 'path';
+import { ResourceProfile, ResourceProfileName } from '../types';
 
 // Load environment variables
 dotenv.config();
 
+/**
+ * A resource profile's limits, each overridable with RESOURCE_PROFILE_<NAME>_<LIMIT>
+ */
+function resourceProfile(
+  name: ResourceProfileName,
+  defaults: Omit<ResourceProfile, 'name'>
+): ResourceProfile {
+  const env = (limit: string) => process.env[`RESOURCE_PROFILE_${name.toUpperCase()}_${limit}`];
+  return {
+    name,
+    memory: env('MEMORY') || defaults.memory,
+    cpus: parseFloat(env('CPUS') || String(defaults.cpus)),
+    pidsLimit: parseInt(env('PIDS_LIMIT') || String(defaults.pidsLimit), 10),
+    scratchSize: env('DISK') || defaults.scratchSize,
+    timeoutMs: parseInt(env('TIMEOUT_MS') || String(defaults.timeoutMs), 10),
+  };
+}
+
+/**
+ * Parse `client=profile` pairs, e.g. `10.0.0.5=heavy,10.0.0.6=preview`
+ */
+function parseClientCaps(value: string | undefined): Record<string, string> {
+  const caps: Record<string, string> = {};
+  for (const entry of (value || '').split(',')) {
+    const separator = entry.lastIndexOf('=');
+    if (separator > 0) caps[entry.slice(0, separator).trim()] = entry.slice(separator + 1).trim();
+  }
+  return caps;
+}
+
+/**
+ * Express's `trust proxy` setting: true/false, a number of proxy hops, or addresses and subnets
+ */
+function parseTrustProxy(value: string | undefined): boolean | number | string {
+  if (!value || value === 'false') return false;
+  if (value === 'true') return true;
+  return /^\d+$/.test(value) ? parseInt(value, 10) : value;
+}
+
 export const config = {
   server: {
     port: parseInt(process.env.PORT || '3001', 10),
     nodeEnv: process.env.NODE_ENV || 'development',
+    // Proxies whose X-Forwarded-For is believed, so req.ip is the real client's address
+    trustProxy: parseTrustProxy(process.env.TRUST_PROXY),
+    // Identifies this process on containers it starts and jobs it runs; must be unique per
+    // process, which the default is even for workers sharing a host with the API
+    instanceId: process.env.INSTANCE_ID || `${os.hostname()}:${process.pid}:${randomUUID()}`,
+    // Time running renders get to finish on shutdown before they are put back on the queue
+    shutdownGracePeriodMs: parseInt(process.env.SHUTDOWN_GRACE_PERIOD_MS || '60000', 10),
+  },
+  workers: {
+    // Run the queue workers in the API process; false for API-only replicas, with rendering
+    // left to worker processes (npm run start:worker)
+    enabled: process.env.RUN_WORKERS !== 'false',
+    // Renders one process runs at the same time; size it to the host
+    renderConcurrency: parseInt(process.env.RENDER_CONCURRENCY || '1', 10),
+  },
+  recovery: {
+    // Reconcile containers, temp files and jobs left behind by a crash when the server starts
+    enabled: process.env.STARTUP_RECOVERY_ENABLED !== 'false',
+    // Times a job interrupted by restarts is re-queued; after that it is failed
+    maxRequeues: parseInt(process.env.RECOVERY_MAX_REQUEUES || '2', 10),
+  },
+  watchdog: {
+    // Renders with no Manim output for this long are stopped as stuck; 0 turns the watchdog off
+    stallTimeoutMs: parseInt(process.env.WATCHDOG_STALL_TIMEOUT_MS || '300000', 10),
+    checkIntervalMs: parseInt(process.env.WATCHDOG_CHECK_INTERVAL_MS || '30000', 10),
+    // retry: re-queue a stuck render up to maxRetries times, then fail it; fail: fail it at once
+    policy: process.env.WATCHDOG_POLICY || 'retry',
+    maxRetries: parseInt(process.env.WATCHDOG_MAX_RETRIES || '1', 10),
+  },
+  providers: {
+    default: process.env.DEFAULT_PROVIDER || 'gemini',
   },
   gemini: {
     apiKey: process.env.GEMINI_API_KEY || '',
@@ -16,9 +89,125 @@ export const config = {
     apiKey: process.env.TOGETHER_API_KEY || '',
     baseUrl: process.env.TOGETHER_BASE_URL || 'https://api.together.xyz/v1',
   },
+  openaiCompatible: {
+    // e.g. http://localhost:11434/v1 for Ollama or http://localhost:8080/v1 for llama.cpp
+    baseUrl: process.env.OPENAI_COMPATIBLE_BASE_URL || '',
+    apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || '',
+    model: process.env.OPENAI_COMPATIBLE_MODEL || 'llama3.1',
+  },
+  mock: {
+    // Offline provider with canned scripts, intended for CI and end-to-end tests
+    enabled: process.env.MOCK_PROVIDER_ENABLED === 'true',
+    failAttempts: parseInt(process.env.MOCK_PROVIDER_FAIL_ATTEMPTS || '0', 10),
+  },
+  codeSafety: {
+    // Top-level modules generated scripts may import; everything else is rejected
+    allowedImports: (
+      process.env.ALLOWED_PYTHON_IMPORTS ||
+      'manim,math,cmath,random,numpy,itertools,functools,collections,colorsys,fractions,decimal,statistics,string,typing,dataclasses,enum,copy'
+    )
+      .split(',')
+      .map(name => name.trim())
+      .filter(Boolean),
+  },
+  validation: {
+    // Dry run each script in a small container before it takes a render slot
+    enabled: process.env.DRY_RUN_VALIDATION !== 'false',
+    timeoutMs: parseInt(process.env.DRY_RUN_TIMEOUT_MS || '60000', 10),
+    concurrency: parseInt(process.env.DRY_RUN_CONCURRENCY || '2', 10),
+  },
+  rendering: {
+    // Where Manim runs: 'docker' (a container per render) or 'local' (bubblewrap sandbox)
+    backend: process.env.RENDER_BACKEND || 'docker',
+    // Pin to a version tag in production; the tag is part of the render cache key
+    manimImage: process.env.MANIM_IMAGE || 'manimcommunity/manim:latest',
+    // Scripts may define several scenes; each is rendered and the clips are concatenated
+    maxScenes: parseInt(process.env.MAX_SCENES || '12', 10),
+    // Scenes rendered at once per job (1 renders them one after another)
+    sceneParallelism: parseInt(process.env.SCENE_PARALLELISM || '1', 10),
+  },
+  resourceProfiles: {
+    // Limits of each render's sandboxes, picked per request; ordered from smallest to largest
+    profiles: {
+      preview: resourceProfile('preview', {
+        memory: '2g',
+        cpus: 1,
+        pidsLimit: 256,
+        scratchSize: '200m',
+        timeoutMs: 600000, // 10 minutes
+      }),
+      standard: resourceProfile('standard', {
+        memory: '4g',
+        cpus: 2,
+        pidsLimit: 512,
+        scratchSize: '500m',
+        timeoutMs: 3000000, // 50 minutes
+      }),
+      heavy: resourceProfile('heavy', {
+        memory: '8g',
+        cpus: 4,
+        pidsLimit: 1024,
+        scratchSize: '2g',
+        timeoutMs: 7200000, // 2 hours
+      }),
+    },
+    // Profile of requests that don't pick one
+    default: process.env.RESOURCE_PROFILE_DEFAULT || 'standard',
+    // Largest profile a client may pick, and overrides per client IP
+    max: process.env.RESOURCE_PROFILE_MAX || 'standard',
+    clientCaps: parseClientCaps(process.env.RESOURCE_PROFILE_CLIENT_CAPS),
+    // How often a running render container's usage is sampled for its peak
+    usageSampleIntervalMs: parseInt(process.env.RESOURCE_USAGE_SAMPLE_INTERVAL_MS || '5000', 10),
+  },
+  scheduler: {
+    // Hold render sandboxes back until the host has room for them
+    enabled: process.env.SCHEDULER_ENABLED !== 'false',
+    // Memory and CPUs render sandboxes on this host may reserve together; by default all of
+    // the host's CPUs and its memory less SCHEDULER_HEADROOM_MEMORY
+    memory: process.env.SCHEDULER_MEMORY || '',
+    cpus: parseFloat(process.env.SCHEDULER_CPUS || '0'),
+    // Backends with the same pool (and Redis) share the capacity; one pool per host
+    pool: process.env.SCHEDULER_POOL || 'default',
+    // Left out of the default capacity for the OS and the backend itself
+    headroomMemory: process.env.SCHEDULER_HEADROOM_MEMORY || '1g',
+    // Shrink a sandbox that doesn't fit, down to these minimums, rather than hold it back
+    downsize: process.env.SCHEDULER_DOWNSIZE !== 'false',
+    minMemory: process.env.SCHEDULER_MIN_MEMORY || '2g',
+    minCpus: parseFloat(process.env.SCHEDULER_MIN_CPUS || '1'),
+    // How often waiting sandboxes re-check the pool
+    pollIntervalMs: parseInt(process.env.SCHEDULER_POLL_INTERVAL_MS || '5000', 10),
+  },
+  docker: {
+    // Docker Engine API socket used for render containers and the system endpoints
+    socketPath:
+      process.env.DOCKER_SOCKET_PATH ||
+      (process.env.DOCKER_HOST?.startsWith('unix://')
+        ? process.env.DOCKER_HOST.slice('unix://'.length)
+        : '/var/run/docker.sock'),
+    // When the backend itself runs in a container (DOCKER_HOST set), the absolute host path its
+    // working directory's outputs/ and temp/ are mounted from: the Compose project directory
+    hostProjectDir: process.env.HOST_PROJECT_DIR || '',
+  },
+  localSandbox: {
+    // Used by the local backend, for hosts where Docker-in-Docker isn't allowed
+    bwrapPath: process.env.BWRAP_PATH || 'bwrap',
+    // Extra host paths made visible read-only in the sandbox, e.g. a virtualenv or TeX install
+    readOnlyPaths: (process.env.LOCAL_SANDBOX_RO_PATHS || '')
+      .split(',')
+      .map(dir => dir.trim())
+      .filter(Boolean),
+  },
+  renderCache: {
+    // Reuse finished renders of identical code and settings instead of rendering again
+    enabled: process.env.RENDER_CACHE !== 'false',
+  },
   redis: {
     url: process.env.REDIS_URL || 'redis://localhost:6379',
   },
+  jobHistory: {
+    // SQLite database keeping every job after the queue and Redis have let it go
+    dbPath: process.env.JOB_HISTORY_DB_PATH || path.join(process.cwd(), 'data', 'jobs.db'),
+  },
   storage: {
     outputDir: process.env.OUTPUT_DIR || './outputs',
     maxFileSize: process.env.MAX_FILE_SIZE || '100mb',
@@ -35,15 +224,56 @@ export const config = {
 // Validate required configuration
 export function validateConfig(): void {
   // Require at least one provider to be configured
-  if (!config.gemini.apiKey && !config.together.apiKey) {
+  if (
+    !config.gemini.apiKey &&
+    !config.together.apiKey &&
+    !config.openaiCompatible.baseUrl &&
+    !config.mock.enabled
+  ) {
     throw new Error(
-      'At least one provider API key is required: set GEMINI_API_KEY or TOGETHER_API_KEY'
+      'At least one provider is required: set GEMINI_API_KEY, TOGETHER_API_KEY, OPENAI_COMPATIBLE_BASE_URL or MOCK_PROVIDER_ENABLED=true'
     );
   }
 
   if (!config.redis.url) {
     throw new Error('REDIS_URL is required');
   }
+
+  if (!['docker', 'local'].includes(config.rendering.backend)) {
+    throw new Error(
+      `Unknown RENDER_BACKEND "${config.rendering.backend}": expected docker or local`
+    );
+  }
+
+  const profileNames = Object.keys(config.resourceProfiles.profiles);
+  const { default: defaultProfile, max, clientCaps } = config.resourceProfiles;
+  for (const [setting, name] of [
+    ['RESOURCE_PROFILE_DEFAULT', defaultProfile],
+    ['RESOURCE_PROFILE_MAX', max],
+    ...Object.entries(clientCaps).map(([client, cap]) => [
+      `RESOURCE_PROFILE_CLIENT_CAPS (${client})`,
+      cap,
+    ]),
+  ]) {
+    if (!profileNames.includes(name)) {
+      throw new Error(
+        `Unknown resource profile "${name}" in ${setting}: expected ${profileNames.join(', ')}`
+      );
+    }
+  }
+
+  // The Engine API only takes absolute mount sources
+  if (config.rendering.backend === 'docker' && process.env.DOCKER_HOST) {
+    if (!path.isAbsolute(config.docker.hostProjectDir)) {
+      throw new Error(
+        'HOST_PROJECT_DIR must be the absolute host path of the Compose project directory when DOCKER_HOST is set'
+      );
+    }
+  }
+
+  if (!['retry', 'fail'].includes(config.watchdog.policy)) {
+    throw new Error(`Unknown WATCHDOG_POLICY "${config.watchdog.policy}": expected retry or fail`);
+  }
 }
 
 // Ensure output directory exists
@@ -1,20 +1,60 @@
 import { Request, Response } from 'express';
-import { GeminiService } from '../services/geminiService';
-import { TogetherService } from '../services/togetherService';
-import { JobQueueService } from '../services/jobQueueService';
+import { providerRegistry } from '../services/providerRegistry';
+import { codeSafetyAnalyzer } from '../services/codeSafetyAnalyzer';
+import {
+  JobNotCancellableError,
+  JobQueueService,
+  jobQueueService,
+} from '../services/jobQueueService';
+import { InvalidCursorError } from '../services/jobHistoryStore';
 import { logger } from '../utils/logger';
-import { GenerateRequest, GenerateResponse, JobStatus, ApiError } from '../types';
+import {
+  GenerateRequest,
+  GenerateResponse,
+  JobEvent,
+  JobListQuery,
+  JobListSort,
+  JobStatus,
+  ApiError,
+  CodeGenerationProvider,
+  RenderJob,
+  RenderSettings,
+} from '../types';
 import { JobLogger } from '../utils/jobLogger';
+import {
+  RESOURCE_PROFILE_NAMES,
+  exceedsResourceProfile,
+  getResourceProfile,
+  getResourceProfileCap,
+  isResourceProfileName,
+} from '../utils/resourceProfiles';
+
+const RENDER_QUALITIES = ['l', 'm', 'h', 'p', 'k'];
+const RENDER_FORMATS = ['mp4', 'webm', 'gif', 'png'];
+const MAX_RENDER_DIMENSION = 3840;
+// Redis stream entry ID, as sent with every live job event
+const STREAM_ID = /^\d+-\d+$/;
+const LIVE_KEEP_ALIVE_MS = 15000;
+const JOB_STATUSES: JobStatus['status'][] = [
+  'pending',
+  'validating',
+  'running',
+  'done',
+  'error',
+  'cancelled',
+];
+const JOB_LIST_SORTS: JobListSort[] = ['createdAt', 'updatedAt', 'progress'];
+const MAX_JOB_PAGE_SIZE = 200;
+
+/** Per-job render options taken from a generation request */
+type RequestedRenderOptions = RenderSettings &
+  Pick<RenderJob, 'phase' | 'autoFinalize' | 'resourceProfile'>;
 
 export class AnimationController {
-  private geminiService: GeminiService;
   private jobQueueService: JobQueueService;
-  private togetherService?: TogetherService;
 
   constructor() {
-    this.geminiService = new GeminiService();
-    this.togetherService = new TogetherService();
-    this.jobQueueService = new JobQueueService();
+    this.jobQueueService = jobQueueService;
   }
 
   /**
@@ -25,45 +65,18 @@ export class AnimationController {
     res: Response<GenerateResponse | ApiError>
   ): Promise<void> {
     try {
-      const { prompt, provider, model } = req.body;
+      const generation = this.resolveGenerationRequest(req, res);
+      if (!generation) return;
 
-      // Validate input
-      if (!prompt || typeof prompt !== 'string' || prompt.trim().length === 0) {
-        res.status(400).json({
-          message: 'Prompt is required and must be a non-empty string',
-          code: 'INVALID_PROMPT',
-        });
-        return;
-      }
-
-      if (prompt.length > 1000) {
-        res.status(400).json({
-          message: 'Prompt is too long. Maximum length is 1000 characters.',
-          code: 'PROMPT_TOO_LONG',
-        });
-        return;
-      }
-
-      logger.info('Received animation generation request', {
-        prompt: prompt.substring(0, 100),
-        requestId: req.headers['x-request-id'] || 'unknown',
-      });
+      const { prompt, providerName, codeProvider, model, settings } = generation;
 
       // Generate Manim code using selected provider
-      let code: string;
-      const selectedProvider = (provider || 'gemini') as 'gemini' | 'together';
-      if (selectedProvider === 'together' && this.togetherService) {
-        const togetherResp = await this.togetherService.generateManimCode(prompt, model);
-        code = togetherResp.code;
-      } else {
-        const geminiResponse = await this.geminiService.generateManimCode(prompt);
-        code = geminiResponse.code;
-      }
+      const { code } = await codeProvider.generateManimCode(prompt, model);
 
       // Log the final code that will be used for rendering
       logger.info('Final Manim code for rendering', {
         prompt: prompt.substring(0, 100),
-        provider: provider || 'gemini',
+        provider: providerName,
         model: model || null,
         codeLength: code.length,
         code,
@@ -71,41 +84,18 @@ export class AnimationController {
       });
 
       // Validate the generated code
-      const isValid =
-        selectedProvider === 'together' && this.togetherService
-          ? this.togetherService.validateGeneratedCode(code)
-          : this.geminiService.validateGeneratedCode(code);
-
-      if (!isValid) {
+      const analysis = codeSafetyAnalyzer.analyze(code);
+      if (!analysis.valid) {
         logger.warn('Generated code failed validation', { prompt: prompt.substring(0, 100) });
         res.status(400).json({
           message: 'Generated code failed safety validation. Please try a different prompt.',
           code: 'CODE_VALIDATION_FAILED',
+          details: { code, findings: analysis.findings },
         });
         return;
       }
 
-      // Add job to the rendering queue and get the actual job ID
-      const jobId = await this.jobQueueService.addJob({
-        prompt: prompt.trim(),
-        code,
-        outputPath: undefined,
-        error: undefined,
-        provider: selectedProvider,
-        model: model,
-      });
-
-      logger.info('Animation generation job queued successfully', {
-        jobId,
-        prompt: prompt.substring(0, 100),
-      });
-
-      // Persist logs and code snapshot
-      await JobLogger.append(jobId, 'Job queued', {
-        provider: selectedProvider,
-        model: model || null,
-      });
-      await JobLogger.saveCode(jobId, code, 'generated');
+      const jobId = await this.enqueueGeneratedCode(prompt, code, providerName, model, settings);
 
       res.status(201).json({
         jobId,
@@ -124,6 +114,291 @@ export class AnimationController {
     }
   }
 
+  /**
+   * Generate animation code as a Server-Sent Events stream.
+   * Emits `chunk` events while the provider writes the script, then `done` with the job ID
+   * once the complete code passes validation and is queued, or `error` otherwise.
+   */
+  async generateAnimationStream(
+    req: Request<{}, {}, GenerateRequest>,
+    res: Response
+  ): Promise<void> {
+    const generation = this.resolveGenerationRequest(req, res);
+    if (!generation) return;
+
+    const { prompt, providerName, codeProvider, model, settings } = generation;
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+
+    // The request's own 'close' fires once its body has been read, so watch the response
+    let clientClosed = false;
+    res.on('close', () => {
+      if (!res.writableEnded) clientClosed = true;
+    });
+
+    const sendEvent = (event: string, data: unknown) => {
+      if (!clientClosed) {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+        // Push through the compression middleware so chunks arrive as they are produced
+        res.flush();
+      }
+    };
+
+    try {
+      sendEvent('start', { provider: providerName, model: model || codeProvider.defaultModel });
+
+      const { code } = await codeProvider.generateManimCodeStream(
+        prompt,
+        chunk => sendEvent('chunk', { text: chunk }),
+        model
+      );
+
+      const analysis = codeSafetyAnalyzer.analyze(code);
+      if (!analysis.valid) {
+        logger.warn('Streamed code failed validation', { prompt: prompt.substring(0, 100) });
+        sendEvent('error', {
+          message: 'Generated code failed safety validation. Please try a different prompt.',
+          code: 'CODE_VALIDATION_FAILED',
+          details: { code, findings: analysis.findings },
+        });
+        return;
+      }
+
+      // Nobody is listening for the job ID, so don't spend a render on it
+      if (clientClosed) {
+        logger.info('Client disconnected before streamed generation completed', {
+          prompt: prompt.substring(0, 100),
+        });
+        return;
+      }
+
+      const jobId = await this.enqueueGeneratedCode(prompt, code, providerName, model, settings);
+
+      sendEvent('done', {
+        jobId,
+        message: 'Animation generation started successfully. Use the job ID to check status.',
+        code,
+      });
+    } catch (error) {
+      logger.error('Error in generateAnimationStream controller', { error, body: req.body });
+      sendEvent('error', {
+        message: 'Failed to generate animation',
+        code: 'GENERATION_FAILED',
+        details: error instanceof Error ? error.message : 'Unknown error occurred',
+      });
+    } finally {
+      res.end();
+    }
+  }
+
+  /**
+   * Validate a generation request and resolve its provider.
+   * Sends a 400 response and returns null when the request cannot be served.
+   */
+  private resolveGenerationRequest(
+    req: Request<{}, {}, GenerateRequest>,
+    res: Response
+  ): {
+    prompt: string;
+    providerName: string;
+    codeProvider: CodeGenerationProvider;
+    model?: string;
+    settings: RequestedRenderOptions;
+  } | null {
+    const {
+      prompt,
+      provider,
+      model,
+      quality,
+      fps,
+      resolution,
+      format,
+      preview,
+      autoFinalize,
+      resourceProfile,
+    } = req.body;
+
+    // Validate input
+    if (!prompt || typeof prompt !== 'string' || prompt.trim().length === 0) {
+      res.status(400).json({
+        message: 'Prompt is required and must be a non-empty string',
+        code: 'INVALID_PROMPT',
+      });
+      return null;
+    }
+
+    if (prompt.length > 1000) {
+      res.status(400).json({
+        message: 'Prompt is too long. Maximum length is 1000 characters.',
+        code: 'PROMPT_TOO_LONG',
+      });
+      return null;
+    }
+
+    const settingsError = this.validateRenderSettings(req.body);
+    if (settingsError) {
+      res.status(400).json({
+        message: settingsError,
+        code: 'INVALID_RENDER_SETTINGS',
+      });
+      return null;
+    }
+
+    if (
+      (preview !== undefined && typeof preview !== 'boolean') ||
+      (autoFinalize !== undefined && typeof autoFinalize !== 'boolean')
+    ) {
+      res.status(400).json({
+        message: 'preview and autoFinalize must be booleans',
+        code: 'INVALID_RENDER_SETTINGS',
+      });
+      return null;
+    }
+
+    if (resourceProfile !== undefined && !isResourceProfileName(resourceProfile)) {
+      res.status(400).json({
+        message: `resourceProfile must be one of: ${RESOURCE_PROFILE_NAMES.join(', ')}`,
+        code: 'INVALID_RESOURCE_PROFILE',
+      });
+      return null;
+    }
+
+    // Without a profile the request gets the default, or the client's cap if that is smaller
+    const profileCap = getResourceProfileCap(req.ip);
+    const defaultProfile = getResourceProfile().name;
+    if (resourceProfile && exceedsResourceProfile(resourceProfile, profileCap)) {
+      res.status(403).json({
+        message: `Resource profile '${resourceProfile}' is not allowed; the largest this client may use is '${profileCap}'`,
+        code: 'RESOURCE_PROFILE_NOT_ALLOWED',
+        details: {
+          allowed: RESOURCE_PROFILE_NAMES.slice(0, RESOURCE_PROFILE_NAMES.indexOf(profileCap) + 1),
+        },
+      });
+      return null;
+    }
+
+    const providerName = provider || providerRegistry.getDefaultName();
+    const codeProvider = providerRegistry.get(providerName);
+
+    if (!codeProvider) {
+      res.status(400).json({
+        message: `Unknown provider '${providerName}'`,
+        code: 'UNKNOWN_PROVIDER',
+        details: { available: providerRegistry.list().map(p => p.name) },
+      });
+      return null;
+    }
+
+    if (!codeProvider.isConfigured()) {
+      res.status(400).json({
+        message: `Provider '${providerName}' is not configured on this server`,
+        code: 'PROVIDER_NOT_CONFIGURED',
+      });
+      return null;
+    }
+
+    logger.info('Received animation generation request', {
+      prompt: prompt.substring(0, 100),
+      provider: providerName,
+      requestId: req.headers['x-request-id'] || 'unknown',
+    });
+
+    return {
+      prompt,
+      providerName,
+      codeProvider,
+      model,
+      settings: {
+        quality,
+        fps,
+        resolution,
+        format,
+        phase: preview ? 'preview' : undefined,
+        autoFinalize: preview ? autoFinalize !== false : undefined,
+        resourceProfile:
+          resourceProfile ||
+          (exceedsResourceProfile(defaultProfile, profileCap) ? profileCap : defaultProfile),
+      },
+    };
+  }
+
+  /**
+   * Check user-supplied render settings; returns an error message or null when valid
+   */
+  private validateRenderSettings(settings: RenderSettings): string | null {
+    const { quality, fps, resolution, format } = settings;
+
+    if (quality !== undefined && !RENDER_QUALITIES.includes(quality)) {
+      return `Quality must be one of: ${RENDER_QUALITIES.join(', ')}`;
+    }
+
+    if (fps !== undefined && (!Number.isInteger(fps) || fps < 1 || fps > 120)) {
+      return 'FPS must be an integer between 1 and 120';
+    }
+
+    if (resolution !== undefined) {
+      const match = typeof resolution === 'string' && resolution.match(/^(\d+)x(\d+)$/);
+      const [width, height] = match ? [parseInt(match[1], 10), parseInt(match[2], 10)] : [0, 0];
+      if (
+        !match ||
+        width < 16 ||
+        height < 16 ||
+        width > MAX_RENDER_DIMENSION ||
+        height > MAX_RENDER_DIMENSION
+      ) {
+        return `Resolution must be WIDTHxHEIGHT with each side between 16 and ${MAX_RENDER_DIMENSION}`;
+      }
+    }
+
+    if (format !== undefined && !RENDER_FORMATS.includes(format)) {
+      return `Format must be one of: ${RENDER_FORMATS.join(', ')}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Queue validated code for rendering and persist the initial job log
+   */
+  private async enqueueGeneratedCode(
+    prompt: string,
+    code: string,
+    providerName: string,
+    model: string | undefined,
+    settings: RequestedRenderOptions
+  ): Promise<string> {
+    // Add job to the rendering queue and get the actual job ID
+    const jobId = await this.jobQueueService.addJob({
+      prompt: prompt.trim(),
+      code,
+      outputPath: undefined,
+      error: undefined,
+      provider: providerName,
+      model,
+      ...settings,
+    });
+
+    logger.info('Animation generation job queued successfully', {
+      jobId,
+      prompt: prompt.substring(0, 100),
+    });
+
+    // Persist logs and code snapshot
+    await JobLogger.append(jobId, 'Job queued', {
+      provider: providerName,
+      model: model || null,
+      settings,
+    });
+    await JobLogger.saveCode(jobId, code, 'generated');
+
+    return jobId;
+  }
+
   /**
    * Get the status of a rendering job
    */
@@ -144,10 +419,9 @@ export class AnimationController {
 
       logger.info('Checking job status', { jobId: id });
 
-      // Get job status from the queue
-      const job = await this.jobQueueService.getJobStatus(id);
+      const jobStatus = await this.buildJobStatus(id);
 
-      if (!job) {
+      if (!jobStatus) {
         res.status(404).json({
           message: 'Job not found',
           code: 'JOB_NOT_FOUND',
@@ -155,103 +429,242 @@ export class AnimationController {
         return;
       }
 
-      // Transform the job data to match the JobStatus interface
-      // Use actual progress from the job instead of hardcoded values
-      let progress = 0;
+      logger.info('Job status retrieved successfully', {
+        jobId: id,
+        status: jobStatus.status,
+      });
 
-      if (job.status === 'done') {
-        progress = 100;
-      } else if (job.status === 'running') {
-        // Try to get actual progress from the job queue
-        try {
-          const queueJob = await this.jobQueueService.getJobProgress(id);
-          if (queueJob && typeof queueJob.progress === 'number') {
-            progress = queueJob.progress;
-            logger.debug('Using actual progress from queue', { jobId: id, progress });
-          } else {
-            // Fallback to estimated progress based on time
-            progress = 50; // Default fallback
-            logger.debug('Using fallback progress', { jobId: id, progress });
-          }
-        } catch (error) {
-          progress = 50; // Fallback on error
-          logger.debug('Error getting progress, using fallback', { jobId: id, error });
+      res.status(200).json(jobStatus);
+    } catch (error) {
+      logger.error('Error in getJobStatus controller', { error, jobId: req.params.id });
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      res.status(500).json({
+        message: 'Failed to get job status',
+        code: 'STATUS_RETRIEVAL_FAILED',
+        details: errorMessage,
+      });
+    }
+  }
+
+  /**
+   * Current status of a job as clients see it, or null if there is no such job
+   */
+  private async buildJobStatus(id: string): Promise<JobStatus | null> {
+    // Get job status from the queue
+    const job = await this.jobQueueService.getJobStatus(id);
+
+    if (!job) {
+      return null;
+    }
+
+    // Transform the job data to match the JobStatus interface
+    // Use actual progress from the job instead of hardcoded values
+    let progress = 0;
+
+    if (job.status === 'done') {
+      progress = 100;
+    } else if (job.status === 'running') {
+      // Try to get actual progress from the job queue
+      try {
+        const queueJob = await this.jobQueueService.getJobProgress(id);
+        if (queueJob && typeof queueJob.progress === 'number') {
+          progress = queueJob.progress;
+          logger.debug('Using actual progress from queue', { jobId: id, progress });
+        } else {
+          // Fallback to estimated progress based on time
+          progress = 50; // Default fallback
+          logger.debug('Using fallback progress', { jobId: id, progress });
         }
+      } catch (error) {
+        progress = 50; // Fallback on error
+        logger.debug('Error getting progress, using fallback', { jobId: id, error });
       }
+    }
 
-      logger.debug('Job status transformation', {
-        jobId: id,
-        originalStatus: job.status,
-        calculatedProgress: progress,
-        hasOutputPath: !!job.outputPath,
-        outputPath: job.outputPath,
-      });
-
-      const jobStatus: JobStatus = {
-        id: job.id,
-        status: job.status,
-        progress: progress,
-        videoUrl:
-          job.status === 'done' && job.outputPath
-            ? `/outputs/${id}/${job.outputPath.split('/').pop()}`
-            : undefined,
-        error: job.error,
-        code: job.code,
-        regenerationCount: (job as any).regenerationCount,
-        originalJobId: (job as any).originalJobId,
-        provider: (job as any).provider,
-        model: (job as any).model,
-        createdAt: job.createdAt,
-        updatedAt: job.updatedAt,
-      };
+    logger.debug('Job status transformation', {
+      jobId: id,
+      originalStatus: job.status,
+      calculatedProgress: progress,
+      hasOutputPath: !!job.outputPath,
+      outputPath: job.outputPath,
+    });
+
+    // A preview's own output is its previewUrl; videoUrl is always the full-quality render
+    const ownUrl = this.getOutputUrl(job);
+    let previewUrl: string | undefined;
+    let videoUrl: string | undefined;
+    if (job.phase === 'preview') {
+      previewUrl = ownUrl;
+      videoUrl = job.finalJobId ? await this.getLinkedOutputUrl(job.finalJobId) : undefined;
+    } else {
+      videoUrl = ownUrl;
+      previewUrl = job.previewJobId ? await this.getLinkedOutputUrl(job.previewJobId) : undefined;
+    }
 
-      // If this job failed and has a regenerated successor, include it
-      if (job.status === 'error') {
-        try {
-          const nextJobId = await this.jobQueueService.getNextJobId(id);
-          if (nextJobId) {
-            (jobStatus as any).nextJobId = nextJobId;
-          }
-        } catch (_) {
-          // best effort only
+    const jobStatus: JobStatus = {
+      id: job.id,
+      status: job.status,
+      progress: progress,
+      videoUrl,
+      previewUrl,
+      phase: job.phase,
+      previewJobId: job.previewJobId,
+      finalJobId: job.finalJobId,
+      scenes:
+        job.status === 'done' && job.scenes
+          ? job.scenes.map(scene => ({
+              name: scene.name,
+              url: `/outputs/${id}/${scene.outputPath.split('/').pop()}`,
+            }))
+          : undefined,
+      cached: job.cached,
+      error: job.error,
+      code: job.code,
+      regenerationCount: job.regenerationCount,
+      originalJobId: job.originalJobId,
+      provider: job.provider,
+      model: job.model,
+      validationError: job.validationError,
+      quality: job.quality,
+      fps: job.fps,
+      resolution: job.resolution,
+      format: job.format,
+      resourceProfile: job.resourceProfile,
+      resourceUsage: job.resourceUsage,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+    };
+
+    // If this job failed and has a regenerated successor, include it
+    if (job.status === 'error') {
+      try {
+        const nextJobId = await this.jobQueueService.getNextJobId(id);
+        if (nextJobId) {
+          (jobStatus as any).nextJobId = nextJobId;
         }
+      } catch (_) {
+        // best effort only
       }
+    }
 
-      logger.info('Job status retrieved successfully', {
-        jobId: id,
-        status: job.status,
-      });
+    return jobStatus;
+  }
 
-      res.status(200).json(jobStatus);
+  /**
+   * Start the full-quality render for a finished preview
+   */
+  async finalizeJob(
+    req: Request<{ id: string }>,
+    res: Response<{ message: string; finalJobId: string } | ApiError>
+  ): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!id || typeof id !== 'string') {
+        res.status(400).json({
+          message: 'Valid job ID is required',
+          code: 'INVALID_JOB_ID',
+        });
+        return;
+      }
+
+      logger.info('Final render requested', { jobId: id });
+
+      const job = await this.jobQueueService.getJobStatus(id);
+      if (!job) {
+        res.status(404).json({
+          message: 'Job not found',
+          code: 'JOB_NOT_FOUND',
+        });
+        return;
+      }
+
+      if (job.phase !== 'preview' || job.status !== 'done') {
+        res.status(400).json({
+          message: 'Only finished preview jobs can be rendered in full quality',
+          code: 'NOT_A_FINISHED_PREVIEW',
+        });
+        return;
+      }
+
+      const finalJobId = await this.jobQueueService.finalizePreview(id);
+      if (!finalJobId) {
+        res.status(500).json({
+          message: 'Failed to queue the full-quality render',
+          code: 'FINALIZE_FAILED',
+        });
+        return;
+      }
+
+      res.status(200).json({
+        message: 'Full-quality render queued',
+        finalJobId,
+      });
     } catch (error) {
-      logger.error('Error in getJobStatus controller', { error, jobId: req.params.id });
+      logger.error('Error in finalizeJob controller', { error, jobId: req.params.id });
 
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
       res.status(500).json({
-        message: 'Failed to get job status',
-        code: 'STATUS_RETRIEVAL_FAILED',
+        message: 'Failed to start final render',
+        code: 'FINALIZE_FAILED',
         details: errorMessage,
       });
     }
   }
 
   /**
-   * Get all jobs (for admin/monitoring purposes)
+   * Public URL of a finished job's output file
+   */
+  private getOutputUrl(job: RenderJob): string | undefined {
+    return job.status === 'done' && job.outputPath
+      ? `/outputs/${job.id}/${job.outputPath.split('/').pop()}`
+      : undefined;
+  }
+
+  /**
+   * Output URL of the other half of a preview/final pair, if it has finished
+   */
+  private async getLinkedOutputUrl(jobId: string): Promise<string | undefined> {
+    try {
+      const linked = await this.jobQueueService.getJobStatus(jobId);
+      return linked ? this.getOutputUrl(linked) : undefined;
+    } catch (_) {
+      // The linked job may have been removed from the queue
+      return undefined;
+    }
+  }
+
+  /**
+   * Get a page of jobs from the job history (for admin/monitoring purposes).
+   * Supports filters, full-text search over prompts, sorting and cursor pagination.
    */
   async getAllJobs(req: Request, res: Response): Promise<void> {
     try {
-      logger.info('Retrieving all jobs');
+      const query = this.resolveJobListQuery(req, res);
+      if (!query) return;
+
+      logger.info('Retrieving jobs', { query });
 
-      const jobs = await this.jobQueueService.getAllJobs();
+      const { jobs, nextCursor } = await this.jobQueueService.getAllJobs(query);
 
-      logger.info('All jobs retrieved successfully', { count: jobs.length });
+      logger.info('Jobs retrieved successfully', { count: jobs.length, hasMore: !!nextCursor });
 
       res.status(200).json({
         jobs,
         count: jobs.length,
+        nextCursor,
         message: 'Jobs retrieved successfully',
       });
     } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        res.status(400).json({
+          message: 'cursor must be the nextCursor of a previous page with the same sort',
+          code: 'INVALID_JOB_QUERY',
+        });
+        return;
+      }
+
       logger.error('Error in getAllJobs controller', { error });
 
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
@@ -263,6 +676,123 @@ export class AnimationController {
     }
   }
 
+  /**
+   * Validate the query string of a job listing.
+   * Sends a 400 response and returns null when it is invalid.
+   */
+  private resolveJobListQuery(req: Request, res: Response): JobListQuery | null {
+    const {
+      status,
+      provider,
+      model,
+      createdAfter,
+      createdBefore,
+      hasRegenerations,
+      search,
+      sort,
+      order,
+      limit,
+      cursor,
+    } = req.query;
+    const reject = (message: string): null => {
+      res.status(400).json({ message, code: 'INVALID_JOB_QUERY' });
+      return null;
+    };
+
+    for (const [name, value] of Object.entries(req.query)) {
+      if (typeof value !== 'string' && !(name === 'status' && Array.isArray(value))) {
+        return reject(`${name} must be given once`);
+      }
+    }
+
+    // Several statuses may be given comma-separated or as repeated parameters
+    const statuses = status === undefined ? [] : String(status).split(',');
+    if (statuses.some(value => !JOB_STATUSES.includes(value as JobStatus['status']))) {
+      return reject(`status must be one or more of: ${JOB_STATUSES.join(', ')}`);
+    }
+
+    const parseDate = (value: unknown): Date | null | undefined => {
+      if (value === undefined) return undefined;
+      const date = new Date(String(value));
+      return isNaN(date.getTime()) ? null : date;
+    };
+    const after = parseDate(createdAfter);
+    const before = parseDate(createdBefore);
+    if (after === null || before === null) {
+      return reject('createdAfter and createdBefore must be ISO 8601 dates');
+    }
+
+    if (
+      hasRegenerations !== undefined &&
+      hasRegenerations !== 'true' &&
+      hasRegenerations !== 'false'
+    ) {
+      return reject('hasRegenerations must be true or false');
+    }
+
+    if (search !== undefined && String(search).length > 200) {
+      return reject('search must be at most 200 characters');
+    }
+
+    if (sort !== undefined && !JOB_LIST_SORTS.includes(sort as JobListSort)) {
+      return reject(`sort must be one of: ${JOB_LIST_SORTS.join(', ')}`);
+    }
+
+    if (order !== undefined && order !== 'asc' && order !== 'desc') {
+      return reject('order must be asc or desc');
+    }
+
+    const pageSize = limit === undefined ? undefined : Number(limit);
+    if (
+      pageSize !== undefined &&
+      (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_JOB_PAGE_SIZE)
+    ) {
+      return reject(`limit must be an integer between 1 and ${MAX_JOB_PAGE_SIZE}`);
+    }
+
+    return {
+      status: statuses.length ? (statuses as JobStatus['status'][]) : undefined,
+      provider: provider ? String(provider) : undefined,
+      model: model ? String(model) : undefined,
+      createdAfter: after,
+      createdBefore: before,
+      hasRegenerations: hasRegenerations === undefined ? undefined : hasRegenerations === 'true',
+      search: search ? String(search) : undefined,
+      sort: sort as JobListSort | undefined,
+      order: order as JobListQuery['order'],
+      limit: pageSize,
+      cursor: cursor ? String(cursor) : undefined,
+    };
+  }
+
+  /**
+   * Get a job's history: its record, status transitions and every code version of its
+   * regeneration chain
+   */
+  async getJobHistory(req: Request<{ id: string }>, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      const history = await this.jobQueueService.getJobHistory(id);
+      if (!history) {
+        res.status(404).json({
+          message: 'Job not found in history',
+          code: 'JOB_NOT_FOUND',
+        });
+        return;
+      }
+
+      res.status(200).json(history);
+    } catch (error) {
+      logger.error('Error in getJobHistory controller', { error, jobId: req.params.id });
+      res.status(500).json({
+        message: 'Failed to retrieve job history',
+        code: 'JOB_HISTORY_RETRIEVAL_FAILED',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
   /**
    * Get detailed information about all jobs including BullMQ states
    */
@@ -328,12 +858,20 @@ export class AnimationController {
   }
 
   /**
-   * Get live progress updates with Server-Sent Events
+   * Stream a job's events with Server-Sent Events as the worker publishes them.
+   *
+   * A new stream replays the job's output so far, then sends a `status` snapshot; after that
+   * `status`, `progress`, `output` and `render-progress` events follow as they happen. Every
+   * event carries its ID, so a reconnecting client (Last-Event-ID header, or `lastEventId`
+   * query parameter) only receives what it missed.
    */
-  async getLiveProgress(req: Request, res: Response): Promise<void> {
-    try {
-      const { id } = req.params;
+  async getLiveProgress(req: Request<{ id: string }>, res: Response): Promise<void> {
+    const { id } = req.params;
+    let unsubscribe: (() => Promise<void>) | undefined;
+    let keepAlive: NodeJS.Timeout | undefined;
+    let clientClosed = false;
 
+    try {
       if (!id) {
         res.status(400).json({
           message: 'Job ID is required',
@@ -342,43 +880,100 @@ export class AnimationController {
         return;
       }
 
-      // Set up Server-Sent Events
+      const lastEventId = req.header('Last-Event-ID') || req.query.lastEventId;
+      if (lastEventId !== undefined && !STREAM_ID.test(String(lastEventId))) {
+        res.status(400).json({
+          message: 'Last-Event-ID must be an event ID from this stream',
+          code: 'INVALID_LAST_EVENT_ID',
+        });
+        return;
+      }
+
+      const initialStatus = await this.buildJobStatus(id);
+      if (!initialStatus) {
+        res.status(404).json({
+          message: 'Job not found',
+          code: 'JOB_NOT_FOUND',
+        });
+        return;
+      }
+
       res.writeHead(200, {
         'Content-Type': 'text/event-stream',
         'Cache-Control': 'no-cache',
         Connection: 'keep-alive',
-        'Access-Control-Allow-Origin': '*',
+        'X-Accel-Buffering': 'no',
       });
 
-      // Send initial progress
-      const initialProgress = await this.jobQueueService.getJobProgress(id);
-      res.write(`data: ${JSON.stringify(initialProgress)}\n\n`);
+      res.on('close', () => {
+        if (!res.writableEnded) clientClosed = true;
+        clearInterval(keepAlive);
+        unsubscribe?.().catch(error => {
+          logger.warn('Failed to unsubscribe from job events', { jobId: id, error });
+        });
+      });
 
-      // Set up progress polling
-      const progressInterval = setInterval(async () => {
-        try {
-          const progress = await this.jobQueueService.getJobProgress(id);
-          res.write(`data: ${JSON.stringify(progress)}\n\n`);
+      // Events are written one at a time; status snapshots are looked up before writing
+      let writing = Promise.resolve();
+      const forward = (event: JobEvent) => {
+        writing = writing
+          .then(() => this.writeJobEvent(res, id, event))
+          .catch(error => {
+            logger.warn('Failed to forward job event', { jobId: id, eventId: event.id, error });
+          });
+      };
 
-          // Stop if job is complete
-          if (progress.status === 'done' || progress.status === 'failed') {
-            clearInterval(progressInterval);
-            res.end();
-          }
-        } catch (error) {
-          logger.error('Error in live progress update', { error, jobId: id });
-          clearInterval(progressInterval);
-          res.end();
+      // Subscribe before reading the backlog so nothing published in between is lost
+      let pending: JobEvent[] | null = [];
+      unsubscribe = await this.jobQueueService.subscribeToJobEvents(id, event => {
+        if (pending) {
+          pending.push(event);
+        } else if (!clientClosed) {
+          forward(event);
         }
-      }, 1000); // Update every second
-
-      // Clean up on client disconnect
-      req.on('close', () => {
-        clearInterval(progressInterval);
-        res.end();
       });
+      if (clientClosed) {
+        await unsubscribe();
+        return;
+      }
+
+      // Output is replayed; status and progress are covered by the snapshot that follows
+      const backlog = await this.jobQueueService.getJobEvents(
+        id,
+        lastEventId === undefined ? undefined : String(lastEventId)
+      );
+      for (const event of backlog) {
+        if (event.type === 'output' || event.type === 'render-progress') {
+          await this.writeJobEvent(res, id, event);
+        }
+      }
+      const latestId = backlog.length
+        ? backlog[backlog.length - 1].id
+        : lastEventId === undefined
+          ? undefined
+          : String(lastEventId);
+      this.writeSseEvent(res, 'status', (await this.buildJobStatus(id)) || initialStatus, latestId);
+
+      const replayed = new Set(backlog.map(event => event.id));
+      for (const event of pending) {
+        if (!replayed.has(event.id)) forward(event);
+      }
+      pending = null;
+      if (clientClosed) return;
+
+      // Comments keep proxies from closing an idle stream
+      keepAlive = setInterval(() => {
+        res.write(': keep-alive\n\n');
+        res.flush();
+      }, LIVE_KEEP_ALIVE_MS);
     } catch (error) {
-      logger.error('Failed to get live progress', { error, jobId: req.params.id });
+      logger.error('Failed to get live progress', { error, jobId: id });
+      clearInterval(keepAlive);
+      await unsubscribe?.().catch(() => {});
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
       res.status(500).json({
         message: 'Failed to get live progress',
         code: 'LIVE_PROGRESS_FAILED',
@@ -387,6 +982,36 @@ export class AnimationController {
     }
   }
 
+  /**
+   * Write a job event to an SSE stream. Status changes are sent as a full status snapshot.
+   */
+  private async writeJobEvent(res: Response, jobId: string, event: JobEvent): Promise<void> {
+    switch (event.type) {
+      case 'status':
+      case 'linked': {
+        const jobStatus = await this.buildJobStatus(jobId);
+        if (jobStatus) this.writeSseEvent(res, 'status', jobStatus, event.id);
+        break;
+      }
+      case 'progress':
+        this.writeSseEvent(res, 'progress', { progress: event.progress }, event.id);
+        break;
+      case 'output':
+        this.writeSseEvent(res, 'output', event.output, event.id);
+        break;
+      case 'render-progress':
+        this.writeSseEvent(res, 'render-progress', event.event, event.id);
+        break;
+    }
+  }
+
+  private writeSseEvent(res: Response, event: string, data: unknown, id?: string): void {
+    if (res.writableEnded) return;
+    res.write(`${id ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    // Push through the compression middleware so events arrive as they happen
+    res.flush();
+  }
+
   /**
    * Estimate time remaining based on progress
    */
@@ -419,6 +1044,8 @@ export class AnimationController {
     switch (status) {
       case 'pending':
         return 'Waiting in queue...';
+      case 'validating':
+        return 'Checking script with a dry run...';
       case 'running':
         if (progress < 25) return 'Initializing Manim...';
         if (progress < 50) return 'Rendering frames...';
@@ -466,9 +1093,10 @@ export class AnimationController {
   }
 
   /**
-   * Force kill a stuck job
+   * Cancel a job: remove it from the queue if it hasn't started, otherwise stop its
+   * validation or render. The response says which of the two happened.
    */
-  async forceKillJob(req: Request, res: Response): Promise<void> {
+  async cancelJob(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
 
@@ -480,48 +1108,37 @@ export class AnimationController {
         return;
       }
 
-      await this.jobQueueService.forceKillJob(id);
+      const cancellation = await this.jobQueueService.cancelJob(id);
+      if (!cancellation) {
+        res.status(404).json({
+          message: 'Job not found',
+          code: 'JOB_NOT_FOUND',
+        });
+        return;
+      }
 
       res.status(200).json({
-        message: 'Job force killed successfully',
+        message:
+          cancellation === 'dequeued'
+            ? 'Queued job removed before it started'
+            : 'Running job is being stopped',
         jobId: id,
+        cancellation,
       });
     } catch (error) {
-      logger.error('Failed to force kill job', { error, jobId: req.params.id });
-      res.status(500).json({
-        message: 'Failed to force kill job',
-        code: 'FORCE_KILL_FAILED',
-        details: error instanceof Error ? error.message : 'Unknown error',
-      });
-    }
-  }
-
-  /**
-   * Get comprehensive debugging information for a job
-   */
-  async getJobDebugInfo(req: Request, res: Response): Promise<void> {
-    try {
-      const { id } = req.params;
-
-      if (!id) {
-        res.status(400).json({
-          message: 'Job ID is required',
-          code: 'MISSING_JOB_ID',
+      if (error instanceof JobNotCancellableError) {
+        res.status(409).json({
+          message: error.message,
+          code: 'JOB_NOT_CANCELLABLE',
+          details: { status: error.status },
         });
         return;
       }
 
-      const debugInfo = await this.jobQueueService.getJobDebugInfo(id);
-
-      res.status(200).json({
-        message: 'Job debug info retrieved successfully',
-        debugInfo,
-      });
-    } catch (error) {
-      logger.error('Failed to get job debug info', { error, jobId: req.params.id });
+      logger.error('Failed to cancel job', { error, jobId: req.params.id });
       res.status(500).json({
-        message: 'Failed to get job debug info',
-        code: 'DEBUG_INFO_FAILED',
+        message: 'Failed to cancel job',
+        code: 'CANCEL_FAILED',
         details: error instanceof Error ? error.message : 'Unknown error',
       });
     }
@@ -561,51 +1178,97 @@ export class AnimationController {
   }
 
   /**
-   * Reset stuck job progress
+   * List registered code generation providers
    */
-  async resetJobProgress(req: Request, res: Response): Promise<void> {
-    try {
-      const { id } = req.params;
+  async getProviders(req: Request, res: Response): Promise<void> {
+    res.status(200).json({
+      providers: providerRegistry.describe(),
+      defaultProvider: providerRegistry.getDefaultName(),
+    });
+  }
 
-      if (!id) {
-        res.status(400).json({
-          message: 'Job ID is required',
-          code: 'MISSING_JOB_ID',
-        });
-        return;
-      }
+  /**
+   * List the models a provider can use
+   */
+  async getProviderModels(req: Request<{ name: string }>, res: Response): Promise<void> {
+    const { name } = req.params;
+    const codeProvider = providerRegistry.get(name);
+
+    if (!codeProvider) {
+      res.status(404).json({
+        message: `Unknown provider '${name}'`,
+        code: 'UNKNOWN_PROVIDER',
+      });
+      return;
+    }
 
-      await this.jobQueueService.resetJobProgress(id);
+    try {
+      const models = await codeProvider.listModels();
 
       res.status(200).json({
-        message: 'Job progress reset successfully',
-        jobId: id,
+        provider: name,
+        defaultModel: codeProvider.defaultModel,
+        models,
+        count: models.length,
       });
     } catch (error) {
-      logger.error('Failed to reset job progress', { error, jobId: req.params.id });
-      res.status(500).json({
-        message: 'Failed to reset job progress',
-        code: 'PROGRESS_RESET_FAILED',
+      logger.error('Failed to list provider models', { error, provider: name });
+      res.status(502).json({
+        message: 'Failed to list provider models',
+        code: 'PROVIDER_MODELS_FAILED',
         details: error instanceof Error ? error.message : 'Unknown error',
       });
     }
   }
 
+  /**
+   * Check connectivity to a provider's API
+   */
+  async getProviderHealth(req: Request<{ name: string }>, res: Response): Promise<void> {
+    const { name } = req.params;
+    const codeProvider = providerRegistry.get(name);
+
+    if (!codeProvider) {
+      res.status(404).json({
+        message: `Unknown provider '${name}'`,
+        code: 'UNKNOWN_PROVIDER',
+      });
+      return;
+    }
+
+    const healthy = await codeProvider.healthCheck();
+
+    res.status(healthy ? 200 : 503).json({
+      provider: name,
+      configured: codeProvider.isConfigured(),
+      status: healthy ? 'healthy' : 'unhealthy',
+      timestamp: new Date().toISOString(),
+    });
+  }
+
   /**
    * Health check endpoint
    */
   async healthCheck(req: Request, res: Response): Promise<void> {
     try {
       // Check if services are healthy
-      const dockerAvailable = await this.jobQueueService['manimRenderer'].validateDocker();
+      const renderBackend = await this.jobQueueService.getRenderBackendHealth();
+
+      const providers: Record<string, string> = {};
+      for (const codeProvider of providerRegistry.list()) {
+        providers[codeProvider.name] = codeProvider.isConfigured()
+          ? 'configured'
+          : 'not_configured';
+      }
 
       res.status(200).json({
         status: 'healthy',
         timestamp: new Date().toISOString(),
         services: {
-          gemini: 'connected',
+          ...providers,
           jobQueue: 'connected',
-          docker: dockerAvailable ? 'available' : 'unavailable',
+          renderBackend: renderBackend.name,
+          renderer: renderBackend.healthy ? 'available' : 'unavailable',
         },
       });
     } catch (error) {
@@ -683,9 +1346,18 @@ export class AnimationController {
     try {
       logger.info('Automatic regeneration of all failed jobs requested');
 
-      // Get all failed jobs
-      const allJobs = await this.jobQueueService.getAllJobs();
-      const failedJobs = allJobs.filter(job => job.status === 'error');
+      // Get all failed jobs; jobs already replaced by a regenerated one are skipped
+      const failedJobs: RenderJob[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await this.jobQueueService.getAllJobs({
+          status: ['error'],
+          limit: MAX_JOB_PAGE_SIZE,
+          cursor,
+        });
+        failedJobs.push(...page.jobs.filter(job => !job.nextJobId));
+        cursor = page.nextCursor;
+      } while (cursor);
 
       if (failedJobs.length === 0) {
         res.status(200).json({
@@ -1,8 +1,16 @@
 import { Request, Response } from 'express';
-import { spawn } from 'child_process';
 import { promises as fs } from 'fs';
 import path from 'path';
+import { config } from '../config';
 import { logger } from '../utils/logger';
+import {
+  DockerApiError,
+  DockerContainerStats,
+  DockerContainerSummary,
+  MLANIM_LABELS,
+  dockerClient,
+} from '../services/dockerClient';
+import { renderScheduler } from '../services/renderScheduler';
 
 export class SystemController {
   /**
@@ -28,7 +36,7 @@ export class SystemController {
   }
 
   /**
-   * Get all Docker containers
+   * Get all MLanim render containers (from any backend instance)
    */
   async getDockerContainers(req: Request, res: Response): Promise<void> {
     try {
@@ -64,6 +72,29 @@ export class SystemController {
         return;
       }
 
+      // Only containers MLanim started may be killed; Redis and anything else on the host are off limits
+      let labels: Record<string, string>;
+      try {
+        labels = (await dockerClient.inspectContainer(id)).Config.Labels || {};
+      } catch (error) {
+        if (error instanceof DockerApiError && error.statusCode === 404) {
+          res.status(404).json({
+            message: 'Container not found',
+            code: 'CONTAINER_NOT_FOUND',
+          });
+          return;
+        }
+        throw error;
+      }
+
+      if (!labels[MLANIM_LABELS.jobId]) {
+        res.status(403).json({
+          message: 'Container is not managed by MLanim',
+          code: 'CONTAINER_NOT_MANAGED',
+        });
+        return;
+      }
+
       await this.killContainer(id);
 
       res.status(200).json({
@@ -81,27 +112,39 @@ export class SystemController {
   }
 
   /**
-   * Kill all running Docker containers
+   * Kill every running render container on the host, the same ones the container listing
+   * shows, whichever API or worker process started them
    */
   async killAllDockerContainers(req: Request, res: Response): Promise<void> {
     try {
-      const containers = await this.listDockerContainers();
-      const runningContainers = containers.filter(c => c.State === 'running');
+      const runningContainers = await dockerClient.listContainers(
+        { label: [MLANIM_LABELS.jobId], status: ['running'] },
+        false
+      );
 
       let killedCount = 0;
+      const skipped: { containerId: string; reason: string }[] = [];
       for (const container of runningContainers) {
         try {
           await this.killContainer(container.Id);
           killedCount++;
         } catch (error) {
           logger.warn('Failed to kill container', { containerId: container.Id, error });
+          skipped.push({
+            containerId: container.Id,
+            reason: error instanceof Error ? error.message : 'Unknown error',
+          });
         }
       }
 
       res.status(200).json({
-        message: 'All running containers killed',
+        message:
+          skipped.length === 0
+            ? 'All running containers killed'
+            : `Killed ${killedCount} of ${runningContainers.length} running containers; ${skipped.length} could not be killed`,
         totalContainers: runningContainers.length,
         killedCount,
+        skipped,
       });
     } catch (error) {
       logger.error('Failed to kill all Docker containers', { error });
@@ -136,153 +179,56 @@ export class SystemController {
   }
 
   /**
-   * List Docker containers using docker ps command
+   * List MLanim's containers via the Engine API; a label filter on the key alone matches any value
    */
-  private async listDockerContainers(): Promise<any[]> {
-    return new Promise((resolve, reject) => {
-      const dockerProcess = spawn('docker', ['ps', '-a', '--format', 'json']);
-
-      let stdout = '';
-      let stderr = '';
-
-      dockerProcess.stdout?.on('data', data => {
-        stdout += data.toString();
-      });
-
-      dockerProcess.stderr?.on('data', data => {
-        stderr += data.toString();
-      });
-
-      dockerProcess.on('close', code => {
-        if (code === 0) {
-          try {
-            // Parse each line as JSON
-            const containers = stdout
-              .trim()
-              .split('\n')
-              .filter(line => line.trim())
-              .map(line => {
-                try {
-                  return JSON.parse(line);
-                } catch (parseError) {
-                  logger.warn('Failed to parse container JSON', { line, parseError });
-                  return null;
-                }
-              })
-              .filter(container => container !== null);
-
-            resolve(containers);
-          } catch (error) {
-            reject(new Error(`Failed to parse Docker output: ${error}`));
-          }
-        } else {
-          reject(new Error(`Docker command failed with code ${code}: ${stderr}`));
-        }
-      });
-
-      dockerProcess.on('error', error => {
-        reject(new Error(`Docker command error: ${error.message}`));
-      });
-    });
+  private async listDockerContainers(): Promise<DockerContainerSummary[]> {
+    return dockerClient.listContainers({ label: [MLANIM_LABELS.jobId] });
   }
 
   /**
    * Kill a Docker container
    */
   private async killContainer(containerId: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const killProcess = spawn('docker', ['kill', containerId]);
-
-      killProcess.on('close', code => {
-        if (code === 0) {
-          logger.info('Container killed successfully', { containerId });
-          resolve();
-        } else {
-          reject(new Error(`Failed to kill container ${containerId} with code ${code}`));
-        }
-      });
-
-      killProcess.on('error', error => {
-        reject(new Error(`Failed to kill container ${containerId}: ${error.message}`));
-      });
-    });
+    await dockerClient.killContainer(containerId);
+    logger.info('Container killed successfully', { containerId });
   }
 
   /**
    * Get system resource usage
    */
   private async getResourceUsage(): Promise<any> {
-    return new Promise((resolve, reject) => {
-      // Get Docker stats for running containers
-      const dockerProcess = spawn('docker', ['stats', '--no-stream', '--format', 'json']);
-
-      let stdout = '';
-      let stderr = '';
-
-      dockerProcess.stdout?.on('data', data => {
-        stdout += data.toString();
-      });
-
-      dockerProcess.stderr?.on('data', data => {
-        stderr += data.toString();
-      });
-
-      dockerProcess.on('close', code => {
-        if (code === 0) {
-          try {
-            const containerStats = stdout
-              .trim()
-              .split('\n')
-              .filter(line => line.trim())
-              .map(line => {
-                try {
-                  return JSON.parse(line);
-                } catch (parseError) {
-                  return null;
-                }
-              })
-              .filter(stat => stat !== null);
-
-            // Calculate total resource usage
-            const totalStats = containerStats.reduce(
-              (acc, stat) => {
-                // Parse memory usage (e.g., "1.5GiB" -> 1.5)
-                const memoryMatch = stat.MemPerc?.match(/(\d+\.?\d*)/);
-                const memory = memoryMatch ? parseFloat(memoryMatch[1]) : 0;
-
-                // Parse CPU usage (e.g., "0.50%" -> 0.5)
-                const cpuMatch = stat.CPUPerc?.match(/(\d+\.?\d*)/);
-                const cpu = cpuMatch ? parseFloat(cpuMatch[1]) : 0;
-
-                return {
-                  memory: acc.memory + memory,
-                  cpu: acc.cpu + cpu,
-                  containers: acc.containers + 1,
-                };
-              },
-              { memory: 0, cpu: 0, containers: 0 }
-            );
-
-            resolve({
-              containers: totalStats,
-              stats: containerStats,
-            });
-          } catch (error) {
-            reject(new Error(`Failed to parse Docker stats: ${error}`));
-          }
-        } else {
-          // If no containers are running, return empty stats
-          resolve({
-            containers: { memory: 0, cpu: 0, containers: 0 },
-            stats: [],
-          });
-        }
-      });
-
-      dockerProcess.on('error', error => {
-        reject(new Error(`Docker stats error: ${error.message}`));
-      });
-    });
+    const running = await dockerClient.listContainers(
+      { label: [MLANIM_LABELS.jobId], status: ['running'] },
+      false
+    );
+
+    // Containers can exit between listing and sampling; those are skipped
+    const samples = await Promise.all(
+      running.map(container =>
+        dockerClient.getContainerStats(container.Id).catch(error => {
+          logger.debug('Failed to get container stats', { containerId: container.Id, error });
+          return null;
+        })
+      )
+    );
+    const containerStats = samples.filter((stat): stat is DockerContainerStats => stat !== null);
+
+    // Calculate total resource usage
+    const totalStats = containerStats.reduce(
+      (acc, stat) => ({
+        memory: acc.memory + stat.memoryPercent,
+        memoryBytes: acc.memoryBytes + stat.memoryUsage,
+        cpu: acc.cpu + stat.cpuPercent,
+        containers: acc.containers + 1,
+      }),
+      { memory: 0, memoryBytes: 0, cpu: 0, containers: 0 }
+    );
+
+    return {
+      containers: totalStats,
+      stats: containerStats,
+      scheduler: await renderScheduler.getState(),
+    };
   }
 
   /**
@@ -292,7 +238,7 @@ export class SystemController {
     const results: any = {};
 
     // Check Docker socket permission
-    const dockerSocketPath = '/var/run/docker.sock';
+    const dockerSocketPath = config.docker.socketPath;
     results.dockerSocket = {
       path: dockerSocketPath,
       exists: await fs
@@ -307,20 +253,8 @@ export class SystemController {
         .access(dockerSocketPath)
         .then(() => true)
         .catch(() => false),
-    };
-
-    // Check Docker executable permission
-    const dockerExecutable = 'docker';
-    results.dockerExecutable = {
-      path: dockerExecutable,
-      exists: await fs
-        .access(dockerExecutable)
-        .then(() => true)
-        .catch(() => false),
-      executable: await fs
-        .access(dockerExecutable)
-        .then(() => true)
-        .catch(() => false),
+      // Whether the Engine API actually answers on it
+      reachable: await dockerClient.ping(),
     };
 
     // Check system directories (e.g., /var/lib/docker, /var/run)
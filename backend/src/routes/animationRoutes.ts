@@ -32,6 +32,23 @@ const statusRateLimit = rateLimit({
 // Health check endpoint
 router.get('/health', animationController.healthCheck.bind(animationController));
 
+// List registered code generation providers
+router.get('/providers', animationController.getProviders.bind(animationController));
+
+// List models for a provider
+router.get(
+  '/providers/:name/models',
+  statusRateLimit,
+  animationController.getProviderModels.bind(animationController)
+);
+
+// Check connectivity to a provider
+router.get(
+  '/providers/:name/health',
+  statusRateLimit,
+  animationController.getProviderHealth.bind(animationController)
+);
+
 // Generate animation from prompt
 router.post(
   '/generate',
@@ -39,6 +56,13 @@ router.post(
   animationController.generateAnimation.bind(animationController)
 );
 
+// Generate animation from prompt, streaming the code as Server-Sent Events
+router.post(
+  '/generate/stream',
+  generateRateLimit,
+  animationController.generateAnimationStream.bind(animationController)
+);
+
 // Get job status
 router.get(
   '/status/:id',
@@ -46,8 +70,22 @@ router.get(
   animationController.getJobStatus.bind(animationController)
 );
 
-// Get all jobs (for monitoring)
-router.get('/jobs', animationController.getAllJobs.bind(animationController));
+// Render a finished preview in full quality
+router.post(
+  '/finalize/:id',
+  generateRateLimit,
+  animationController.finalizeJob.bind(animationController)
+);
+
+// List jobs from the job history (for monitoring): filters, prompt search, sort and cursor paging
+router.get('/jobs', statusRateLimit, animationController.getAllJobs.bind(animationController));
+
+// Get a job's status transitions and code versions from the job history
+router.get(
+  '/jobs/:id/history',
+  statusRateLimit,
+  animationController.getJobHistory.bind(animationController)
+);
 
 // Get detailed jobs information (including BullMQ states)
 router.get('/jobs/detailed', animationController.getAllJobsDetailed.bind(animationController));
@@ -55,12 +93,6 @@ router.get('/jobs/detailed', animationController.getAllJobsDetailed.bind(animati
 // Debug endpoint to get detailed job progress
 router.get('/debug/:id', animationController.getJobProgress.bind(animationController));
 
-// Comprehensive debug endpoint for stuck jobs
-router.get(
-  '/debug-comprehensive/:id',
-  animationController.getJobDebugInfo.bind(animationController)
-);
-
 // Get Manim output for a job
 router.get('/manim-output/:id', animationController.getJobManimOutput.bind(animationController));
 
@@ -96,39 +128,23 @@ router.delete(
   animationController.deleteJob.bind(animationController)
 );
 
-// Force kill a stuck job
+// Cancel a queued or running job (/kill is its older name)
 router.post(
-  '/kill/:id',
+  ['/cancel/:id', '/kill/:id'],
   // Skip rate limiting in development mode
   process.env.NODE_ENV === 'development'
     ? (req, res, next) => next()
     : rateLimit({
         windowMs: 1 * 60 * 1000, // 1 minute
-        max: 20, // Limit each IP to 20 kill requests per minute
+        max: 20, // Limit each IP to 20 cancel requests per minute
         message: {
-          message: 'Too many kill requests from this IP, please try again later.',
+          message: 'Too many cancel requests from this IP, please try again later.',
           code: 'RATE_LIMIT_EXCEEDED',
         },
         standardHeaders: true,
         legacyHeaders: false,
       }),
-  animationController.forceKillJob.bind(animationController)
-);
-
-// Reset stuck job progress
-router.post(
-  '/reset-progress/:id',
-  rateLimit({
-    windowMs: 1 * 60 * 1000, // 1 minute
-    max: 10, // Limit each IP to 10 progress reset requests per minute
-    message: {
-      message: 'Too many progress reset requests from this IP, please try again later.',
-      code: 'RATE_LIMIT_EXCEEDED',
-    },
-    standardHeaders: true,
-    legacyHeaders: false,
-  }),
-  animationController.resetJobProgress.bind(animationController)
+  animationController.cancelJob.bind(animationController)
 );
 
 // Regenerate code for a failed job
@@ -165,7 +181,7 @@ router.post(
 
 // Development-only endpoint for testing (no rate limiting)
 if (process.env.NODE_ENV === 'development') {
-  router.post('/kill/:id/dev', animationController.forceKillJob.bind(animationController));
+  router.post('/kill/:id/dev', animationController.cancelJob.bind(animationController));
 }
 
 export default router;
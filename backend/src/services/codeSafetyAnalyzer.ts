@@ -0,0 +1,554 @@
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { CodeAnalysisResult, CodeFinding } from '../types';
+import { PythonSyntaxError, PythonToken, tokenizePython } from '../utils/pythonTokenizer';
+
+// Builtins that allow escaping the sandbox or reaching arbitrary objects by name
+const FORBIDDEN_BUILTINS = new Set([
+  '__import__',
+  'eval',
+  'exec',
+  'compile',
+  'open',
+  'input',
+  'breakpoint',
+  'globals',
+  'locals',
+  'vars',
+  'getattr',
+  'setattr',
+  'delattr',
+  'exit',
+  'quit',
+]);
+
+// Attributes and importable names that reach files or objects by name: string-based attribute
+// access in operator, and numpy's file I/O, memory-mapping and native-code helpers
+const FORBIDDEN_ATTRIBUTES = new Set([
+  'attrgetter',
+  'methodcaller',
+  'load',
+  'loadtxt',
+  'save',
+  'savetxt',
+  'savez',
+  'savez_compressed',
+  'genfromtxt',
+  'fromfile',
+  'tofile',
+  'fromregex',
+  'memmap',
+  'open_memmap',
+  'DataSource',
+  'ctypeslib',
+  'f2py',
+  'distutils',
+  'lib',
+]);
+
+// numpy submodules scripts may import; the rest (f2py, ctypeslib, lib, testing, ...) are refused
+const ALLOWED_NUMPY_SUBMODULES = new Set(['linalg', 'random', 'fft', 'polynomial', 'typing']);
+
+// Dunder names a Manim script legitimately needs; any other dunder is treated as introspection
+const ALLOWED_DUNDERS = new Set([
+  '__init__',
+  '__name__',
+  '__call__',
+  '__repr__',
+  '__str__',
+  '__len__',
+  '__iter__',
+  '__next__',
+  '__getitem__',
+  '__setitem__',
+  '__contains__',
+  '__eq__',
+  '__ne__',
+  '__lt__',
+  '__le__',
+  '__gt__',
+  '__ge__',
+  '__hash__',
+  '__add__',
+  '__sub__',
+  '__mul__',
+  '__truediv__',
+  '__neg__',
+  '__post_init__',
+]);
+
+/**
+ * Static analysis of generated Manim scripts.
+ * Works on the token stream from the Python tokenizer rather than raw text, so names inside
+ * strings and comments are ignored while attribute access, f-string expressions and aliased
+ * imports are still seen.
+ */
+export class CodeSafetyAnalyzer {
+  private readonly allowedImports: Set<string>;
+  private readonly maxScenes: number;
+
+  constructor(
+    allowedImports: readonly string[] = config.codeSafety.allowedImports,
+    maxScenes: number = config.rendering.maxScenes
+  ) {
+    this.allowedImports = new Set(allowedImports);
+    this.maxScenes = maxScenes;
+  }
+
+  /**
+   * Analyze a script; the result is valid when no error-level findings were produced
+   */
+  analyze(code: string): CodeAnalysisResult {
+    let tokens: PythonToken[];
+    try {
+      tokens = tokenizePython(code);
+    } catch (error) {
+      if (error instanceof PythonSyntaxError) {
+        return this.toResult([
+          {
+            rule: 'syntax-error',
+            severity: 'error',
+            message: `Syntax error: ${error.message}`,
+            line: error.line,
+            column: error.column,
+          },
+        ]);
+      }
+      throw error;
+    }
+
+    const findings: CodeFinding[] = [
+      ...this.checkImports(tokens),
+      ...this.checkNames(tokens),
+      ...this.checkStrings(tokens),
+      ...this.checkFStrings(tokens),
+      ...this.checkLoops(tokens),
+    ];
+    const { findings: sceneFindings, sceneNames } = this.checkScene(tokens);
+    findings.push(...sceneFindings);
+
+    return this.toResult(findings, sceneNames);
+  }
+
+  /**
+   * One line per finding, suitable for error messages and regeneration prompts
+   */
+  summarize(findings: CodeFinding[]): string {
+    return findings
+      .map(finding => `line ${finding.line}: ${finding.message} [${finding.rule}]`)
+      .join('\n');
+  }
+
+  private toResult(findings: CodeFinding[], sceneNames?: string[]): CodeAnalysisResult {
+    findings.sort((a, b) => a.line - b.line || a.column - b.column);
+    const valid = findings.every(finding => finding.severity !== 'error');
+
+    if (!valid) {
+      logger.warn('Generated code failed safety analysis', {
+        errors: findings.filter(finding => finding.severity === 'error').length,
+        findings: this.summarize(findings),
+      });
+    }
+
+    return { valid, findings, ...(sceneNames ? { sceneNames } : {}) };
+  }
+
+  /**
+   * Enforce the import allowlist, numpy's submodule allowlist and require Manim to be imported
+   */
+  private checkImports(tokens: PythonToken[]): CodeFinding[] {
+    const findings: CodeFinding[] = [];
+    let importsManim = false;
+
+    const checkModule = (module: string, at: PythonToken) => {
+      const root = module.split('.')[0];
+      if (root === 'manim') {
+        importsManim = true;
+      }
+      if (!root) {
+        findings.push(this.error('relative-import', 'Relative imports are not allowed', at));
+      } else if (!this.allowedImports.has(root)) {
+        findings.push(this.error('forbidden-import', `Import of '${module}' is not allowed`, at));
+      } else if (root === 'numpy' && module !== root) {
+        const submodule = module.split('.')[1];
+        if (!ALLOWED_NUMPY_SUBMODULES.has(submodule)) {
+          findings.push(this.error('forbidden-import', `Import of '${module}' is not allowed`, at));
+        }
+      }
+    };
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (!this.isKeyword(token, 'from') && !this.isKeyword(token, 'import')) continue;
+
+      if (this.isKeyword(token, 'from')) {
+        // `from .mod import x`, but not `raise X from Y` or `yield from gen`
+        let j = i + 1;
+        let module = '';
+        while (
+          tokens[j] &&
+          (tokens[j].type === 'name' || tokens[j].value === '.' || tokens[j].value === '...')
+        ) {
+          if (this.isKeyword(tokens[j], 'import')) break;
+          module += tokens[j].value;
+          j++;
+        }
+        if (this.isKeyword(tokens[j], 'import')) {
+          checkModule(module.startsWith('.') ? '' : module, token);
+          // A star import would bring numpy's file functions in without naming them
+          if (module.split('.')[0] === 'numpy' && tokens[j + 1]?.value === '*') {
+            findings.push(
+              this.error('forbidden-import', `'from ${module} import *' is not allowed`, token)
+            );
+          }
+          i = j;
+        }
+        continue;
+      }
+
+      // `import a.b as c, d`
+      let j = i + 1;
+      while (tokens[j] && tokens[j].type === 'name') {
+        const start = tokens[j];
+        let module = tokens[j].value;
+        j++;
+        while (tokens[j]?.value === '.' && tokens[j + 1]?.type === 'name') {
+          module += `.${tokens[j + 1].value}`;
+          j += 2;
+        }
+        checkModule(module, start);
+        if (this.isKeyword(tokens[j], 'as')) j += 2;
+        if (tokens[j]?.value !== ',') break;
+        j++;
+      }
+      i = j - 1;
+    }
+
+    if (!importsManim) {
+      const first = tokens[0];
+      findings.push({
+        rule: 'missing-manim-import',
+        severity: 'error',
+        message: "Script must import Manim (e.g. 'from manim import *')",
+        line: first ? first.line : 1,
+        column: 1,
+      });
+    }
+
+    return findings;
+  }
+
+  /**
+   * Flag forbidden builtins and introspection through dunder attributes
+   */
+  private checkNames(tokens: PythonToken[], lineOffset = 0): CodeFinding[] {
+    const findings: CodeFinding[] = [];
+    // Names after `import` on the same logical line are checked like attributes:
+    // `from numpy import load`
+    let inImport = false;
+
+    tokens.forEach((token, i) => {
+      if (token.type === 'newline') inImport = false;
+      if (token.type !== 'name') return;
+      const at = { ...token, line: token.line + lineOffset };
+      const isAttribute = tokens[i - 1]?.value === '.';
+      if (this.isKeyword(token, 'import')) inImport = true;
+
+      if (/^__\w+__$/.test(token.value) && !ALLOWED_DUNDERS.has(token.value)) {
+        findings.push(
+          this.error('forbidden-dunder', `Access to '${token.value}' is not allowed`, at)
+        );
+      } else if ((isAttribute || inImport) && FORBIDDEN_ATTRIBUTES.has(token.value)) {
+        findings.push(
+          this.error('forbidden-attribute', `Use of '${token.value}' is not allowed`, at)
+        );
+      } else if (!isAttribute && FORBIDDEN_BUILTINS.has(token.value)) {
+        findings.push(
+          this.error('forbidden-builtin', `Use of builtin '${token.value}' is not allowed`, at)
+        );
+      }
+    });
+
+    return findings;
+  }
+
+  /**
+   * Dunder names spelled out in strings can still be reached, e.g. through
+   * `operator.attrgetter('__class__')`, so strings may only hold the allowed ones
+   */
+  private checkStrings(tokens: PythonToken[]): CodeFinding[] {
+    const findings: CodeFinding[] = [];
+
+    for (const token of tokens) {
+      if (token.type !== 'string') continue;
+      for (const [dunder] of token.value.matchAll(/__\w+?__/g)) {
+        if (ALLOWED_DUNDERS.has(dunder)) continue;
+        findings.push(
+          this.error('forbidden-dunder', `String mentioning '${dunder}' is not allowed`, token)
+        );
+      }
+    }
+
+    return findings;
+  }
+
+  /**
+   * f-string replacement fields are code, so run the name checks over them too
+   */
+  private checkFStrings(tokens: PythonToken[]): CodeFinding[] {
+    const findings: CodeFinding[] = [];
+
+    for (const token of tokens) {
+      if (token.type !== 'string' || !/^[rRbB]?[fF]/.test(token.value)) continue;
+
+      for (const field of this.extractReplacementFields(token.value)) {
+        const lineOffset = token.line - 1 + field.lineOffset;
+        try {
+          findings.push(...this.checkNames(tokenizePython(field.expression), lineOffset));
+        } catch (error) {
+          if (!(error instanceof PythonSyntaxError)) throw error;
+          findings.push(
+            this.error('syntax-error', `Syntax error in f-string: ${error.message}`, {
+              ...token,
+              line: token.line + field.lineOffset,
+            })
+          );
+        }
+      }
+    }
+
+    return findings;
+  }
+
+  /**
+   * Warn about `while True` loops that contain no `break` or `return`
+   */
+  private checkLoops(tokens: PythonToken[]): CodeFinding[] {
+    const findings: CodeFinding[] = [];
+
+    tokens.forEach((token, i) => {
+      if (
+        !this.isKeyword(token, 'while') ||
+        tokens[i + 1]?.value !== 'True' ||
+        tokens[i + 2]?.value !== ':'
+      ) {
+        return;
+      }
+
+      const body = tokens.slice(i + 3, this.blockEnd(tokens, i + 2));
+      if (!body.some(t => this.isKeyword(t, 'break') || this.isKeyword(t, 'return'))) {
+        findings.push({
+          rule: 'infinite-loop',
+          severity: 'warning',
+          message: "'while True' loop has no break and will hang the render",
+          line: token.line,
+          column: token.column,
+        });
+      }
+    });
+
+    return findings;
+  }
+
+  /**
+   * Require at least one (and at most maxScenes) renderable top-level Scene subclass.
+   * A scene is renderable when it defines construct() or inherits it from another scene here;
+   * scenes without construct() are only allowed as bases for other scenes.
+   */
+  private checkScene(tokens: PythonToken[]): { findings: CodeFinding[]; sceneNames?: string[] } {
+    const findings: CodeFinding[] = [];
+    const sceneClasses: {
+      name: string;
+      token: PythonToken;
+      bases: string[];
+      bodyStart: number;
+      bodyEnd: number;
+    }[] = [];
+    const sceneNames = new Set<string>();
+    let depth = 0;
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (token.type === 'indent') depth++;
+      if (token.type === 'dedent') depth--;
+      if (depth !== 0 || !this.isKeyword(token, 'class') || tokens[i + 1]?.type !== 'name') {
+        continue;
+      }
+
+      const name = tokens[i + 1].value;
+      const bases: string[] = [];
+      let j = i + 2;
+      if (tokens[j]?.value === '(') {
+        let parens = 0;
+        for (; j < tokens.length; j++) {
+          const value = tokens[j].value;
+          if (value === '(' || value === '[' || value === '{') parens++;
+          if (value === ')' || value === ']' || value === '}') parens--;
+          if (parens === 0) break;
+          // Last name of each top-level base expression, e.g. `manim.Scene` -> `Scene`
+          const next = tokens[j + 1]?.value;
+          if (parens === 1 && tokens[j].type === 'name' && (next === ',' || next === ')')) {
+            bases.push(value);
+          }
+        }
+        j++;
+      }
+
+      const isScene = bases.some(base => base.endsWith('Scene') || sceneNames.has(base));
+      if (isScene && tokens[j]?.value === ':') {
+        sceneNames.add(name);
+        sceneClasses.push({
+          name,
+          token,
+          bases,
+          bodyStart: j + 1,
+          bodyEnd: this.blockEnd(tokens, j),
+        });
+      }
+    }
+
+    if (sceneClasses.length === 0) {
+      const first = tokens[0];
+      findings.push({
+        rule: 'missing-scene',
+        severity: 'error',
+        message: 'Script must define a Scene subclass',
+        line: first ? first.line : 1,
+        column: 1,
+      });
+      return { findings };
+    }
+
+    // Bases are always defined before their subclasses, so one pass resolves inheritance
+    const renderable = new Set<string>();
+    const usedAsBase = new Set(sceneClasses.flatMap(scene => scene.bases));
+    for (const scene of sceneClasses) {
+      if (
+        this.definesMethod(tokens, scene.bodyStart, scene.bodyEnd, 'construct') ||
+        scene.bases.some(base => renderable.has(base))
+      ) {
+        renderable.add(scene.name);
+      } else if (!usedAsBase.has(scene.name)) {
+        findings.push(
+          this.error(
+            'missing-construct',
+            `Scene '${scene.name}' must define a construct(self) method`,
+            scene.token
+          )
+        );
+      }
+    }
+
+    // Shared bases with construct() are renderable too, but only leaf scenes are rendered
+    const leafScenes = sceneClasses
+      .filter(scene => renderable.has(scene.name) && !usedAsBase.has(scene.name))
+      .map(scene => scene.name);
+
+    if (leafScenes.length > this.maxScenes) {
+      const extra = sceneClasses.find(scene => scene.name === leafScenes[this.maxScenes]);
+      findings.push(
+        this.error(
+          'multiple-scenes',
+          `At most ${this.maxScenes} scenes are allowed, found ${leafScenes.length}`,
+          (extra || sceneClasses[0]).token
+        )
+      );
+    }
+
+    return { findings, sceneNames: leafScenes };
+  }
+
+  /**
+   * Whether a class body defines a method directly (not in a nested block)
+   */
+  private definesMethod(tokens: PythonToken[], start: number, end: number, name: string): boolean {
+    let depth = 0;
+    for (let i = start; i < end; i++) {
+      if (tokens[i].type === 'indent') depth++;
+      if (tokens[i].type === 'dedent') depth--;
+      // The body's own INDENT brings depth to 1
+      if (depth <= 1 && this.isKeyword(tokens[i], 'def') && tokens[i + 1]?.value === name) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Index just past the block introduced by the `:` at colonIndex
+   */
+  private blockEnd(tokens: PythonToken[], colonIndex: number): number {
+    let i = colonIndex + 1;
+
+    // Simple suite on the same line: `while True: pass`
+    if (tokens[i]?.type !== 'newline') {
+      while (i < tokens.length && tokens[i].type !== 'newline') i++;
+      return i;
+    }
+
+    if (tokens[i + 1]?.type !== 'indent') {
+      return i;
+    }
+
+    let depth = 0;
+    for (i = i + 1; i < tokens.length; i++) {
+      if (tokens[i].type === 'indent') depth++;
+      if (tokens[i].type === 'dedent' && --depth === 0) return i;
+    }
+    return tokens.length;
+  }
+
+  /**
+   * Pull the expressions out of an f-string literal's `{...}` fields. Strings inside a field
+   * are skipped when matching brackets, so `f"{'{'}"` is one field holding `'{'`.
+   */
+  private extractReplacementFields(literal: string): { expression: string; lineOffset: number }[] {
+    const fields: { expression: string; lineOffset: number }[] = [];
+    const body = literal.replace(/^[rRbBfF]+/, '');
+
+    for (let i = 0; i < body.length; i++) {
+      if (body[i] !== '{') continue;
+      if (body[i + 1] === '{') {
+        i++;
+        continue;
+      }
+
+      // Stop at the closing brace, or at a conversion (`!r`) or format spec (`:>10`) at depth 0
+      let depth = 0;
+      let quote: string | null = null;
+      let j = i + 1;
+      for (; j < body.length; j++) {
+        const ch = body[j];
+        if (quote) {
+          if (ch === quote) quote = null;
+        } else if (ch === "'" || ch === '"') quote = ch;
+        else if (ch === '(' || ch === '[' || ch === '{') depth++;
+        else if (depth > 0 && (ch === ')' || ch === ']' || ch === '}')) depth--;
+        else if (depth === 0 && (ch === '}' || ch === ':' || (ch === '!' && body[j + 1] !== '='))) {
+          break;
+        }
+      }
+
+      fields.push({
+        expression: body.slice(i + 1, j).replace(/\n/g, ' '),
+        lineOffset: (body.slice(0, i).match(/\n/g) || []).length,
+      });
+
+      // Skip the rest of the field, including any nested format spec
+      while (j < body.length && body[j] !== '}') j++;
+      i = j;
+    }
+
+    return fields;
+  }
+
+  private isKeyword(token: PythonToken | undefined, keyword: string): boolean {
+    return !!token && token.type === 'name' && token.value === keyword;
+  }
+
+  private error(rule: string, message: string, at: PythonToken): CodeFinding {
+    return { rule, severity: 'error', message, line: at.line, column: at.column };
+  }
+}
+
+export const codeSafetyAnalyzer = new CodeSafetyAnalyzer();
@@ -0,0 +1,362 @@
+import http from 'http';
+import { config } from '../config';
+
+/**
+ * Labels on every container MLanim starts. Only containers carrying them are listed,
+ * killed or cleaned up by the API.
+ */
+export const MLANIM_LABELS = {
+  jobId: 'mlanim.job-id',
+  queue: 'mlanim.queue',
+  instance: 'mlanim.instance',
+  /** Memory limit in bytes */
+  memory: 'mlanim.memory',
+  cpus: 'mlanim.cpus',
+} as const;
+
+/**
+ * Error response from the Docker Engine API
+ */
+export class DockerApiError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number
+  ) {
+    super(message);
+    this.name = 'DockerApiError';
+  }
+}
+
+/** Entry of GET /containers/json */
+export interface DockerContainerSummary {
+  Id: string;
+  Names: string[];
+  Image: string;
+  Command: string;
+  /** Unix timestamp in seconds */
+  Created: number;
+  State: string;
+  Status: string;
+  Labels: Record<string, string>;
+}
+
+/** Body of POST /containers/create (the fields we use) */
+export interface DockerContainerConfig {
+  Image: string;
+  Cmd: string[];
+  WorkingDir?: string;
+  User?: string;
+  Labels?: Record<string, string>;
+  HostConfig: {
+    Memory?: number;
+    NanoCpus?: number;
+    PidsLimit?: number;
+    NetworkMode?: string;
+    /** Mount point to mount options, e.g. { '/tmp': 'rw,size=500m' } */
+    Tmpfs?: Record<string, string>;
+    /** host-path:container-path[:ro|rw] */
+    Binds?: string[];
+  };
+}
+
+/** State section of GET /containers/{id}/json */
+export interface DockerContainerState {
+  Status: string;
+  Running: boolean;
+  OOMKilled: boolean;
+  ExitCode: number;
+  Error: string;
+  StartedAt: string;
+  FinishedAt: string;
+}
+
+/** CPU usage section of GET /containers/{id}/stats, in nanoseconds */
+interface ContainerCpuStats {
+  cpu_usage?: { total_usage?: number };
+  system_cpu_usage?: number;
+  online_cpus?: number;
+}
+
+/** Body of GET /containers/{id}/stats?stream=false (the fields we use); any may be missing */
+interface ContainerStatsResponse {
+  id?: string;
+  /** With a leading slash */
+  name?: string;
+  cpu_stats?: ContainerCpuStats;
+  /** The previous sample, for the CPU delta */
+  precpu_stats?: ContainerCpuStats;
+  memory_stats?: {
+    usage?: number;
+    limit?: number;
+    /** inactive_file on cgroup v2, cache on v1 */
+    stats?: { inactive_file?: number; cache?: number };
+  };
+  pids_stats?: { current?: number };
+}
+
+/** Per-container usage computed from GET /containers/{id}/stats */
+export interface DockerContainerStats {
+  id: string;
+  name: string;
+  cpuPercent: number;
+  memoryUsage: number;
+  memoryLimit: number;
+  memoryPercent: number;
+  pids: number;
+}
+
+export interface DockerLogHandlers {
+  onStdout?: (chunk: string) => void;
+  onStderr?: (chunk: string) => void;
+}
+
+/**
+ * Minimal typed client for the Docker Engine HTTP API over its unix socket.
+ * Covers what rendering and the system endpoints need: create/start/wait/logs/stats/kill.
+ */
+export class DockerClient {
+  constructor(private readonly socketPath: string = config.docker.socketPath) {}
+
+  /**
+   * Containers matching the given filters, e.g. { name: ['manim-'] }
+   */
+  async listContainers(
+    filters: Record<string, string[]> = {},
+    all = true
+  ): Promise<DockerContainerSummary[]> {
+    const query = new URLSearchParams({ all: String(all), filters: JSON.stringify(filters) });
+    return this.request('GET', `/containers/json?${query}`);
+  }
+
+  /**
+   * Create a container and return its ID
+   */
+  async createContainer(name: string, containerConfig: DockerContainerConfig): Promise<string> {
+    const result = await this.request<{ Id: string }>(
+      'POST',
+      `/containers/create?name=${encodeURIComponent(name)}`,
+      containerConfig
+    );
+    return result.Id;
+  }
+
+  /**
+   * Pull an image (name[:tag]), resolving once the pull has finished
+   */
+  async pullImage(image: string): Promise<void> {
+    const [fromImage, tag = 'latest'] = image.split(/:(?=[^/]+$)/);
+    const query = new URLSearchParams({ fromImage, tag });
+    // The body is a stream of progress objects; errors arrive as an `error` field
+    const progress = await this.request('POST', `/images/create?${query}`);
+    const failure = (typeof progress === 'string' ? progress : JSON.stringify(progress))
+      .split('\n')
+      .map(line => {
+        try {
+          return JSON.parse(line).error as string | undefined;
+        } catch (_) {
+          return undefined;
+        }
+      })
+      .find(Boolean);
+    if (failure) {
+      throw new Error(`Failed to pull ${image}: ${failure}`);
+    }
+  }
+
+  async startContainer(id: string): Promise<void> {
+    await this.request('POST', `/containers/${encodeURIComponent(id)}/start`);
+  }
+
+  /**
+   * Resolve with the exit code once the container has stopped
+   */
+  async waitContainer(id: string): Promise<number> {
+    const result = await this.request<{ StatusCode: number }>(
+      'POST',
+      `/containers/${encodeURIComponent(id)}/wait`
+    );
+    return result.StatusCode;
+  }
+
+  async inspectContainer(id: string): Promise<{
+    Id: string;
+    Name: string;
+    State: DockerContainerState;
+    Config: { Labels: Record<string, string> | null };
+  }> {
+    return this.request('GET', `/containers/${encodeURIComponent(id)}/json`);
+  }
+
+  /**
+   * Stream a container's output until it exits. Resolves when the stream ends.
+   */
+  followLogs(id: string, handlers: DockerLogHandlers): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const req = http.request(
+        {
+          socketPath: this.socketPath,
+          method: 'GET',
+          path: `/containers/${encodeURIComponent(id)}/logs?follow=true&stdout=true&stderr=true`,
+        },
+        res => {
+          if (res.statusCode && res.statusCode >= 400) {
+            this.readBody(res)
+              .then(body => reject(this.toError(res.statusCode as number, body)))
+              .catch(reject);
+            return;
+          }
+
+          // Without a TTY the stream is multiplexed: an 8-byte header (stream type, 3 zero
+          // bytes, big-endian payload size) before every frame
+          let buffer = Buffer.alloc(0);
+          res.on('data', (data: Buffer) => {
+            buffer = Buffer.concat([buffer, data]);
+            while (buffer.length >= 8) {
+              const size = buffer.readUInt32BE(4);
+              if (buffer.length < 8 + size) break;
+
+              const chunk = buffer.subarray(8, 8 + size).toString('utf8');
+              if (buffer[0] === 2) {
+                handlers.onStderr?.(chunk);
+              } else {
+                handlers.onStdout?.(chunk);
+              }
+              buffer = buffer.subarray(8 + size);
+            }
+          });
+          res.on('end', () => resolve());
+          res.on('error', reject);
+        }
+      );
+      req.on('error', reject);
+      req.end();
+    });
+  }
+
+  /**
+   * One sample of a running container's CPU, memory and process usage
+   */
+  async getContainerStats(id: string): Promise<DockerContainerStats> {
+    const stats = await this.request<ContainerStatsResponse>(
+      'GET',
+      `/containers/${encodeURIComponent(id)}/stats?stream=false`
+    );
+
+    const cpuDelta =
+      (stats.cpu_stats?.cpu_usage?.total_usage || 0) -
+      (stats.precpu_stats?.cpu_usage?.total_usage || 0);
+    const systemDelta =
+      (stats.cpu_stats?.system_cpu_usage || 0) - (stats.precpu_stats?.system_cpu_usage || 0);
+    const onlineCpus = stats.cpu_stats?.online_cpus || 1;
+    const cpuPercent = systemDelta > 0 ? (cpuDelta / systemDelta) * onlineCpus * 100 : 0;
+
+    // Page cache counts towards usage but is reclaimable; `docker stats` leaves it out too
+    // (inactive_file on cgroup v2, cache on v1)
+    const memory = stats.memory_stats || {};
+    const memoryUsage = Math.max(
+      0,
+      (memory.usage || 0) - (memory.stats?.inactive_file ?? memory.stats?.cache ?? 0)
+    );
+    const memoryLimit = memory.limit || 0;
+
+    return {
+      id: stats.id || id,
+      name: (stats.name || '').replace(/^\//, ''),
+      cpuPercent: Math.round(cpuPercent * 100) / 100,
+      memoryUsage,
+      memoryLimit,
+      memoryPercent: memoryLimit ? Math.round((memoryUsage / memoryLimit) * 10000) / 100 : 0,
+      pids: stats.pids_stats?.current || 0,
+    };
+  }
+
+  /**
+   * Send SIGKILL to a container. A container that isn't running is not an error.
+   */
+  async killContainer(id: string): Promise<void> {
+    try {
+      await this.request('POST', `/containers/${encodeURIComponent(id)}/kill`);
+    } catch (error) {
+      if (error instanceof DockerApiError && error.statusCode === 409) return;
+      throw error;
+    }
+  }
+
+  async removeContainer(id: string): Promise<void> {
+    await this.request('DELETE', `/containers/${encodeURIComponent(id)}?force=true`);
+  }
+
+  /**
+   * Whether the daemon answers on the socket
+   */
+  async ping(): Promise<boolean> {
+    try {
+      await this.request('GET', '/_ping');
+      return true;
+    } catch (_) {
+      return false;
+    }
+  }
+
+  private request<T = any>(method: string, path: string, body?: unknown): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const payload = body === undefined ? undefined : JSON.stringify(body);
+      const req = http.request(
+        {
+          socketPath: this.socketPath,
+          method,
+          path,
+          headers: payload
+            ? { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(payload) }
+            : undefined,
+        },
+        res => {
+          this.readBody(res)
+            .then(text => {
+              const statusCode = res.statusCode || 500;
+              if (statusCode >= 400) {
+                reject(this.toError(statusCode, text));
+                return;
+              }
+              try {
+                resolve((text ? JSON.parse(text) : undefined) as T);
+              } catch (_) {
+                // e.g. /_ping answers with plain "OK"
+                resolve(text as unknown as T);
+              }
+            })
+            .catch(reject);
+        }
+      );
+      req.on('error', error =>
+        reject(new Error(`Docker API request failed (${method} ${path}): ${error.message}`))
+      );
+      if (payload) req.write(payload);
+      req.end();
+    });
+  }
+
+  private readBody(res: http.IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let text = '';
+      res.setEncoding('utf8');
+      res.on('data', chunk => {
+        text += chunk;
+      });
+      res.on('end', () => resolve(text));
+      res.on('error', reject);
+    });
+  }
+
+  private toError(statusCode: number, body: string): DockerApiError {
+    let message = body.trim();
+    try {
+      message = JSON.parse(body).message || message;
+    } catch (_) {
+      // Not JSON; keep the raw text
+    }
+    return new DockerApiError(`Docker API error ${statusCode}: ${message}`, statusCode);
+  }
+}
+
+export const dockerClient = new DockerClient();
@@ -0,0 +1,268 @@
+import path from 'path';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { parseSize } from '../utils/byteSize';
+import { ResourceUsage } from '../types';
+import { DockerApiError, DockerContainerConfig, MLANIM_LABELS, dockerClient } from './dockerClient';
+import {
+  JobCancelledError,
+  ManimRendererService,
+  SandboxResult,
+  SandboxRun,
+} from './manimRendererService';
+
+/**
+ * Runs Manim in a throwaway container of the Manim image via the Docker Engine API
+ */
+export class DockerRenderBackend extends ManimRendererService {
+  readonly name = 'docker';
+
+  private readonly dockerImage = config.rendering.manimImage;
+  /** IDs of containers currently running, by job ID */
+  private readonly containers = new Map<string, Set<string>>();
+
+  protected async runSandboxed(run: SandboxRun): Promise<SandboxResult> {
+    const binds: string[] = [];
+    if (run.outputDir) {
+      // Mount output directory to /manim so the output file appears there
+      binds.push(`${this.toHostPath(run.outputDir)}:/manim:rw`);
+    }
+    if (run.tempDir) {
+      binds.push(`${this.toHostPath(run.tempDir)}:/manim/temp:${run.tempReadOnly ? 'ro' : 'rw'}`);
+    }
+
+    const containerConfig: DockerContainerConfig = {
+      Image: this.dockerImage,
+      Cmd: run.command,
+      WorkingDir: '/manim',
+      User: run.asRoot ? '0:0' : this.getContainerUser(),
+      Labels: {
+        [MLANIM_LABELS.jobId]: run.jobId,
+        [MLANIM_LABELS.queue]: run.queue,
+        [MLANIM_LABELS.instance]: config.server.instanceId,
+        // The limits the render scheduler admitted this container with
+        [MLANIM_LABELS.memory]: String(parseSize(run.memory)),
+        [MLANIM_LABELS.cpus]: String(run.cpus),
+      },
+      HostConfig: {
+        Memory: parseSize(run.memory),
+        NanoCpus: Math.round(run.cpus * 1e9),
+        PidsLimit: run.pidsLimit,
+        NetworkMode: 'none', // Isolate network
+        Tmpfs: {
+          '/tmp': `rw,noexec,nosuid,size=${run.scratchSize}`,
+          '/var/tmp': `rw,noexec,nosuid,size=${run.scratchSize}`,
+        },
+        Binds: binds,
+      },
+    };
+
+    logger.debug('Starting render container', {
+      jobId: run.jobId,
+      containerName: run.name,
+      dockerInDocker: this.isRunningInDockerContainer(),
+    });
+
+    if (run.signal?.aborted) throw new JobCancelledError();
+    const id = await this.createContainer(run.name, containerConfig);
+    const ids = this.containers.get(run.jobId) || new Set<string>();
+    ids.add(id);
+    this.containers.set(run.jobId, ids);
+
+    let stdout = '';
+    let stderr = '';
+    let output = '';
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      logger.warn('Container timed out, killing it', { jobId: run.jobId, containerName: run.name });
+      dockerClient.killContainer(id).catch(error => {
+        logger.warn('Failed to kill timed out container', { containerName: run.name, error });
+      });
+    }, run.timeoutMs);
+    const onAbort = () => {
+      logger.info('Container cancelled, killing it', { jobId: run.jobId, containerName: run.name });
+      dockerClient.killContainer(id).catch(error => {
+        logger.warn('Failed to kill cancelled container', { containerName: run.name, error });
+      });
+    };
+    run.signal?.addEventListener('abort', onAbort, { once: true });
+    let usage: { stop(): ResourceUsage | undefined } | undefined;
+
+    try {
+      // Cancelled while the container was being created: it's removed below without running
+      if (run.signal?.aborted) throw new JobCancelledError();
+      await dockerClient.startContainer(id);
+      usage = this.sampleUsage(id);
+
+      // The log stream replays everything since start, so nothing is lost to this ordering
+      const logs = dockerClient.followLogs(id, {
+        onStdout: chunk => {
+          stdout += chunk;
+          output += chunk;
+          run.onStdout?.(chunk);
+        },
+        onStderr: chunk => {
+          stderr += chunk;
+          output += chunk;
+          run.onStderr?.(chunk);
+        },
+      });
+      // Observed below, after the container has exited
+      logs.catch(() => {});
+      const exitCode = await dockerClient.waitContainer(id);
+      const peakUsage = usage.stop();
+      await logs;
+      const { State } = await dockerClient.inspectContainer(id);
+
+      return { exitCode, stdout, stderr, output, timedOut, oomKilled: State.OOMKilled, peakUsage };
+    } finally {
+      usage?.stop();
+      clearTimeout(timeoutId);
+      run.signal?.removeEventListener('abort', onAbort);
+      ids.delete(id);
+      if (ids.size === 0) {
+        this.containers.delete(run.jobId);
+      }
+      // Removed here rather than with AutoRemove so the exit state can be inspected first
+      dockerClient.removeContainer(id).catch(error => {
+        logger.warn('Failed to remove container', { containerName: run.name, error });
+      });
+    }
+  }
+
+  async kill(jobId: string): Promise<void> {
+    const ids = this.containers.get(jobId);
+    if (!ids) return;
+    await Promise.all([...ids].map(id => dockerClient.killContainer(id)));
+  }
+
+  /**
+   * Kill the containers this process started. Other processes on the host may label theirs
+   * with the same instance, so labels don't decide it.
+   */
+  async killAll(): Promise<void> {
+    await Promise.all(
+      [...this.containers.keys()].map(jobId =>
+        this.kill(jobId).catch(error => {
+          logger.warn('Failed to kill containers', { jobId, error });
+        })
+      )
+    );
+  }
+
+  /**
+   * Validate that the Docker daemon is reachable
+   */
+  async healthCheck(): Promise<boolean> {
+    return dockerClient.ping();
+  }
+
+  /**
+   * Sample a running container's stats every RESOURCE_USAGE_SAMPLE_INTERVAL_MS, keeping the
+   * highest values. `stop` ends sampling and returns them; undefined when no sample came back.
+   */
+  private sampleUsage(id: string): { stop(): ResourceUsage | undefined } {
+    let peak: ResourceUsage | undefined;
+    let sampling = false;
+    let stopped = false;
+
+    const sample = () => {
+      // A stats request takes a second or two; don't stack them up
+      if (sampling) return;
+      sampling = true;
+      dockerClient
+        .getContainerStats(id)
+        .then(stats => {
+          if (stopped) return;
+          peak = {
+            peakMemoryBytes: Math.max(peak?.peakMemoryBytes || 0, stats.memoryUsage),
+            peakCpuPercent: Math.max(peak?.peakCpuPercent || 0, stats.cpuPercent),
+            peakPids: Math.max(peak?.peakPids || 0, stats.pids),
+          };
+        })
+        .catch(error => {
+          logger.debug('Failed to sample container stats', { containerId: id, error });
+        })
+        .finally(() => {
+          sampling = false;
+        });
+    };
+    sample();
+    const interval = setInterval(sample, config.resourceProfiles.usageSampleIntervalMs);
+
+    return {
+      stop: () => {
+        stopped = true;
+        clearInterval(interval);
+        return peak;
+      },
+    };
+  }
+
+  /**
+   * Create a container, pulling the image if it's missing and replacing a leftover container
+   * of the same name (e.g. from a backend that crashed mid-render)
+   */
+  private async createContainer(
+    name: string,
+    containerConfig: DockerContainerConfig
+  ): Promise<string> {
+    try {
+      return await dockerClient.createContainer(name, containerConfig);
+    } catch (error) {
+      if (!(error instanceof DockerApiError)) throw error;
+
+      if (error.statusCode === 404) {
+        logger.info('Pulling Manim image', { image: containerConfig.Image });
+        await dockerClient.pullImage(containerConfig.Image);
+      } else if (error.statusCode === 409) {
+        const existing = await dockerClient.inspectContainer(name);
+        if (!existing.Config.Labels?.[MLANIM_LABELS.jobId]) {
+          throw new Error(`Container name ${name} is taken by a container MLanim doesn't manage`);
+        }
+        logger.warn('Removing leftover container with the same name', { containerName: name });
+        await dockerClient.removeContainer(name);
+      } else {
+        throw error;
+      }
+      return dockerClient.createContainer(name, containerConfig);
+    }
+  }
+
+  /**
+   * Volume source for a backend path. With Docker-in-Docker the daemon resolves mounts on
+   * the host, where the backend's working directory maps to HOST_PROJECT_DIR.
+   */
+  private toHostPath(dir: string): string {
+    const absolute = path.resolve(dir);
+    if (!this.isRunningInDockerContainer()) return absolute;
+
+    const relative = path.relative(process.cwd(), absolute);
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw new Error(`${dir} is outside the backend's working directory; it has no host path`);
+    }
+    return path.posix.join(config.docker.hostProjectDir, ...relative.split(path.sep));
+  }
+
+  /**
+   * uid:gid containers run as, so files they write stay owned by the backend user
+   */
+  private getContainerUser(): string {
+    const userId =
+      process.env.BACKEND_UID ||
+      (process.platform === 'linux' ? (process.getuid?.() || 1000).toString() : '1000');
+    const groupId =
+      process.env.BACKEND_GID ||
+      (process.platform === 'linux' ? (process.getgid?.() || 1000).toString() : '1000');
+    return `${userId}:${groupId}`;
+  }
+
+  /**
+   * Check if the current process is running inside a Docker container.
+   * For now, we assume that if DOCKER_HOST is set, we're in a container.
+   */
+  private isRunningInDockerContainer(): boolean {
+    return !!process.env.DOCKER_HOST;
+  }
+}
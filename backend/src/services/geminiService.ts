@@ -1,9 +1,13 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import { config } from '../config';
 import { logger } from '../utils/logger';
-import { GeminiResponse } from '../types';
+import { CodeGenerationProvider, GeminiResponse } from '../types';
 
-export class GeminiService {
+export class GeminiService implements CodeGenerationProvider {
+  readonly name = 'gemini';
+  readonly label = 'Gemini';
+  readonly defaultModel = 'gemini-1.5-flash';
+  private static readonly knownModels = ['gemini-1.5-flash', 'gemini-1.5-pro', 'gemini-pro'];
   private genAI: GoogleGenerativeAI;
   private model: any;
 
@@ -11,7 +15,7 @@ export class GeminiService {
     this.genAI = new GoogleGenerativeAI(config.gemini.apiKey);
     // Try the latest model names - gemini-1.5-flash or gemini-1.5-pro
     try {
-      this.model = this.genAI.getGenerativeModel({ model: 'gemini-1.5-flash' });
+      this.model = this.genAI.getGenerativeModel({ model: this.defaultModel });
     } catch (error) {
       // Fallback to gemini-1.5-pro if flash is not available
       try {
@@ -23,41 +27,28 @@ export class GeminiService {
     }
   }
 
+  isConfigured(): boolean {
+    return !!config.gemini.apiKey;
+  }
+
   /**
    * Generate Manim code from a natural language prompt
    */
-  async generateManimCode(prompt: string): Promise<GeminiResponse> {
+  async generateManimCode(prompt: string, model?: string): Promise<GeminiResponse> {
     try {
-      logger.info('Generating Manim code from prompt', { prompt: prompt.substring(0, 100) });
-
-      // Test API connection first
-      await this.testApiConnection();
+      logger.info('Generating Manim code from prompt', {
+        prompt: prompt.substring(0, 100),
+        model: model || this.defaultModel,
+      });
 
-      const systemPrompt = `You are an expert in mathematical animations and the Manim library. 
-Generate valid Python code using the manimcommunity/manim package.
+      const generativeModel = this.getModel(model);
 
-Workflow:
-1. Your highest priority is to first search the GitHub repository https://github.com/Tom-Edgar/MVPS for a scene similar to the user's request. 
-   - If a relevant example is found there, adapt it directly to the user's description. 
-   - Prefer reusing and modifying code from this repository whenever possible.
-2. If no suitable example is found in that repository, then search Manim Community examples or other reliable web sources. 
-3. If nothing relevant is found anywhere, write new code from scratch following the rules below.
-
-Validation rules:
-- Imports: use only "from manim import *" plus standard library modules when needed (e.g., import random, import math)
-- Must define exactly one Scene subclass with a construct(self) method
-- Only use functions and classes that actually exist in manimcommunity/manim (e.g., ParametricFunction not ParametricCurve)
-- If a standard library function (like random, math.sin, etc.) is used, include the correct import
-- Do NOT invent helpers, aliases, or outdated Manim APIs
-- Use clear and meaningful variable names
-- Add concise comments explaining steps
-- Keep animations simple but visually engaging
-- Ensure the script is complete, runnable, and will render without syntax or runtime errors
-- Output ONLY the final Python code, no markdown or explanations
+      // Test API connection first
+      await this.testApiConnection(generativeModel);
 
-User prompt: ${prompt}`;
+      const systemPrompt = this.buildGenerationPrompt(prompt);
 
-      const result = await this.model.generateContent(systemPrompt);
+      const result = await generativeModel.generateContent(systemPrompt);
       const response = await result.response;
       const text = response.text();
 
@@ -90,23 +81,52 @@ User prompt: ${prompt}`;
       };
     } catch (error) {
       logger.error('Error generating Manim code', { error, prompt });
+      throw this.toGenerationError(error);
+    }
+  }
 
-      // Provide more specific error messages
-      if (error instanceof Error) {
-        if (error.message.includes('API key')) {
-          throw new Error('Invalid or expired Gemini API key. Please check your configuration.');
-        } else if (error.message.includes('model') || error.message.includes('404')) {
-          throw new Error(
-            'Gemini model not available. Please check your API access and model availability.'
-          );
-        } else if (error.message.includes('quota') || error.message.includes('rate limit')) {
-          throw new Error('API quota exceeded or rate limited. Please try again later.');
-        } else {
-          throw new Error(`Failed to generate Manim code: ${error.message}`);
+  /**
+   * Generate Manim code while forwarding text chunks as Gemini streams them
+   */
+  async generateManimCodeStream(
+    prompt: string,
+    onChunk: (chunk: string) => void,
+    model?: string
+  ): Promise<GeminiResponse> {
+    try {
+      logger.info('Streaming Manim code generation from prompt', {
+        prompt: prompt.substring(0, 100),
+        model: model || this.defaultModel,
+      });
+
+      const generativeModel = this.getModel(model);
+      const result = await generativeModel.generateContentStream(
+        this.buildGenerationPrompt(prompt)
+      );
+
+      let text = '';
+      for await (const chunk of result.stream) {
+        const chunkText = chunk.text();
+        if (chunkText) {
+          text += chunkText;
+          onChunk(chunkText);
         }
-      } else {
-        throw new Error('Failed to generate Manim code: Unknown error occurred');
       }
+
+      const code = this.extractCodeFromResponse(text);
+
+      logger.info('Successfully streamed Manim code', {
+        codeLength: code.length,
+        promptLength: prompt.length,
+      });
+
+      return {
+        code,
+        explanation: `Generated Manim code for: ${prompt}`,
+      };
+    } catch (error) {
+      logger.error('Error streaming Manim code', { error, prompt });
+      throw this.toGenerationError(error);
     }
   }
 
@@ -117,17 +137,21 @@ User prompt: ${prompt}`;
     originalPrompt: string,
     failedCode: string,
     error: string,
-    regenerationCount: number = 1
+    regenerationCount: number = 1,
+    model?: string
   ): Promise<GeminiResponse> {
     try {
       logger.info('Regenerating Manim code due to failure', {
         originalPrompt: originalPrompt.substring(0, 100),
         error: error.substring(0, 200),
         regenerationCount,
+        model: model || this.defaultModel,
       });
 
+      const generativeModel = this.getModel(model);
+
       // Test API connection first
-      await this.testApiConnection();
+      await this.testApiConnection(generativeModel);
 
       const systemPrompt = `You are an expert in mathematical animations and the Manim library. 
 The previous code generation failed with an error. Please analyze the error and generate corrected code.
@@ -151,7 +175,7 @@ INSTRUCTIONS:
 
 Validation rules:
 - Imports: use only "from manim import *" plus standard library modules when needed
-- Must define exactly one Scene subclass with a construct(self) method
+- Define at least one Scene subclass with a construct(self) method; for long, multi-part animations use several Scene subclasses, written in the order they should play (they are rendered and joined into one video)
 - Do NOT invent helpers or functions that don't exist in manimcommunity/manim or the Python standard library
 - Use clear and meaningful variable names
 - Add concise comments explaining the fixes made
@@ -161,7 +185,7 @@ Validation rules:
 
 This is regeneration attempt #${regenerationCount}. Make sure to fix the specific error that occurred.`;
 
-      const result = await this.model.generateContent(systemPrompt);
+      const result = await generativeModel.generateContent(systemPrompt);
       const response = await result.response;
       const text = response.text();
 
@@ -213,13 +237,94 @@ This is regeneration attempt #${regenerationCount}. Make sure to fix the specifi
     }
   }
 
+  /**
+   * Build the generation prompt sent to Gemini
+   */
+  private buildGenerationPrompt(prompt: string): string {
+    return `You are an expert in mathematical animations and the Manim library. 
+Generate valid Python code using the manimcommunity/manim package.
+
+Workflow:
+1. Your highest priority is to first search the GitHub repository https://github.com/Tom-Edgar/MVPS for a scene similar to the user's request. 
+   - If a relevant example is found there, adapt it directly to the user's description. 
+   - Prefer reusing and modifying code from this repository whenever possible.
+2. If no suitable example is found in that repository, then search Manim Community examples or other reliable web sources. 
+3. If nothing relevant is found anywhere, write new code from scratch following the rules below.
+
+Validation rules:
+- Imports: use only "from manim import *" plus standard library modules when needed (e.g., import random, import math)
+- Define at least one Scene subclass with a construct(self) method; for long, multi-part animations use several Scene subclasses, written in the order they should play (they are rendered and joined into one video)
+- Only use functions and classes that actually exist in manimcommunity/manim (e.g., ParametricFunction not ParametricCurve)
+- If a standard library function (like random, math.sin, etc.) is used, include the correct import
+- Do NOT invent helpers, aliases, or outdated Manim APIs
+- Use clear and meaningful variable names
+- Add concise comments explaining steps
+- Keep animations simple but visually engaging
+- Ensure the script is complete, runnable, and will render without syntax or runtime errors
+- Output ONLY the final Python code, no markdown or explanations
+
+User prompt: ${prompt}`;
+  }
+
+  /**
+   * Map SDK errors to user-facing generation errors
+   */
+  private toGenerationError(error: unknown): Error {
+    if (error instanceof Error) {
+      if (error.message.includes('API key')) {
+        return new Error('Invalid or expired Gemini API key. Please check your configuration.');
+      } else if (error.message.includes('model') || error.message.includes('404')) {
+        return new Error(
+          'Gemini model not available. Please check your API access and model availability.'
+        );
+      } else if (error.message.includes('quota') || error.message.includes('rate limit')) {
+        return new Error('API quota exceeded or rate limited. Please try again later.');
+      }
+      return new Error(`Failed to generate Manim code: ${error.message}`);
+    }
+    return new Error('Failed to generate Manim code: Unknown error occurred');
+  }
+
+  /**
+   * List the Gemini models this service knows how to use
+   */
+  async listModels(): Promise<string[]> {
+    return [...GeminiService.knownModels];
+  }
+
+  /**
+   * Check that the API key works against the default model
+   */
+  async healthCheck(): Promise<boolean> {
+    if (!this.isConfigured()) {
+      return false;
+    }
+
+    try {
+      await this.testApiConnection(this.model);
+      return true;
+    } catch (_) {
+      return false;
+    }
+  }
+
+  /**
+   * Resolve the generative model for a request, defaulting to the constructor's choice
+   */
+  private getModel(model?: string): any {
+    if (!model || model === this.defaultModel) {
+      return this.model;
+    }
+    return this.genAI.getGenerativeModel({ model });
+  }
+
   /**
    * Test API connection and model availability
    */
-  private async testApiConnection(): Promise<void> {
+  private async testApiConnection(generativeModel: any): Promise<void> {
     try {
       // Try a simple test prompt
-      const testResult = await this.model.generateContent('Hello');
+      const testResult = await generativeModel.generateContent('Hello');
       await testResult.response;
       logger.info('Gemini API connection test successful');
     } catch (error) {
@@ -254,50 +359,4 @@ This is regeneration attempt #${regenerationCount}. Make sure to fix the specifi
 
     return code;
   }
-
-  /**
-   * Validate that the generated code is safe and contains expected elements
-   */
-  validateGeneratedCode(code: string): boolean {
-    // Check for potentially dangerous operations
-    const dangerousPatterns = [
-      /import\s+os/,
-      /import\s+subprocess/,
-      /import\s+sys/,
-      /eval\s*\(/,
-      /exec\s*\(/,
-      /__import__\s*\(/,
-      /open\s*\(/,
-      /file\s*\(/,
-    ];
-
-    for (const pattern of dangerousPatterns) {
-      if (pattern.test(code)) {
-        logger.warn('Generated code contains potentially dangerous patterns', {
-          pattern: pattern.source,
-        });
-        return false;
-      }
-    }
-
-    // Check for required Manim elements
-    const requiredPatterns = [/from\s+manim\s+import/, /class\s+\w+.*Scene/, /def\s+construct/];
-
-    for (const pattern of requiredPatterns) {
-      if (!pattern.test(code)) {
-        logger.warn('Generated code missing required Manim elements', { pattern: pattern.source });
-        return false;
-      }
-    }
-
-    return true;
-  }
 }
-
-
-
-
-
-
-
-
@@ -0,0 +1,163 @@
+import Redis from 'ioredis';
+import { logger } from '../utils/logger';
+import { JobEvent, JobEventPayload } from '../types';
+
+// Kept for resuming and replaying a job's output to late subscribers
+const STREAM_MAX_LENGTH = 2000;
+const STREAM_TTL_SECONDS = 24 * 60 * 60;
+// Carries the events of every job, for queue-wide subscribers
+const ALL_JOBS_CHANNEL = 'job-events';
+
+export type JobEventListener = (event: JobEvent) => void;
+
+/**
+ * Push-based job events over Redis.
+ *
+ * Every event is appended to the job's stream (`job:events:<jobId>`), which gives it an ID
+ * that subscribers can resume from, and then published on the job's channel
+ * (`job-events:<jobId>`) and the queue-wide `job-events` channel so every backend instance
+ * can forward it as it happens.
+ */
+export class JobEventBus {
+  private subscriber: Redis | null = null;
+  private readonly listeners = new Map<string, Set<JobEventListener>>();
+  /** Last publish per job, so a job's events reach the stream and channel in order */
+  private readonly publishing = new Map<string, Promise<void>>();
+
+  constructor(private readonly redis: Redis) {}
+
+  /**
+   * Record and broadcast an event for a job
+   */
+  publish(jobId: string, payload: JobEventPayload): Promise<void> {
+    const previous = this.publishing.get(jobId) || Promise.resolve();
+    const current = previous.then(() => this.append(jobId, payload));
+    const settled = current.catch(() => {});
+    this.publishing.set(jobId, settled);
+    settled.then(() => {
+      if (this.publishing.get(jobId) === settled) {
+        this.publishing.delete(jobId);
+      }
+    });
+    return current;
+  }
+
+  /**
+   * Recorded events of a job in order, optionally only those after a stream entry ID
+   */
+  async getEvents(jobId: string, afterId?: string): Promise<JobEvent[]> {
+    const entries = await this.redis.xrange(
+      this.getStreamKey(jobId),
+      afterId ? `(${afterId}` : '-',
+      '+'
+    );
+    return entries.map(([id, fields]) => ({ id, jobId, ...JSON.parse(fields[1]) }));
+  }
+
+  /**
+   * Call `listener` with each event of a job published from now on.
+   * Resolves once the subscription is active, with a function that ends it.
+   */
+  async subscribe(jobId: string, listener: JobEventListener): Promise<() => Promise<void>> {
+    return this.listen(this.getChannel(jobId), listener);
+  }
+
+  /**
+   * Like `subscribe`, for the events of all jobs
+   */
+  async subscribeAll(listener: JobEventListener): Promise<() => Promise<void>> {
+    return this.listen(ALL_JOBS_CHANNEL, listener);
+  }
+
+  /**
+   * Delete a job's recorded events
+   */
+  async clear(jobId: string): Promise<void> {
+    await this.redis.del(this.getStreamKey(jobId));
+  }
+
+  async close(): Promise<void> {
+    await this.subscriber?.quit();
+    this.subscriber = null;
+    this.listeners.clear();
+  }
+
+  private async listen(channel: string, listener: JobEventListener): Promise<() => Promise<void>> {
+    const subscriber = this.getSubscriber();
+
+    let listeners = this.listeners.get(channel);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(channel, listeners);
+    }
+    listeners.add(listener);
+    // Subscribing again is a no-op, and waiting on it makes sure the channel is live
+    await subscriber.subscribe(channel);
+
+    return async () => {
+      const current = this.listeners.get(channel);
+      if (!current?.delete(listener) || current.size > 0) return;
+      this.listeners.delete(channel);
+      await subscriber.unsubscribe(channel);
+    };
+  }
+
+  private async append(jobId: string, payload: JobEventPayload): Promise<void> {
+    const key = this.getStreamKey(jobId);
+    const timestamp = new Date().toISOString();
+    const id = await this.redis.xadd(
+      key,
+      'MAXLEN',
+      '~',
+      String(STREAM_MAX_LENGTH),
+      '*',
+      'event',
+      JSON.stringify({ ...payload, timestamp })
+    );
+    await this.redis.expire(key, STREAM_TTL_SECONDS);
+
+    const message = JSON.stringify({ ...payload, id, jobId, timestamp });
+    await this.redis.publish(this.getChannel(jobId), message);
+    await this.redis.publish(ALL_JOBS_CHANNEL, message);
+  }
+
+  /**
+   * Connection in subscriber mode, which can't run other commands, so it's kept separate
+   */
+  private getSubscriber(): Redis {
+    if (!this.subscriber) {
+      this.subscriber = this.redis.duplicate();
+      this.subscriber.on('message', (channel: string, message: string) => {
+        const listeners = this.listeners.get(channel);
+        if (!listeners) return;
+
+        let event: JobEvent;
+        try {
+          event = JSON.parse(message);
+        } catch (error) {
+          logger.warn('Ignoring malformed job event', { channel, error });
+          return;
+        }
+        for (const listener of listeners) {
+          try {
+            listener(event);
+          } catch (error) {
+            logger.error('Job event listener failed', { channel, error });
+          }
+        }
+      });
+      this.subscriber.on('error', (error: Error) => {
+        logger.error('Job event subscriber error', { error: error.message });
+      });
+    }
+    return this.subscriber;
+  }
+
+  private getStreamKey(jobId: string): string {
+    return `job:events:${jobId}`;
+  }
+
+  private getChannel(jobId: string): string {
+    return `job-events:${jobId}`;
+  }
+}
@@ -0,0 +1,491 @@
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import path from 'path';
+import { config } from '../config';
+import {
+  JobCodeVersion,
+  JobHistoryRecord,
+  JobListPage,
+  JobListQuery,
+  JobListSort,
+  JobStatusTransition,
+  RenderJob,
+  RenderResult,
+  ScriptError,
+} from '../types';
+
+// Applied in order; PRAGMA user_version records how many have run
+const MIGRATIONS = [
+  `CREATE TABLE jobs (
+    id TEXT PRIMARY KEY,
+    root_job_id TEXT NOT NULL,
+    prompt TEXT NOT NULL,
+    code TEXT NOT NULL,
+    provider TEXT,
+    model TEXT,
+    status TEXT NOT NULL,
+    progress INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    validation_error TEXT,
+    regeneration_count INTEGER NOT NULL DEFAULT 0,
+    original_job_id TEXT,
+    next_job_id TEXT,
+    phase TEXT,
+    preview_job_id TEXT,
+    final_job_id TEXT,
+    quality TEXT,
+    fps INTEGER,
+    resolution TEXT,
+    format TEXT,
+    cached INTEGER NOT NULL DEFAULT 0,
+    output_path TEXT,
+    scenes TEXT,
+    render_duration_ms INTEGER,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    started_at TEXT,
+    finished_at TEXT
+  );
+  CREATE INDEX jobs_created_at ON jobs (created_at);
+  CREATE INDEX jobs_root_job_id ON jobs (root_job_id);
+  CREATE TABLE job_status_transitions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    job_id TEXT NOT NULL REFERENCES jobs (id) ON DELETE CASCADE,
+    status TEXT NOT NULL,
+    error TEXT,
+    at TEXT NOT NULL
+  );
+  CREATE INDEX job_status_transitions_job_id ON job_status_transitions (job_id);`,
+  // Full-text index over prompts; prompts never change after a job is created
+  `CREATE VIRTUAL TABLE jobs_fts USING fts5 (job_id UNINDEXED, prompt);
+  INSERT INTO jobs_fts (job_id, prompt) SELECT id, prompt FROM jobs;
+  CREATE TRIGGER jobs_fts_insert AFTER INSERT ON jobs BEGIN
+    INSERT INTO jobs_fts (job_id, prompt) VALUES (new.id, new.prompt);
+  END;
+  CREATE TRIGGER jobs_fts_delete AFTER DELETE ON jobs BEGIN
+    DELETE FROM jobs_fts WHERE job_id = old.id;
+  END;
+  CREATE INDEX jobs_updated_at ON jobs (updated_at);`,
+  // Resource profile a job was rendered with and the peak usage measured (JSON)
+  `ALTER TABLE jobs ADD COLUMN resource_profile TEXT;
+  ALTER TABLE jobs ADD COLUMN resource_usage TEXT;`,
+];
+
+const DEFAULT_PAGE_SIZE = 50;
+
+const SORT_COLUMNS: Record<JobListSort, string> = {
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+  progress: 'progress',
+};
+
+/** Raised for a listing cursor that this store did not hand out */
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('Invalid cursor');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+/** Job fields known when it is queued */
+export type NewJobHistoryRecord = Omit<RenderJob, 'status' | 'createdAt' | 'updatedAt'>;
+
+/** One change to a job's history; plain data, so worker processes can send it over Redis */
+export type JobHistoryUpdate =
+  | { type: 'created'; job: NewJobHistoryRecord; status: RenderJob['status'] }
+  | { type: 'status'; status: RenderJob['status']; error?: string }
+  | { type: 'progress'; progress: number }
+  | { type: 'link'; nextJobId?: string; finalJobId?: string }
+  | { type: 'result'; result: RenderResult }
+  | { type: 'validation-error'; scriptError: ScriptError }
+  | { type: 'deleted' };
+
+interface JobRow {
+  id: string;
+  root_job_id: string;
+  prompt: string;
+  code: string;
+  provider: string | null;
+  model: string | null;
+  status: RenderJob['status'];
+  progress: number;
+  error: string | null;
+  validation_error: string | null;
+  regeneration_count: number;
+  original_job_id: string | null;
+  next_job_id: string | null;
+  phase: RenderJob['phase'] | null;
+  preview_job_id: string | null;
+  final_job_id: string | null;
+  quality: RenderJob['quality'] | null;
+  fps: number | null;
+  resolution: string | null;
+  format: RenderJob['format'] | null;
+  cached: number;
+  output_path: string | null;
+  scenes: string | null;
+  render_duration_ms: number | null;
+  resource_profile: RenderJob['resourceProfile'] | null;
+  resource_usage: string | null;
+  created_at: string;
+  updated_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+/**
+ * Durable record of every job: its prompt, provider and model, code, status transitions,
+ * errors, timings and outputs. BullMQ only keeps the last few finished jobs and the Redis
+ * side data expires after a day; this is what the job listing reads.
+ */
+export class JobHistoryStore {
+  private readonly db: Database.Database;
+
+  constructor(dbPath: string = config.jobHistory.dbPath) {
+    if (dbPath !== ':memory:') {
+      mkdirSync(path.dirname(dbPath), { recursive: true });
+    }
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    // API replicas on one host can share the database; wait for each other's writes
+    this.db.pragma('busy_timeout = 5000');
+    this.db.pragma('foreign_keys = ON');
+    this.migrate();
+  }
+
+  /**
+   * Add a job that has just been queued. Regenerated jobs join their original's chain.
+   */
+  recordCreated(job: NewJobHistoryRecord, status: RenderJob['status']): void {
+    const now = new Date().toISOString();
+    const original = job.originalJobId
+      ? (this.db.prepare('SELECT root_job_id FROM jobs WHERE id = ?').get(job.originalJobId) as
+          | { root_job_id: string }
+          | undefined)
+      : undefined;
+
+    this.db.transaction(() => {
+      this.db
+        .prepare(
+          `INSERT OR IGNORE INTO jobs (
+            id, root_job_id, prompt, code, provider, model, status, regeneration_count,
+            original_job_id, phase, preview_job_id, quality, fps, resolution, format, cached,
+            resource_profile, created_at, updated_at
+          ) VALUES (
+            @id, @rootJobId, @prompt, @code, @provider, @model, @status, @regenerationCount,
+            @originalJobId, @phase, @previewJobId, @quality, @fps, @resolution, @format, @cached,
+            @resourceProfile, @now, @now
+          )`
+        )
+        .run({
+          id: job.id,
+          rootJobId: original?.root_job_id || job.originalJobId || job.id,
+          prompt: job.prompt,
+          code: job.code,
+          provider: job.provider ?? null,
+          model: job.model ?? null,
+          status,
+          regenerationCount: job.regenerationCount || 0,
+          originalJobId: job.originalJobId ?? null,
+          phase: job.phase ?? null,
+          previewJobId: job.previewJobId ?? null,
+          quality: job.quality ?? null,
+          fps: job.fps ?? null,
+          resolution: job.resolution ?? null,
+          format: job.format ?? null,
+          cached: job.cached ? 1 : 0,
+          resourceProfile: job.resourceProfile ?? null,
+          now,
+        });
+      this.addTransition(job.id, status, undefined, now);
+    })();
+  }
+
+  /**
+   * Move a job to a new status. Repeats of the current status are ignored.
+   */
+  recordStatus(jobId: string, status: RenderJob['status'], error?: string): void {
+    const current = this.db.prepare('SELECT status, error FROM jobs WHERE id = ?').get(jobId) as
+      | { status: string; error: string | null }
+      | undefined;
+    if (!current || (current.status === status && (!error || current.error === error))) return;
+
+    const now = new Date().toISOString();
+    this.db.transaction(() => {
+      this.db
+        .prepare(
+          `UPDATE jobs SET
+            status = @status,
+            error = COALESCE(@error, error),
+            progress = CASE WHEN @status = 'done' THEN 100 ELSE progress END,
+            started_at = CASE WHEN @status = 'running' THEN COALESCE(started_at, @now) ELSE started_at END,
+            finished_at = CASE WHEN @status IN ('done', 'error', 'cancelled') THEN @now ELSE finished_at END,
+            updated_at = @now
+          WHERE id = @jobId`
+        )
+        .run({ jobId, status, error: error ?? null, now });
+      this.addTransition(jobId, status, error, now);
+    })();
+  }
+
+  recordProgress(jobId: string, progress: number): void {
+    this.db
+      .prepare('UPDATE jobs SET progress = ?, updated_at = ? WHERE id = ?')
+      .run(Math.round(progress), new Date().toISOString(), jobId);
+  }
+
+  /**
+   * Link a job to the regenerated job replacing it, or a preview to its final render
+   */
+  recordLink(jobId: string, link: { nextJobId?: string; finalJobId?: string }): void {
+    this.db
+      .prepare(
+        `UPDATE jobs SET
+          next_job_id = COALESCE(?, next_job_id),
+          final_job_id = COALESCE(?, final_job_id),
+          updated_at = ?
+        WHERE id = ?`
+      )
+      .run(link.nextJobId ?? null, link.finalJobId ?? null, new Date().toISOString(), jobId);
+  }
+
+  recordResult(jobId: string, result: RenderResult): void {
+    this.db
+      .prepare(
+        `UPDATE jobs SET
+          output_path = ?, scenes = ?, render_duration_ms = ?, resource_usage = ?, updated_at = ?
+        WHERE id = ?`
+      )
+      .run(
+        result.outputPath,
+        result.scenes ? JSON.stringify(result.scenes) : null,
+        result.duration,
+        result.resourceUsage ? JSON.stringify(result.resourceUsage) : null,
+        new Date().toISOString(),
+        jobId
+      );
+  }
+
+  recordValidationError(jobId: string, scriptError: ScriptError): void {
+    this.db
+      .prepare('UPDATE jobs SET validation_error = ?, updated_at = ? WHERE id = ?')
+      .run(JSON.stringify(scriptError), new Date().toISOString(), jobId);
+  }
+
+  apply(jobId: string, update: JobHistoryUpdate): void {
+    switch (update.type) {
+      case 'created':
+        return this.recordCreated(update.job, update.status);
+      case 'status':
+        return this.recordStatus(jobId, update.status, update.error);
+      case 'progress':
+        return this.recordProgress(jobId, update.progress);
+      case 'link':
+        return this.recordLink(jobId, update);
+      case 'result':
+        return this.recordResult(jobId, update.result);
+      case 'validation-error':
+        return this.recordValidationError(jobId, update.scriptError);
+      case 'deleted':
+        return this.deleteJob(jobId);
+    }
+  }
+
+  getJob(jobId: string): JobHistoryRecord | null {
+    const row = this.db.prepare('SELECT * FROM jobs WHERE id = ?').get(jobId) as JobRow | undefined;
+    return row ? this.toRecord(row) : null;
+  }
+
+  /**
+   * One page of jobs matching the query, newest first unless another sort is asked for.
+   * Pass the returned `nextCursor` back with the same query to get the following page.
+   */
+  listJobs(query: JobListQuery = {}): JobListPage {
+    const sort = query.sort || 'createdAt';
+    const column = SORT_COLUMNS[sort];
+    const direction = query.order === 'asc' ? 'ASC' : 'DESC';
+    const limit = query.limit || DEFAULT_PAGE_SIZE;
+
+    const conditions: string[] = [];
+    const params: Record<string, string | number> = { limit: limit + 1 };
+
+    if (query.status?.length) {
+      conditions.push(`status IN (${query.status.map((_, i) => `@status${i}`).join(', ')})`);
+      query.status.forEach((status, i) => (params[`status${i}`] = status));
+    }
+    if (query.provider) {
+      conditions.push('provider = @provider');
+      params.provider = query.provider;
+    }
+    if (query.model) {
+      conditions.push('model = @model');
+      params.model = query.model;
+    }
+    if (query.createdAfter) {
+      conditions.push('created_at >= @createdAfter');
+      params.createdAfter = query.createdAfter.toISOString();
+    }
+    if (query.createdBefore) {
+      conditions.push('created_at < @createdBefore');
+      params.createdBefore = query.createdBefore.toISOString();
+    }
+    if (query.hasRegenerations !== undefined) {
+      // A job has regenerations when its chain holds more than this one job
+      conditions.push(
+        `${query.hasRegenerations ? '' : 'NOT '}EXISTS (
+          SELECT 1 FROM jobs chain WHERE chain.root_job_id = jobs.root_job_id AND chain.id != jobs.id
+        )`
+      );
+    }
+    const search = query.search ? this.toMatchExpression(query.search) : null;
+    if (search) {
+      conditions.push('id IN (SELECT job_id FROM jobs_fts WHERE jobs_fts MATCH @search)');
+      params.search = search;
+    }
+    if (query.cursor) {
+      const [value, id] = this.decodeCursor(query.cursor, sort);
+      const comparison = direction === 'ASC' ? '>' : '<';
+      conditions.push(
+        `(${column} ${comparison} @cursorValue OR (${column} = @cursorValue AND id ${comparison} @cursorId))`
+      );
+      params.cursorValue = value;
+      params.cursorId = id;
+    }
+
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM jobs
+        ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''}
+        ORDER BY ${column} ${direction}, id ${direction}
+        LIMIT @limit`
+      )
+      .all(params) as JobRow[];
+
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+      jobs: page.map(row => this.toRecord(row)),
+      nextCursor:
+        rows.length > limit ? this.encodeCursor(last[column as keyof JobRow], last.id) : undefined,
+    };
+  }
+
+  getTransitions(jobId: string): JobStatusTransition[] {
+    const rows = this.db
+      .prepare('SELECT status, error, at FROM job_status_transitions WHERE job_id = ? ORDER BY id')
+      .all(jobId) as { status: RenderJob['status']; error: string | null; at: string }[];
+    return rows.map(row => ({
+      status: row.status,
+      error: row.error ?? undefined,
+      at: new Date(row.at),
+    }));
+  }
+
+  /**
+   * Every script of the job's regeneration chain, oldest first
+   */
+  getCodeVersions(jobId: string): JobCodeVersion[] {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM jobs
+        WHERE root_job_id = (SELECT root_job_id FROM jobs WHERE id = ?)
+        ORDER BY regeneration_count, created_at`
+      )
+      .all(jobId) as JobRow[];
+    return rows.map(row => ({
+      jobId: row.id,
+      regenerationCount: row.regeneration_count,
+      code: row.code,
+      status: row.status,
+      error: row.error ?? undefined,
+      createdAt: new Date(row.created_at),
+    }));
+  }
+
+  deleteJob(jobId: string): void {
+    this.db.prepare('DELETE FROM jobs WHERE id = ?').run(jobId);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private addTransition(
+    jobId: string,
+    status: RenderJob['status'],
+    error: string | undefined,
+    at: string
+  ): void {
+    this.db
+      .prepare('INSERT INTO job_status_transitions (job_id, status, error, at) VALUES (?, ?, ?, ?)')
+      .run(jobId, status, error ?? null, at);
+  }
+
+  /**
+   * Turn free text into an FTS5 query matching every word, each as a prefix
+   */
+  private toMatchExpression(search: string): string | null {
+    const terms = search.match(/[\p{L}\p{N}_]+/gu);
+    return terms ? terms.map(term => `"${term}"*`).join(' ') : null;
+  }
+
+  private encodeCursor(value: unknown, id: string): string {
+    return Buffer.from(JSON.stringify([value, id])).toString('base64url');
+  }
+
+  private decodeCursor(cursor: string, sort: JobListSort): [string | number, string] {
+    try {
+      const [value, id] = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+      const expected = sort === 'progress' ? 'number' : 'string';
+      if (typeof value === expected && typeof id === 'string') return [value, id];
+    } catch (_) {
+      // Reported below
+    }
+    throw new InvalidCursorError();
+  }
+
+  private migrate(): void {
+    const version = this.db.pragma('user_version', { simple: true }) as number;
+    for (let i = version; i < MIGRATIONS.length; i++) {
+      this.db.transaction(() => {
+        this.db.exec(MIGRATIONS[i]);
+        this.db.pragma(`user_version = ${i + 1}`);
+      })();
+    }
+  }
+
+  private toRecord(row: JobRow): JobHistoryRecord {
+    return {
+      id: row.id,
+      rootJobId: row.root_job_id,
+      prompt: row.prompt,
+      code: row.code,
+      provider: row.provider ?? undefined,
+      model: row.model ?? undefined,
+      status: row.status,
+      progress: row.progress,
+      error: row.error ?? undefined,
+      validationError: row.validation_error ? JSON.parse(row.validation_error) : undefined,
+      regenerationCount: row.regeneration_count,
+      originalJobId: row.original_job_id ?? undefined,
+      nextJobId: row.next_job_id ?? undefined,
+      phase: row.phase ?? undefined,
+      previewJobId: row.preview_job_id ?? undefined,
+      finalJobId: row.final_job_id ?? undefined,
+      quality: row.quality ?? undefined,
+      fps: row.fps ?? undefined,
+      resolution: row.resolution ?? undefined,
+      format: row.format ?? undefined,
+      cached: row.cached === 1,
+      outputPath: row.output_path ?? undefined,
+      scenes: row.scenes ? JSON.parse(row.scenes) : undefined,
+      renderDurationMs: row.render_duration_ms ?? undefined,
+      resourceProfile: row.resource_profile ?? undefined,
+      resourceUsage: row.resource_usage ? JSON.parse(row.resource_usage) : undefined,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+      startedAt: row.started_at ? new Date(row.started_at) : undefined,
+      finishedAt: row.finished_at ? new Date(row.finished_at) : undefined,
+    };
+  }
+}
@@ -1,39 +1,143 @@
-import { Queue, Worker, Job } from 'bullmq';
+import { Queue, Worker, Job, FlowProducer, JobType, WaitingError } from 'bullmq';
 import Redis from 'ioredis';
 import { config } from '../config';
 import { logger } from '../utils/logger';
-import { RenderJob } from '../types';
-import { ManimRendererService } from './manimRendererService';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  InterruptedJobsRecovery,
+  JobCancellation,
+  JobCodeVersion,
+  JobEvent,
+  JobEventPayload,
+  JobHistoryRecord,
+  JobListPage,
+  JobListQuery,
+  JobStatusTransition,
+  ManimOutput,
+  RenderBackend,
+  RenderJob,
+  RenderSettings,
+  ScriptError,
+} from '../types';
+import { createRenderBackend } from './renderBackends';
+import { JobCancelledError } from './manimRendererService';
+import { MLANIM_LABELS, dockerClient } from './dockerClient';
+import { RenderCacheEntry, RenderCacheService } from './renderCacheService';
+import { providerRegistry } from './providerRegistry';
+import { codeSafetyAnalyzer } from './codeSafetyAnalyzer';
 import { JobLogger } from '../utils/jobLogger';
+import { JobEventBus, JobEventListener } from './jobEventBus';
+import { JobHistoryStore, JobHistoryUpdate } from './jobHistoryStore';
+import { RenderProgressTracker, estimateAnimationCount } from '../utils/manimProgressParser';
+import { getResourceProfile } from '../utils/resourceProfiles';
+
+// Cancellation requests go to every instance; the one validating or rendering the job stops it
+const CANCEL_CHANNEL = 'job-cancel';
+// Job history updates of processes without the history, for the API to write. Any API replica
+// may take an update, so the replicas share one database (JOB_HISTORY_DB_PATH).
+const HISTORY_UPDATES_KEY = 'job-history:updates';
+// Updates kept while no API takes them; the oldest are dropped past this
+const HISTORY_UPDATES_MAX_LENGTH = 100000;
+// Jobs that haven't started yet can be taken off the queue
+const QUEUED_STATES = ['waiting', 'delayed', 'prioritized', 'waiting-children'];
+// Abort reason of jobs stopped because this instance is shutting down; they are re-queued
+const SHUTDOWN_ABORT = 'shutdown';
+// Abort reason of renders the watchdog stopped for producing no output
+const WATCHDOG_ABORT = 'watchdog';
+// Processes running workers renew `instance:alive:<instanceId>` this often; a process whose key
+// has expired is gone, and recovery may take over its jobs and containers
+const INSTANCE_HEARTBEAT_INTERVAL_MS = 10000;
+const INSTANCE_HEARTBEAT_TTL_SECONDS = 30;
+
+/** Raised when cancelling a job that has already finished */
+export class JobNotCancellableError extends Error {
+  constructor(
+    jobId: string,
+    public readonly status: RenderJob['status']
+  ) {
+    super(`Job ${jobId} is ${status} and can no longer be cancelled`);
+    this.name = 'JobNotCancellableError';
+  }
+}
 
 export class JobQueueService {
   private queue: Queue;
   private worker!: Worker;
+  private validationQueue: Queue;
+  private validationWorker!: Worker;
+  private cacheQueue: Queue;
+  private cacheWorker!: Worker;
+  private flowProducer: FlowProducer;
   private redis: Redis;
-  private manimRenderer: ManimRendererService;
+  private renderBackend: RenderBackend;
+  private renderCache: RenderCacheService;
+  private eventBus: JobEventBus;
+  /** Only the API process opens the history; others send their updates over Redis */
+  private history: JobHistoryStore | null = null;
+  private historySubscriber?: Redis;
+  private cancelSubscriber!: Redis;
+  /** Jobs this instance is validating or rendering, so a cancellation can stop them */
+  private readonly runningJobs = new Map<string, AbortController>();
+  /** When each render running here last produced output, for the stuck-job watchdog */
+  private readonly lastRenderOutput = new Map<string, number>();
+  private watchdogTimer?: NodeJS.Timeout;
+  private heartbeatTimer?: NodeJS.Timeout;
+  private workersStarted = false;
 
   constructor() {
     this.redis = new Redis(config.redis.url, {
       maxRetriesPerRequest: null,
     });
     this.queue = new Queue('manim-rendering', { connection: this.redis });
-    this.manimRenderer = new ManimRendererService();
+    this.validationQueue = new Queue('manim-validation', { connection: this.redis });
+    this.cacheQueue = new Queue('manim-cache', { connection: this.redis });
+    this.flowProducer = new FlowProducer({ connection: this.redis });
+    this.renderBackend = createRenderBackend();
+    this.renderCache = new RenderCacheService();
+    this.eventBus = new JobEventBus(this.redis);
+  }
+
+  /**
+   * Keep the job history in this process: open the database, and write the updates that
+   * worker processes send over Redis as well as this process's own. Only the API calls this,
+   * so workers on other hosts never need the database file.
+   */
+  openHistory(): void {
+    if (this.history) return;
+    this.history = new JobHistoryStore();
+    // Blocking pops hold their connection, so they get one of their own
+    this.historySubscriber = this.redis.duplicate();
+    this.applyHistoryUpdates(this.historySubscriber).catch(error => {
+      logger.error('Job history updates stopped', { error });
+    });
+  }
+
+  /**
+   * Start processing the validation, render and cache queues in this process. API-only
+   * replicas never call this and leave the queues to worker processes.
+   */
+  startWorkers(): void {
+    if (this.workersStarted) return;
+    this.workersStarted = true;
 
     this.setupWorker();
+    this.setupValidationWorker();
+    this.setupCacheWorker();
     this.setupEventHandlers();
+    this.setupCancellation();
+    this.setupWatchdog();
+    this.setupHeartbeat();
+    logger.info('Queue workers started', { renderConcurrency: config.workers.renderConcurrency });
   }
 
   /**
    * Add a new rendering job to the queue
    */
   async addJob(
-    jobData: Omit<RenderJob, 'id' | 'status' | 'createdAt' | 'updatedAt'> & {
-      provider?: 'gemini' | 'together';
-      model?: string;
-    }
+    jobData: Omit<RenderJob, 'id' | 'status' | 'createdAt' | 'updatedAt'>
   ): Promise<string> {
     try {
-      const job = await this.queue.add('render', jobData, {
+      const renderOptions = {
         attempts: 1,
         backoff: {
           type: 'exponential',
@@ -41,12 +145,55 @@ export class JobQueueService {
         },
         removeOnComplete: 100,
         removeOnFail: 50,
+      };
+
+      // Identical code and settings rendered before: complete straight from the cache
+      const cacheKey = config.renderCache.enabled
+        ? this.renderCache.getKey(jobData.code, this.getRenderSettings(jobData))
+        : undefined;
+      const cacheEntry = cacheKey ? await this.renderCache.lookup(cacheKey) : null;
+      if (cacheEntry) {
+        return await this.addCachedJob(jobData, cacheEntry);
+      }
+
+      // With validation on, the render job waits on a dry-run child in the validation queue.
+      // A failing child fails the render job before it ever reaches the render worker's processor.
+      // Final renders of a preview reuse code it already ran, so they skip the dry run.
+      const validate = config.validation.enabled && !jobData.validated;
+      const job = validate
+        ? (
+            await this.flowProducer.add({
+              name: 'render',
+              queueName: 'manim-rendering',
+              data: { ...jobData, cacheKey },
+              opts: renderOptions,
+              children: [
+                {
+                  name: 'validate',
+                  queueName: 'manim-validation',
+                  data: { code: jobData.code },
+                  opts: { failParentOnFailure: true, removeOnComplete: 100, removeOnFail: 50 },
+                },
+              ],
+            })
+          ).job
+        : await this.queue.add('render', { ...jobData, cacheKey }, renderOptions);
+
+      const status = validate ? 'validating' : 'pending';
+      this.recordHistory(job.id as string, {
+        type: 'created',
+        job: { ...jobData, id: job.id as string },
+        status,
       });
+      this.publishEvent(job.id as string, { type: 'status', status });
 
       logger.info('Added new rendering job to queue', {
         jobId: job.id,
+        validating: validate,
+        phase: jobData.phase || null,
+        resourceProfile: jobData.resourceProfile || null,
         prompt: jobData.prompt.substring(0, 100),
-        provider: jobData.provider || 'gemini',
+        provider: jobData.provider || null,
         model: jobData.model || null,
       });
 
@@ -59,6 +206,60 @@ export class JobQueueService {
     }
   }
 
+  /**
+   * Add a job for a cache hit. It goes to its own queue so it completes at once,
+   * instead of waiting behind renders for a render slot.
+   */
+  private async addCachedJob(
+    jobData: Omit<RenderJob, 'id' | 'status' | 'createdAt' | 'updatedAt'>,
+    cacheEntry: RenderCacheEntry
+  ): Promise<string> {
+    // Prefixed IDs can't collide with the render queue's numeric ones
+    const job = await this.cacheQueue.add(
+      'cached',
+      { ...jobData, cached: true, cacheEntry },
+      { jobId: `cached-${uuidv4()}`, removeOnComplete: 100, removeOnFail: 50 }
+    );
+
+    this.recordHistory(job.id as string, {
+      type: 'created',
+      job: { ...jobData, id: job.id as string, cached: true },
+      status: 'pending',
+    });
+    this.publishEvent(job.id as string, { type: 'status', status: 'pending' });
+
+    logger.info('Render cache hit, completing job from cache', {
+      jobId: job.id,
+      cacheKey: cacheEntry.key,
+      sourceJobId: cacheEntry.sourceJobId,
+      prompt: jobData.prompt.substring(0, 100),
+    });
+
+    return job.id as string;
+  }
+
+  /**
+   * Look a job up in the render queue, then among cache hits
+   */
+  private async getJob(jobId: string): Promise<Job | undefined> {
+    return (await this.queue.getJob(jobId)) || (await this.cacheQueue.getJob(jobId));
+  }
+
+  /**
+   * Settings the renderer actually uses for a job; previews ignore the requested quality,
+   * size and frame rate so they come back fast
+   */
+  private getRenderSettings(data: Partial<RenderJob>): RenderSettings {
+    return data.phase === 'preview'
+      ? { quality: 'l', format: data.format === 'png' ? 'mp4' : data.format }
+      : {
+          quality: data.quality,
+          fps: data.fps,
+          resolution: data.resolution,
+          format: data.format,
+        };
+  }
+
   /**
    * Get job status and details
    */
@@ -71,9 +272,13 @@ export class JobQueueService {
         logger.debug('Parsed numeric job ID', { originalJobId: jobId, parsedJobId });
       }
 
-      const job = await this.queue.getJob(parsedJobId.toString());
+      const job = await this.getJob(parsedJobId.toString());
 
       if (!job) {
+        // Finished jobs leave the queue after a while; the history still has them
+        const record = this.getHistoryRecord(jobId);
+        if (record) return record;
+
         logger.warn('Job not found in queue', { jobId, parsedJobId });
 
         // Try to get some queue information for debugging
@@ -154,7 +359,16 @@ export class JobQueueService {
         throw new Error('Job data missing required fields');
       }
 
-      const mappedStatus = this.mapJobStateToStatus(state);
+      // A failed dry run leaves the job waiting with a deferred failure until the render worker
+      // reaches it; report it as failed straight away
+      const validationError = await this.getValidationError(jobId);
+      const failed = !!job.deferredFailure || state === 'failed';
+      const mappedStatus =
+        failed && (await this.isJobCancelled(jobId))
+          ? 'cancelled'
+          : job.deferredFailure
+            ? 'error'
+            : this.mapJobStateToStatus(state);
       logger.debug('Job state mapping', {
         jobId,
         originalState: state,
@@ -170,9 +384,25 @@ export class JobQueueService {
         code: job.data.code,
         status: mappedStatus,
         outputPath: job.returnvalue?.outputPath,
-        error: failedReason,
+        scenes: job.returnvalue?.scenes,
+        cached: job.data.cached === true,
+        error: validationError ? this.formatScriptError(validationError) : failedReason,
         regenerationCount: job.data.regenerationCount,
         originalJobId: job.data.originalJobId,
+        provider: job.data.provider,
+        model: job.data.model,
+        validationError: validationError || undefined,
+        quality: job.data.quality,
+        fps: job.data.fps,
+        resolution: job.data.resolution,
+        format: job.data.format,
+        phase: job.data.phase,
+        autoFinalize: job.data.autoFinalize,
+        previewJobId: job.data.previewJobId,
+        resourceProfile: job.data.resourceProfile,
+        resourceUsage: job.returnvalue?.resourceUsage,
+        finalJobId:
+          job.data.phase === 'preview' ? (await this.getFinalJobId(jobId)) || undefined : undefined,
         createdAt: job.timestamp ? new Date(job.timestamp) : new Date(),
         updatedAt: new Date(),
       };
@@ -188,42 +418,53 @@ export class JobQueueService {
   }
 
   /**
-   * Get all jobs with their statuses
+   * Jobs from the render queue and cache hits, in the states shown to users
    */
-  async getAllJobs(): Promise<RenderJob[]> {
-    try {
-      const jobs = await this.queue.getJobs(['active', 'waiting', 'completed', 'failed']);
-
-      return Promise.all(
-        jobs.map(async job => {
-          const state = await job.getState();
-          const progress = (job.progress as number) || 0;
+  private async getJobsFromAllQueues(): Promise<Job[]> {
+    const states: JobType[] = ['active', 'waiting', 'waiting-children', 'completed', 'failed'];
+    const [renderJobs, cachedJobs] = await Promise.all([
+      this.queue.getJobs(states),
+      this.cacheQueue.getJobs(states),
+    ]);
+    return [...renderJobs, ...cachedJobs];
+  }
 
-          return {
-            id: job.id as string,
-            prompt: job.data.prompt,
-            code: job.data.code,
-            status: this.mapJobStateToStatus(state),
-            progress: progress,
-            outputPath: job.returnvalue?.outputPath,
-            error: job.failedReason,
-            createdAt: job.timestamp ? new Date(job.timestamp) : new Date(),
-            updatedAt: new Date(),
-          };
-        })
-      );
+  /**
+   * Get a page of jobs with their statuses from the job history, filtered and sorted
+   */
+  async getAllJobs(query: JobListQuery = {}): Promise<JobListPage> {
+    try {
+      return this.getHistory().listJobs(query);
     } catch (error) {
       logger.error('Failed to get all jobs', { error });
       throw error;
     }
   }
 
+  /**
+   * A job's history record with its status transitions and the code of its regeneration chain
+   */
+  async getJobHistory(jobId: string): Promise<{
+    job: JobHistoryRecord;
+    transitions: JobStatusTransition[];
+    codeVersions: JobCodeVersion[];
+  } | null> {
+    const history = this.getHistory();
+    const job = history.getJob(jobId);
+    if (!job) return null;
+    return {
+      job,
+      transitions: history.getTransitions(jobId),
+      codeVersions: history.getCodeVersions(jobId),
+    };
+  }
+
   /**
    * Get detailed information about all jobs including their BullMQ states
    */
   async getAllJobsDetailed(): Promise<any[]> {
     try {
-      const jobs = await this.queue.getJobs(['active', 'waiting', 'completed', 'failed']);
+      const jobs = await this.getJobsFromAllQueues();
 
       return Promise.all(
         jobs.map(async job => {
@@ -262,14 +503,20 @@ export class JobQueueService {
   private setupWorker(): void {
     this.worker = new Worker(
       'manim-rendering',
-      async (job: Job) => {
+      async (job: Job, token?: string) => {
         logger.info('Processing rendering job', { jobId: job.id });
         await JobLogger.append(job.id as string, 'Worker started render');
 
         // Declare progressInterval at function scope so it's accessible in catch block
         let progressInterval: NodeJS.Timeout | undefined;
+        const cancellation = this.trackRunningJob(job.id as string);
 
         try {
+          // Cancelled while waiting, or before a crashed instance's render was picked up again
+          if (await this.isJobCancelled(job.id as string)) {
+            throw new JobCancelledError();
+          }
+
           // Update progress to show job is starting
           logger.debug('Setting initial progress to 10%', { jobId: job.id });
           await job.updateProgress(10);
@@ -282,65 +529,48 @@ export class JobQueueService {
           logger.debug('Starting Manim rendering', { jobId: job.id });
 
           // Collect Manim output for real-time progress
-          const manimOutputs: any[] = [];
-          const onManimOutput = (output: any) => {
+          const manimOutputs: ManimOutput[] = [];
+          const progressTracker = new RenderProgressTracker(estimateAnimationCount(job.data.code));
+          let reportedProgress = 10;
+          const onManimOutput = (output: ManimOutput) => {
+            this.lastRenderOutput.set(job.id as string, Date.now());
             manimOutputs.push(output);
             logger.debug('Manim output received', { jobId: job.id, output });
 
-            // Store Manim output in Redis for later retrieval
-            if (job.id) {
-              this.storeManimOutput(job.id.toString(), output).catch(error => {
-                logger.warn('Failed to store Manim output', { jobId: job.id, error });
-              });
-            }
-
-            // Update progress based on Manim output
-            if (output.type === 'progress') {
-              let progressPercent = 0;
-
-              // Extract progress percentage from Manim output with multiple patterns
-              const frameMatch = output.data.match(/Rendering frame (\d+)\/(\d+)/);
-              if (frameMatch) {
-                const currentFrame = parseInt(frameMatch[1]);
-                const totalFrames = parseInt(frameMatch[2]);
-                progressPercent = Math.round((currentFrame / totalFrames) * 100);
-              } else {
-                // Estimate progress based on output type and content
-                const currentProgress = (job.progress as number) || 5;
-
-                if (output.data.includes('Scene') || output.data.includes('Building')) {
-                  progressPercent = Math.min(currentProgress + 15, 40);
-                } else if (
-                  output.data.includes('Processing') ||
-                  output.data.includes('Compiling')
-                ) {
-                  progressPercent = Math.min(currentProgress + 10, 60);
-                } else if (output.data.includes('Rendering')) {
-                  progressPercent = Math.min(currentProgress + 20, 80);
-                } else if (output.data.includes('Writing') || output.data.includes('Frame')) {
-                  progressPercent = Math.min(currentProgress + 25, 90);
-                } else {
-                  // Increment progress slightly for other outputs
-                  progressPercent = Math.min(currentProgress + 5, 85);
-                }
-              }
+            if (output.event) {
+              this.publishEvent(job.id as string, { type: 'render-progress', event: output.event });
 
-              // Update job progress with actual Manim progress
-              if (progressPercent > 0) {
-                job.updateProgress(Math.min(progressPercent, 95)).catch(error => {
+              // Rendering spans 10-95%; the rest is setup and finishing up
+              const progressPercent = 10 + Math.round(progressTracker.update(output.event) * 0.85);
+              if (progressPercent > reportedProgress) {
+                reportedProgress = progressPercent;
+                job.updateProgress(progressPercent).catch(error => {
                   logger.warn('Failed to update progress from Manim output', {
                     jobId: job.id,
                     error,
                   });
                 });
               }
+
+              // Progress bar updates have their own list; only finished animations go in the log
+              if (output.event.kind === 'animation') return;
             }
+
+            // Store Manim output in Redis for later retrieval
+            this.storeManimOutput(job.id as string, output).catch(error => {
+              logger.warn('Failed to store Manim output', { jobId: job.id, error });
+            });
+            this.publishEvent(job.id as string, { type: 'output', output });
           };
 
-          const result = await this.manimRenderer.renderAnimation(
+          this.lastRenderOutput.set(job.id as string, Date.now());
+          const result = await this.renderBackend.renderAnimation(
             job.data.code,
             job.id as string,
-            onManimOutput
+            onManimOutput,
+            this.getRenderSettings(job.data),
+            cancellation.signal,
+            getResourceProfile(job.data.resourceProfile)
           );
 
           logger.debug('Manim rendering completed', {
@@ -383,10 +613,33 @@ export class JobQueueService {
             outputPath: result.outputPath,
           });
 
+          if (job.data.cacheKey) {
+            await this.renderCache
+              .store(job.data.cacheKey, job.id as string, result)
+              .catch(error => {
+                logger.warn('Failed to store render in cache', { jobId: job.id, error });
+              });
+          }
+
+          await this.autoFinalizePreview(job);
+
           return result;
         } catch (error) {
+          if (cancellation.signal.reason === SHUTDOWN_ABORT) {
+            await this.requeueInterruptedJob(
+              job,
+              job.id as string,
+              'Interrupted by shutdown, re-queued',
+              token
+            );
+          }
+          const failure =
+            cancellation.signal.reason === WATCHDOG_ABORT
+              ? await this.handleStalledRender(job, token)
+              : error;
+
           await JobLogger.append(job.id as string, 'Render failed', {
-            error: error instanceof Error ? error.message : String(error),
+            error: failure instanceof Error ? failure.message : String(failure),
           });
           // Ensure progress interval is cleared even on error
           if (progressInterval) {
@@ -395,22 +648,146 @@ export class JobQueueService {
 
           logger.error('Job failed', {
             jobId: job.id,
+            error: failure instanceof Error ? failure.message : failure,
+            stack: failure instanceof Error ? failure.stack : undefined,
+          });
+          throw failure;
+        } finally {
+          this.runningJobs.delete(job.id as string);
+          this.lastRenderOutput.delete(job.id as string);
+        }
+      },
+      { connection: this.redis, concurrency: config.workers.renderConcurrency }
+    );
+  }
+
+  /**
+   * Setup the worker that dry-runs scripts before they are released to the render queue
+   */
+  private setupValidationWorker(): void {
+    this.validationWorker = new Worker(
+      'manim-validation',
+      async (job: Job, token?: string) => {
+        const renderJobId = job.parent?.id || (job.id as string);
+        logger.info('Validating script with dry run', { jobId: renderJobId });
+        await JobLogger.append(renderJobId, 'Dry run validation started');
+
+        const cancellation = this.trackRunningJob(renderJobId);
+        let scriptError: ScriptError | null;
+        try {
+          if (await this.isJobCancelled(renderJobId)) {
+            throw new JobCancelledError();
+          }
+          scriptError = await this.renderBackend.dryRun(
+            job.data.code,
+            renderJobId,
+            cancellation.signal
+          );
+        } catch (error) {
+          if (cancellation.signal.reason === SHUTDOWN_ABORT) {
+            await this.requeueInterruptedJob(
+              job,
+              renderJobId,
+              'Interrupted by shutdown, re-queued',
+              token
+            );
+          }
+          if (error instanceof JobCancelledError) throw error;
+
+          // Don't block rendering because the check itself could not run
+          logger.warn('Dry run could not be performed, continuing to render', {
+            jobId: renderJobId,
             error: error instanceof Error ? error.message : error,
-            stack: error instanceof Error ? error.stack : undefined,
           });
-          throw error;
+          return { skipped: true };
+        } finally {
+          this.runningJobs.delete(renderJobId);
         }
+
+        if (scriptError) {
+          this.recordHistory(renderJobId, {
+            type: 'validation-error',
+            scriptError: scriptError as ScriptError,
+          });
+          await this.redis.set(
+            `job:validation:${renderJobId}`,
+            JSON.stringify(scriptError),
+            'EX',
+            24 * 60 * 60
+          );
+          throw new Error(this.formatScriptError(scriptError));
+        }
+
+        return { skipped: false };
       },
-      { connection: this.redis }
+      { connection: this.redis, concurrency: config.validation.concurrency }
     );
   }
 
+  /**
+   * Setup the worker that completes cache hits by linking the cached files into the job's
+   * output directory
+   */
+  private setupCacheWorker(): void {
+    this.cacheWorker = new Worker(
+      'manim-cache',
+      async (job: Job) => {
+        const cacheEntry: RenderCacheEntry = job.data.cacheEntry;
+        await this.renderCache.restore(cacheEntry, job.id as string);
+        await JobLogger.append(job.id as string, 'Completed from render cache', {
+          cacheKey: cacheEntry.key,
+          sourceJobId: cacheEntry.sourceJobId,
+        });
+        await job.updateProgress(100);
+
+        await this.autoFinalizePreview(job);
+
+        return {
+          outputPath: cacheEntry.outputPath,
+          duration: 0,
+          scenes: cacheEntry.scenes,
+        };
+      },
+      { connection: this.redis, concurrency: 10 }
+    );
+  }
+
+  /**
+   * Queue the full-quality render of a preview that just finished, unless the user has to
+   * accept it first. Runs before the preview completes, so clients that see the preview as
+   * done can already follow it to the final job.
+   */
+  private async autoFinalizePreview(job: Job): Promise<void> {
+    if (job.data.phase !== 'preview' || job.data.autoFinalize === false) return;
+
+    try {
+      await this.queueFinalRender(job);
+    } catch (error) {
+      logger.error('Failed to queue final render after preview', {
+        jobId: job.id,
+        error: error instanceof Error ? error.message : error,
+      });
+    }
+  }
+
   /**
    * Setup event handlers for job monitoring
    */
   private setupEventHandlers(): void {
+    this.worker.on('active', (job: Job) => {
+      this.publishEvent(job.id as string, { type: 'status', status: 'running' });
+    });
+
+    this.worker.on('progress', (job: Job, progress: unknown) => {
+      if (typeof progress === 'number') {
+        this.publishEvent(job.id as string, { type: 'progress', progress });
+      }
+    });
+
     this.worker.on('completed', (job: Job) => {
       logger.info('Job completed', { jobId: job.id });
+      this.recordHistory(job.id as string, { type: 'result', result: job.returnvalue });
+      this.publishEvent(job.id as string, { type: 'status', status: 'done' });
     });
 
     this.worker.on('failed', (job: Job | undefined, err: Error) => {
@@ -420,7 +797,7 @@ export class JobQueueService {
         this.cleanupStuckContainers(job.id.toString());
 
         // Automatically attempt code regeneration for failed jobs
-        this.handleFailedJob(job.id.toString(), err).catch(error => {
+        this.reportFailedJob(job.id.toString(), err).catch(error => {
           logger.error('Failed to handle failed job for regeneration', {
             jobId: job.id,
             error: error instanceof Error ? error.message : error,
@@ -435,11 +812,64 @@ export class JobQueueService {
       logger.error('Worker error', { error: err.message });
     });
 
+    // Regenerate as soon as the dry run fails instead of waiting for a free render slot
+    this.validationWorker.on('failed', (job: Job | undefined, err: Error) => {
+      const renderJobId = job?.parent?.id;
+      if (!renderJobId) return;
+
+      logger.warn('Dry run validation failed', { jobId: renderJobId, error: err.message });
+      this.reportFailedJob(renderJobId, err).catch(error => {
+        logger.error('Failed to handle failed validation for regeneration', {
+          jobId: renderJobId,
+          error: error instanceof Error ? error.message : error,
+        });
+      });
+    });
+
+    this.validationWorker.on('error', (err: Error) => {
+      logger.error('Validation worker error', { error: err.message });
+    });
+
+    this.cacheWorker.on('completed', (job: Job) => {
+      this.recordHistory(job.id as string, { type: 'result', result: job.returnvalue });
+      this.publishEvent(job.id as string, { type: 'status', status: 'done' });
+    });
+
+    // A cache entry that can't be restored is dropped and the job rendered for real
+    this.cacheWorker.on('failed', (job: Job | undefined, err: Error) => {
+      if (!job?.id) return;
+
+      logger.warn('Failed to complete job from cache, rendering instead', {
+        jobId: job.id,
+        error: err.message,
+      });
+      this.renderCacheMiss(job).catch(error => {
+        logger.error('Failed to re-queue cache miss for rendering', {
+          jobId: job.id,
+          error: error instanceof Error ? error.message : error,
+        });
+      });
+    });
+
+    this.cacheWorker.on('error', (err: Error) => {
+      logger.error('Cache worker error', { error: err.message });
+    });
+
     this.queue.on('error', (err: Error) => {
       logger.error('Queue error', { error: err.message });
     });
   }
 
+  /**
+   * Render a cache hit whose files could not be restored, pointing clients at the new job
+   */
+  private async renderCacheMiss(job: Job): Promise<void> {
+    await this.renderCache.invalidate(job.data.cacheEntry.key);
+
+    const newJobId = await this.addJob({ ...job.data, cached: undefined, cacheEntry: undefined });
+    await this.setNextJobId(job.id as string, newJobId);
+  }
+
   /**
    * Store mapping from failed job to regenerated job
    */
@@ -447,6 +877,7 @@ export class JobQueueService {
     try {
       const key = `job:next:${originalJobId}`;
       await this.redis.set(key, newJobId, 'EX', 24 * 60 * 60);
+      this.publishEvent(originalJobId, { type: 'linked', nextJobId: newJobId });
     } catch (error) {
       logger.warn('Failed to store nextJobId mapping', { originalJobId, newJobId, error });
     }
@@ -459,13 +890,124 @@ export class JobQueueService {
     try {
       const key = `job:next:${originalJobId}`;
       const next = await this.redis.get(key);
-      return next || null;
+      return next || this.getHistoryRecord(originalJobId)?.nextJobId || null;
     } catch (error) {
       logger.warn('Failed to retrieve nextJobId mapping', { originalJobId, error });
       return null;
     }
   }
 
+  /**
+   * Start the full-quality render for a finished preview job
+   */
+  async finalizePreview(jobId: string): Promise<string | null> {
+    try {
+      const job = await this.getJob(jobId);
+      if (!job) {
+        logger.warn('Job not found for final render', { jobId });
+        return null;
+      }
+
+      const state = await job.getState();
+      if (job.data.phase !== 'preview' || state !== 'completed') {
+        logger.info('Job is not a finished preview, skipping final render', { jobId, state });
+        return null;
+      }
+
+      return await this.queueFinalRender(job);
+    } catch (error) {
+      logger.error('Failed to start final render', {
+        jobId,
+        error: error instanceof Error ? error.message : error,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Queue the full-quality render of a preview job's code, at most once per preview
+   */
+  private async queueFinalRender(previewJob: Job): Promise<string> {
+    const previewJobId = previewJob.id as string;
+    const key = `job:final:${previewJobId}`;
+
+    // Claim the link so an automatic and a user-requested finalize can't both queue a render
+    const claimed = await this.redis.set(key, 'pending', 'EX', 24 * 60 * 60, 'NX');
+    if (!claimed) {
+      const existing = await this.getFinalJobId(previewJobId);
+      if (existing) return existing;
+      throw new Error('Final render is already being queued');
+    }
+
+    try {
+      const finalJobId = await this.addJob({
+        prompt: previewJob.data.prompt,
+        code: previewJob.data.code,
+        outputPath: undefined,
+        error: undefined,
+        provider: previewJob.data.provider,
+        model: previewJob.data.model,
+        quality: previewJob.data.quality || 'h',
+        fps: previewJob.data.fps,
+        resolution: previewJob.data.resolution,
+        format: previewJob.data.format,
+        phase: 'final',
+        previewJobId,
+        validated: true,
+        resourceProfile: previewJob.data.resourceProfile,
+      });
+
+      await this.redis.set(key, finalJobId, 'EX', 24 * 60 * 60);
+      this.publishEvent(previewJobId, { type: 'linked', finalJobId });
+      await JobLogger.append(previewJobId, 'Final render queued', { finalJobId });
+      logger.info('Queued final render for preview', { previewJobId, finalJobId });
+
+      return finalJobId;
+    } catch (error) {
+      await this.redis.del(key);
+      throw error;
+    }
+  }
+
+  /**
+   * Final render queued for a preview job, if any
+   */
+  public async getFinalJobId(previewJobId: string): Promise<string | null> {
+    try {
+      const finalJobId = await this.redis.get(`job:final:${previewJobId}`);
+      if (finalJobId) return finalJobId !== 'pending' ? finalJobId : null;
+      return this.getHistoryRecord(previewJobId)?.finalJobId || null;
+    } catch (error) {
+      logger.warn('Failed to retrieve final job mapping', { previewJobId, error });
+      return null;
+    }
+  }
+
+  /**
+   * Structured dry-run error stored for a job, if its validation failed
+   */
+  private async getValidationError(jobId: string): Promise<ScriptError | null> {
+    try {
+      const stored = await this.redis.get(`job:validation:${jobId}`);
+      return stored ? (JSON.parse(stored) as ScriptError) : null;
+    } catch (error) {
+      logger.warn('Failed to retrieve validation error', { jobId, error });
+      return null;
+    }
+  }
+
+  private formatScriptError(scriptError: ScriptError): string {
+    const location = scriptError.line ? ` at line ${scriptError.line}` : '';
+    return `Dry run failed: ${scriptError.type}${location}: ${scriptError.message}`;
+  }
+
+  /**
+   * Whether a job has failed, including a dry-run failure the render worker hasn't applied yet
+   */
+  private async isJobFailed(job: Job): Promise<boolean> {
+    return !!job.deferredFailure || (await job.getState()) === 'failed';
+  }
+
   /**
    * Map BullMQ job state to our status enum
    */
@@ -474,6 +1016,8 @@ export class JobQueueService {
       case 'waiting':
       case 'delayed':
         return 'pending';
+      case 'waiting-children':
+        return 'validating';
       case 'active':
         return 'running';
       case 'completed':
@@ -490,7 +1034,7 @@ export class JobQueueService {
    */
   async getJobProgress(jobId: string): Promise<any> {
     try {
-      const job = await this.queue.getJob(jobId);
+      const job = await this.getJob(jobId);
       if (!job) {
         return { error: 'Job not found' };
       }
@@ -534,7 +1078,7 @@ export class JobQueueService {
    */
   async deleteJob(jobId: string): Promise<void> {
     try {
-      const job = await this.queue.getJob(jobId);
+      const job = await this.getJob(jobId);
       if (!job) {
         logger.warn('Job not found for deletion', { jobId });
         return;
@@ -568,6 +1112,7 @@ export class JobQueueService {
 
       // Clean up associated resources
       await this.cleanupJobResources(jobId);
+      this.recordHistory(jobId, { type: 'deleted' });
     } catch (error) {
       logger.error('Failed to delete job', { jobId, error });
       throw new Error(
@@ -577,54 +1122,328 @@ export class JobQueueService {
   }
 
   /**
-   * Force kill a stuck job
+   * Cancel a job. A job that hasn't started is removed from the queue; a running validation
+   * or render is aborted by the instance running it, and the job ends up `cancelled`.
+   * Resolves with what was done, or null when the job doesn't exist.
    */
-  async forceKillJob(jobId: string): Promise<void> {
-    try {
-      const job = await this.queue.getJob(jobId);
-      if (!job) {
-        logger.warn('Job not found for force kill', { jobId });
-        return;
-      }
+  async cancelJob(jobId: string): Promise<JobCancellation | null> {
+    const job = await this.getJob(jobId);
+    if (!job) {
+      logger.warn('Job not found for cancellation', { jobId });
+      return null;
+    }
 
-      const currentState = await job.getState();
-      logger.info('Force killing job', { jobId, currentState });
+    const state = await job.getState();
+    if (state === 'completed' || state === 'failed' || job.deferredFailure) {
+      throw new JobNotCancellableError(jobId, (await this.getJobStatus(jobId))?.status || 'done');
+    }
+    if (state === 'active' && job.queueName === this.cacheQueue.name) {
+      // Linking cached files takes a moment and can't be interrupted
+      throw new JobNotCancellableError(jobId, 'running');
+    }
+
+    logger.info('Cancelling job', { jobId, state });
+    // Checked by workers and failure handlers, so a job picked up meanwhile still stops
+    await this.redis.set(`job:cancelled:${jobId}`, '1', 'EX', 24 * 60 * 60);
+    await JobLogger.append(jobId, 'Cancellation requested', { state });
 
+    if (QUEUED_STATES.includes(state)) {
       try {
-        // Try to move to failed state first
-        await job.moveToFailed(new Error('Job force killed by user'), '0');
-        logger.info('Job force killed successfully', { jobId, previousState: currentState });
-      } catch (moveError) {
-        logger.warn('Failed to move job to failed state', { jobId, currentState, moveError });
+        await job.remove();
+        // Removing a job waiting on validation also removes the dry run, which may be running
+        if (state === 'waiting-children') {
+          await this.redis.publish(CANCEL_CHANNEL, jobId);
+        }
+        this.publishEvent(jobId, { type: 'status', status: 'cancelled' });
+        logger.info('Queued job removed', { jobId, previousState: state });
+        return 'dequeued';
+      } catch (error) {
+        // A worker took the job (or its dry run) in the meantime
+        logger.info('Job started before it could be removed, stopping it instead', {
+          jobId,
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    }
 
-        // If moving to failed fails, try to remove the job completely
-        try {
-          await job.remove();
-          logger.info('Job removed successfully', { jobId, previousState: currentState });
-        } catch (removeError) {
-          logger.warn('Failed to remove job', { jobId, currentState, removeError });
+    await this.redis.publish(CANCEL_CHANNEL, jobId);
+    logger.info('Cancellation sent to the running job', { jobId, previousState: state });
+    return 'stopped';
+  }
 
-          // Last resort: try to discard the job
-          try {
-            await job.discard();
-            logger.info('Job discarded successfully', { jobId, previousState: currentState });
-          } catch (discardError) {
-            logger.error('Failed to discard job', { jobId, currentState, discardError });
-            const errorMessage =
-              discardError instanceof Error ? discardError.message : 'Unknown discard error';
-            throw new Error(`Failed to force kill job in state ${currentState}: ${errorMessage}`);
-          }
+  /**
+   * Whether cancellation was requested for a job
+   */
+  private async isJobCancelled(jobId: string): Promise<boolean> {
+    try {
+      return (await this.redis.exists(`job:cancelled:${jobId}`)) === 1;
+    } catch (error) {
+      logger.warn('Failed to check job cancellation', { jobId, error });
+      return false;
+    }
+  }
+
+  /**
+   * Register a job this instance starts validating or rendering; its signal aborts on cancel.
+   * The instance is also recorded on the job, so a restart can tell its own jobs apart.
+   */
+  private trackRunningJob(jobId: string): AbortController {
+    const controller = new AbortController();
+    this.runningJobs.set(jobId, controller);
+    this.redis
+      .set(`job:instance:${jobId}`, config.server.instanceId, 'EX', 24 * 60 * 60)
+      .catch(error => {
+        logger.warn('Failed to record instance running job', { jobId, error });
+      });
+    return controller;
+  }
+
+  /**
+   * Whether this instance is validating or rendering a job right now
+   */
+  isJobRunningHere(jobId: string): boolean {
+    return this.runningJobs.has(jobId);
+  }
+
+  /**
+   * Whether another process with this instance ID is alive, going by its heartbeat. This
+   * process's own ID can only belong to its previous process, so it never counts.
+   */
+  async isOtherInstanceAlive(instanceId: string | undefined): Promise<boolean> {
+    if (!instanceId || instanceId === config.server.instanceId) return false;
+    try {
+      return (await this.redis.exists(this.getHeartbeatKey(instanceId))) === 1;
+    } catch (error) {
+      // Leave its jobs and containers alone rather than take them from a live process
+      logger.warn('Failed to check instance heartbeat', { instanceId, error });
+      return true;
+    }
+  }
+
+  /**
+   * Whether this process keeps the job history (see openHistory)
+   */
+  hasHistory(): boolean {
+    return !!this.history;
+  }
+
+  /**
+   * Whether the queue or the job history knows a job
+   */
+  async hasJobRecord(jobId: string): Promise<boolean> {
+    return !!this.getHistoryRecord(jobId) || !!(await this.getJob(jobId));
+  }
+
+  /**
+   * Find validation and render jobs left active by a worker that is gone: this instance before
+   * it crashed, or another instance whose job lock has expired. They are put back on the queue,
+   * or failed once restarts have interrupted them more than RECOVERY_MAX_REQUEUES times.
+   * `onInterrupted` runs before a job is moved, e.g. to clear its partial files.
+   */
+  async recoverInterruptedJobs(
+    onInterrupted?: (jobId: string) => Promise<void>
+  ): Promise<InterruptedJobsRecovery> {
+    const recovery: InterruptedJobsRecovery = { requeued: [], failed: [], live: [] };
+    const stages: [Queue, Worker][] = [
+      [this.validationQueue, this.validationWorker],
+      [this.queue, this.worker],
+    ];
+
+    for (const [queue, worker] of stages) {
+      for (const job of await queue.getJobs(['active'])) {
+        if (!job?.id) continue;
+        // Dry runs are tracked under the render job they validate
+        const jobId = job.parent?.id || job.id;
+
+        if (await this.isHeldByLiveWorker(queue, worker, job.id, jobId)) {
+          recovery.live.push(jobId);
+          continue;
+        }
+
+        const interruptionsKey = `job:interrupted:${jobId}`;
+        const interruptions = await this.redis.incr(interruptionsKey);
+        await this.redis.expire(interruptionsKey, 24 * 60 * 60);
+        await onInterrupted?.(jobId);
+
+        // The lock's owner is gone, so token '0' moves the job without it
+        if (interruptions <= config.recovery.maxRequeues) {
+          await job.moveToWait('0');
+          await job.updateProgress(0);
+          logger.warn('Re-queued job interrupted by a restart', { jobId, interruptions });
+          await JobLogger.append(jobId, 'Interrupted by a backend restart, re-queued', {
+            interruptions,
+          });
+          this.publishEvent(jobId, { type: 'status', status: 'pending' });
+          this.publishEvent(jobId, { type: 'progress', progress: 0 });
+          recovery.requeued.push(jobId);
+        } else {
+          const reason = `Interrupted by backend restarts ${interruptions} times; not re-queued again`;
+          // Failing a dry run fails its render job too (failParentOnFailure)
+          await job.moveToFailed(new Error(reason), '0');
+          logger.warn('Failed job interrupted by repeated restarts', { jobId, interruptions });
+          await JobLogger.append(jobId, 'Interrupted by a backend restart, failed', {
+            interruptions,
+          });
+          this.publishEvent(jobId, { type: 'status', status: 'error', error: reason });
+          recovery.failed.push(jobId);
         }
       }
+    }
 
-      // Clean up any associated Docker containers
-      await this.cleanupStuckContainers(jobId);
-    } catch (error) {
-      logger.error('Failed to force kill job', { jobId, error });
-      throw new Error(
-        `Failed to force kill job: ${error instanceof Error ? error.message : 'Unknown error'}`
+    return recovery;
+  }
+
+  /**
+   * Whether an active job's lock is held by a worker that is still alive: this process's, or
+   * one of a process whose heartbeat is current. A lock can outlive a crashed process by the
+   * lock duration, so the lock alone doesn't count.
+   */
+  private async isHeldByLiveWorker(
+    queue: Queue,
+    worker: Worker,
+    queueJobId: string,
+    jobId: string
+  ): Promise<boolean> {
+    const lock = await this.redis.get(`${queue.toKey(queueJobId)}:lock`);
+    if (!lock) return false;
+    // Worker tokens are `<worker id>:<n>`
+    if (this.workersStarted && lock.startsWith(`${worker.id}:`)) return true;
+    return this.isOtherInstanceAlive((await this.redis.get(`job:instance:${jobId}`)) || undefined);
+  }
+
+  /**
+   * Put a job stopped by shutdown or the watchdog back on its queue for the next worker instead
+   * of failing it. Always throws, telling the worker the job has been moved.
+   */
+  private async requeueInterruptedJob(
+    job: Job,
+    renderJobId: string,
+    reason: string,
+    token?: string
+  ): Promise<never> {
+    await job.updateProgress(0);
+    await job.moveToWait(token);
+    logger.info('Re-queued interrupted job', { jobId: renderJobId, reason });
+    await JobLogger.append(renderJobId, reason);
+    this.publishEvent(renderJobId, { type: 'status', status: 'pending' });
+    throw new WaitingError();
+  }
+
+  /**
+   * Check running renders for stalls every WATCHDOG_CHECK_INTERVAL_MS
+   */
+  private setupWatchdog(): void {
+    if (config.watchdog.stallTimeoutMs <= 0) return;
+
+    this.watchdogTimer = setInterval(() => {
+      this.stopStalledRenders().catch(error => {
+        logger.error('Stuck-job watchdog check failed', { error });
+      });
+    }, config.watchdog.checkIntervalMs);
+    this.watchdogTimer.unref();
+  }
+
+  /**
+   * Announce this process as alive every INSTANCE_HEARTBEAT_INTERVAL_MS while it runs workers
+   */
+  private setupHeartbeat(): void {
+    const beat = () => {
+      this.redis
+        .set(
+          this.getHeartbeatKey(config.server.instanceId),
+          String(process.pid),
+          'EX',
+          INSTANCE_HEARTBEAT_TTL_SECONDS
+        )
+        .catch(error => {
+          logger.warn('Failed to renew instance heartbeat', { error });
+        });
+    };
+    beat();
+    this.heartbeatTimer = setInterval(beat, INSTANCE_HEARTBEAT_INTERVAL_MS);
+    this.heartbeatTimer.unref();
+  }
+
+  private getHeartbeatKey(instanceId: string): string {
+    return `instance:alive:${instanceId}`;
+  }
+
+  /**
+   * Stop renders that have produced no output for WATCHDOG_STALL_TIMEOUT_MS and kill their
+   * processes. The render worker then re-queues or fails them (see handleStalledRender).
+   */
+  private async stopStalledRenders(): Promise<void> {
+    const now = Date.now();
+    for (const [jobId, lastOutputAt] of this.lastRenderOutput) {
+      const controller = this.runningJobs.get(jobId);
+      if (now - lastOutputAt < config.watchdog.stallTimeoutMs || controller?.signal.aborted) {
+        continue;
+      }
+
+      const silentSeconds = Math.round((now - lastOutputAt) / 1000);
+      logger.warn('Render stalled, stopping it', { jobId, silentSeconds });
+      await this.recordWatchdogAction(
+        jobId,
+        `Watchdog: no render output for ${silentSeconds}s, stopping the render`
       );
+      this.lastRenderOutput.delete(jobId);
+      controller?.abort(WATCHDOG_ABORT);
+      await this.renderBackend.kill(jobId).catch(error => {
+        logger.warn('Watchdog failed to kill render processes', { jobId, error });
+      });
+    }
+  }
+
+  /**
+   * Decide what happens to a render the watchdog stopped: with the retry policy it goes back
+   * on the queue until it has stalled more than WATCHDOG_MAX_RETRIES times. Otherwise resolves
+   * with the error to fail it with.
+   */
+  private async handleStalledRender(job: Job, token?: string): Promise<Error> {
+    const jobId = job.id as string;
+    const stallsKey = `job:stalls:${jobId}`;
+    const stalls = await this.redis.incr(stallsKey);
+    await this.redis.expire(stallsKey, 24 * 60 * 60);
+
+    if (config.watchdog.policy === 'retry' && stalls <= config.watchdog.maxRetries) {
+      const reason = `Watchdog: render re-queued (retry ${stalls} of ${config.watchdog.maxRetries})`;
+      await this.recordWatchdogAction(jobId, reason);
+      await this.requeueInterruptedJob(job, jobId, reason, token);
     }
+
+    const message = `Render stalled: no output for ${Math.round(config.watchdog.stallTimeoutMs / 1000)}s`;
+    await this.recordWatchdogAction(jobId, `Watchdog: render failed (${message})`);
+    return new Error(message);
+  }
+
+  /**
+   * Put a watchdog action in the job's log and output, next to the render's own output
+   */
+  private async recordWatchdogAction(jobId: string, message: string): Promise<void> {
+    const output: ManimOutput = { type: 'info', data: message, timestamp: new Date() };
+    await this.storeManimOutput(jobId, output);
+    this.publishEvent(jobId, { type: 'output', output });
+    await JobLogger.append(jobId, message);
+  }
+
+  /**
+   * Listen for cancellation requests for the jobs this instance is running
+   */
+  private setupCancellation(): void {
+    this.cancelSubscriber = this.redis.duplicate();
+    this.cancelSubscriber.on('message', (_channel: string, jobId: string) => {
+      const controller = this.runningJobs.get(jobId);
+      if (!controller) return;
+
+      logger.info('Stopping cancelled job', { jobId });
+      controller.abort();
+    });
+    this.cancelSubscriber.on('error', (error: Error) => {
+      logger.error('Cancellation subscriber error', { error: error.message });
+    });
+    this.cancelSubscriber.subscribe(CANCEL_CHANNEL).catch(error => {
+      logger.error('Failed to subscribe to job cancellations', { error });
+    });
   }
 
   /**
@@ -638,6 +1457,7 @@ export class JobQueueService {
       // Clean up Redis data
       const outputKey = `manim:output:${jobId}`;
       await this.redis.del(outputKey);
+      await this.eventBus.clear(jobId);
       logger.debug('Cleaned up Redis data for job', { jobId });
 
       // Clean up file system resources
@@ -688,27 +1508,26 @@ export class JobQueueService {
    */
   private async cleanupStuckContainers(jobId: string): Promise<void> {
     try {
-      // Try to find and kill any Docker containers related to this job
-      const { exec } = require('child_process');
-      const util = require('util');
-      const execAsync = util.promisify(exec);
-
-      // Look for containers with the job ID in the name
-      const { stdout } = await execAsync(
-        `docker ps -a --filter "name=mlanim-${jobId}" --format "{{.ID}}"`
-      );
+      // Every container of the job (render, scenes, join and dry run) carries its ID as a label
+      const containers = await dockerClient.listContainers({
+        label: [`${MLANIM_LABELS.jobId}=${jobId}`],
+      });
 
-      if (stdout.trim()) {
-        const containerIds = stdout.trim().split('\n');
-        for (const containerId of containerIds) {
-          if (containerId) {
-            try {
-              await execAsync(`docker kill ${containerId}`);
-              logger.info('Cleaned up stuck Docker container', { jobId, containerId });
-            } catch (killError) {
-              logger.warn('Failed to kill Docker container', { jobId, containerId, killError });
-            }
-          }
+      for (const container of containers) {
+        if (container.State !== 'running') continue;
+        try {
+          await dockerClient.killContainer(container.Id);
+          logger.info('Cleaned up stuck Docker container', {
+            jobId,
+            containerId: container.Id,
+            name: container.Names[0],
+          });
+        } catch (killError) {
+          logger.warn('Failed to kill Docker container', {
+            jobId,
+            containerId: container.Id,
+            killError,
+          });
         }
       }
     } catch (error) {
@@ -716,41 +1535,6 @@ export class JobQueueService {
     }
   }
 
-  /**
-   * Get comprehensive debugging information for a job
-   */
-  async getJobDebugInfo(jobId: string): Promise<any> {
-    try {
-      const job = await this.queue.getJob(jobId);
-      if (!job) {
-        return { error: 'Job not found' };
-      }
-
-      const state = await job.getState();
-      const data = job.data;
-      const returnValue = job.returnvalue;
-      const failedReason = job.failedReason;
-      const attemptsMade = job.attemptsMade;
-      const processedOn = job.processedOn;
-      const finishedOn = job.finishedOn;
-
-      return {
-        jobId,
-        state,
-        data,
-        returnValue,
-        failedReason,
-        attemptsMade,
-        processedOn: processedOn ? new Date(processedOn) : null,
-        finishedOn: finishedOn ? new Date(finishedOn) : null,
-        timestamp: job.timestamp,
-      };
-    } catch (error) {
-      logger.error('Failed to get job debug info', { jobId, error });
-      throw error;
-    }
-  }
-
   /**
    * Automatically regenerate code when a job fails and retry rendering
    */
@@ -759,19 +1543,25 @@ export class JobQueueService {
     maxRegenerations: number = 7
   ): Promise<string | null> {
     try {
-      const job = await this.queue.getJob(jobId);
+      const job = await this.getJob(jobId);
       if (!job) {
         logger.warn('Job not found for code regeneration', { jobId });
         return null;
       }
 
-      const state = await job.getState();
-      if (state !== 'failed') {
-        logger.info('Job is not in failed state, skipping regeneration', { jobId, state });
+      if (!(await this.isJobFailed(job))) {
+        logger.info('Job is not in failed state, skipping regeneration', {
+          jobId,
+          state: await job.getState(),
+        });
         return null;
       }
 
-      const failedReason = job.failedReason;
+      // Prefer the structured dry-run error over the generic "child ... failed" reason
+      const validationError = await this.getValidationError(jobId);
+      const failedReason = validationError
+        ? this.formatScriptError(validationError)
+        : job.failedReason;
       const originalPrompt = job.data.prompt;
       const failedCode = job.data.code;
 
@@ -804,29 +1594,24 @@ export class JobQueueService {
         maxRegenerations,
       });
 
-      // Import services here to avoid circular dependencies
-      const { GeminiService } = await import('./geminiService');
-      const { TogetherService } = await import('./togetherService');
-      const geminiService = new GeminiService();
-      const togetherService = new TogetherService(job.data.model);
-
       // Choose provider used for original generation if available
-      const provider = (job.data.provider as 'gemini' | 'together') || 'gemini';
-      const regeneratedCode =
-        provider === 'together'
-          ? await togetherService.regenerateManimCode(
-              originalPrompt,
-              failedCode,
-              failedReason,
-              regenerationCount + 1,
-              job.data.model
-            )
-          : await geminiService.regenerateManimCode(
-              originalPrompt,
-              failedCode,
-              failedReason,
-              regenerationCount + 1
-            );
+      const provider: string = job.data.provider || providerRegistry.getDefaultName();
+      const codeProvider = providerRegistry.get(provider);
+      if (!codeProvider) {
+        logger.warn('Provider used for original generation is not registered', {
+          jobId,
+          provider,
+        });
+        return null;
+      }
+
+      const regeneratedCode = await codeProvider.regenerateManimCode(
+        originalPrompt,
+        failedCode,
+        failedReason,
+        regenerationCount + 1,
+        job.data.model
+      );
 
       // Log and store regenerated code for visibility
       try {
@@ -843,15 +1628,12 @@ export class JobQueueService {
       } catch (_) {}
 
       // Validate the regenerated code
-      const isValid =
-        provider === 'together'
-          ? togetherService.validateGeneratedCode(regeneratedCode.code)
-          : geminiService.validateGeneratedCode(regeneratedCode.code);
-
-      if (!isValid) {
+      const analysis = codeSafetyAnalyzer.analyze(regeneratedCode.code);
+      if (!analysis.valid) {
         logger.warn('Regenerated code failed validation', {
           jobId,
           regenerationCount: regenerationCount + 1,
+          findings: codeSafetyAnalyzer.summarize(analysis.findings),
         });
         return null;
       }
@@ -866,6 +1648,15 @@ export class JobQueueService {
         originalJobId: jobId, // Track the original failed job
         provider,
         model: job.data.model,
+        quality: job.data.quality,
+        fps: job.data.fps,
+        resolution: job.data.resolution,
+        format: job.data.format,
+        // A regenerated preview is still a preview; a regenerated final keeps showing its preview
+        phase: job.data.phase,
+        autoFinalize: job.data.autoFinalize,
+        previewJobId: job.data.previewJobId,
+        resourceProfile: job.data.resourceProfile,
       });
 
       logger.info('Code regeneration successful, new job created', {
@@ -885,6 +1676,21 @@ export class JobQueueService {
     }
   }
 
+  /**
+   * Publish a failed validation or render and try to regenerate its code.
+   * Cancelled jobs fail too; they are reported as cancelled and never regenerated.
+   */
+  private async reportFailedJob(jobId: string, error: Error): Promise<void> {
+    if (await this.isJobCancelled(jobId)) {
+      logger.info('Job cancelled', { jobId });
+      this.publishEvent(jobId, { type: 'status', status: 'cancelled' });
+      return;
+    }
+
+    this.publishEvent(jobId, { type: 'status', status: 'error', error: error.message });
+    await this.handleFailedJob(jobId, error);
+  }
+
   /**
    * Handle a failed job by attempting automatic code regeneration
    */
@@ -899,15 +1705,30 @@ export class JobQueueService {
       await new Promise(resolve => setTimeout(resolve, 2000));
 
       // Check if the job is actually in a failed state
-      const job = await this.queue.getJob(jobId);
+      const job = await this.getJob(jobId);
       if (!job) {
         logger.warn('Job not found during failed job handling', { jobId });
         return;
       }
 
-      const state = await job.getState();
-      if (state !== 'failed') {
-        logger.info('Job is no longer in failed state, skipping regeneration', { jobId, state });
+      if (!(await this.isJobFailed(job))) {
+        logger.info('Job is no longer in failed state, skipping regeneration', {
+          jobId,
+          state: await job.getState(),
+        });
+        return;
+      }
+
+      // Dry-run failures and the render worker's deferred failure both report the same job
+      const claimed = await this.redis.set(
+        `job:regenerating:${jobId}`,
+        '1',
+        'EX',
+        24 * 60 * 60,
+        'NX'
+      );
+      if (!claimed) {
+        logger.info('Automatic regeneration already handled for job', { jobId });
         return;
       }
 
@@ -961,12 +1782,132 @@ export class JobQueueService {
     }
   }
 
+  /**
+   * Publish an event on the job event bus without holding up the caller.
+   * The job history follows the same events.
+   */
+  private publishEvent(jobId: string, payload: JobEventPayload): void {
+    if (payload.type === 'status') {
+      this.recordHistory(jobId, { type: 'status', status: payload.status, error: payload.error });
+    } else if (payload.type === 'linked') {
+      this.recordHistory(jobId, {
+        type: 'link',
+        nextJobId: payload.nextJobId,
+        finalJobId: payload.finalJobId,
+      });
+    } else if (payload.type === 'progress') {
+      this.recordHistory(jobId, { type: 'progress', progress: payload.progress });
+    }
+
+    this.eventBus.publish(jobId, payload).catch(error => {
+      logger.warn('Failed to publish job event', { jobId, type: payload.type, error });
+    });
+  }
+
+  /**
+   * Update the job history, or queue the update for the API when this process doesn't keep
+   * it. Failures are logged; they never fail the job itself.
+   */
+  private recordHistory(jobId: string, update: JobHistoryUpdate): void {
+    if (!this.history) {
+      this.redis
+        .multi()
+        .rpush(HISTORY_UPDATES_KEY, JSON.stringify({ jobId, update }))
+        .ltrim(HISTORY_UPDATES_KEY, -HISTORY_UPDATES_MAX_LENGTH, -1)
+        .exec()
+        .catch(error => {
+          logger.warn('Failed to send job history update', { jobId, type: update.type, error });
+        });
+      return;
+    }
+    try {
+      this.history.apply(jobId, update);
+    } catch (error) {
+      logger.warn('Failed to update job history', { jobId, error });
+    }
+  }
+
+  /**
+   * Write the history updates other processes queue, in order, until close() drops the connection
+   */
+  private async applyHistoryUpdates(connection: Redis): Promise<void> {
+    while (this.historySubscriber === connection) {
+      let entry: [string, string] | null;
+      try {
+        entry = await connection.blpop(HISTORY_UPDATES_KEY, 5);
+      } catch (error) {
+        if (this.historySubscriber !== connection) return;
+        logger.warn('Failed to read job history updates', { error });
+        await new Promise(resolve => setTimeout(resolve, 1000));
+        continue;
+      }
+      if (!entry) continue;
+
+      let message: { jobId: string; update: JobHistoryUpdate };
+      try {
+        message = JSON.parse(entry[1]);
+      } catch (error) {
+        logger.warn('Ignoring malformed job history update', { error });
+        continue;
+      }
+      if (message.update.type !== 'created' && !this.getHistoryRecord(message.jobId)) {
+        // Its row was written by a replica with a database of its own
+        logger.warn('Job history update for an unknown job; API replicas must share the database', {
+          jobId: message.jobId,
+          type: message.update.type,
+          dbPath: config.jobHistory.dbPath,
+        });
+        continue;
+      }
+      this.recordHistory(message.jobId, message.update);
+    }
+  }
+
+  private getHistory(): JobHistoryStore {
+    if (!this.history) throw new Error('The job history is only kept by the API process');
+    return this.history;
+  }
+
+  private getHistoryRecord(jobId: string): JobHistoryRecord | null {
+    if (!this.history) return null;
+    try {
+      return this.history.getJob(jobId);
+    } catch (error) {
+      logger.warn('Failed to read job history', { jobId, error });
+      return null;
+    }
+  }
+
+  /**
+   * Recorded events of a job in order, optionally only those after a stream entry ID
+   */
+  async getJobEvents(jobId: string, afterId?: string): Promise<JobEvent[]> {
+    return this.eventBus.getEvents(jobId, afterId);
+  }
+
+  /**
+   * Receive a job's events as they are published. Resolves with a function that unsubscribes.
+   */
+  async subscribeToJobEvents(
+    jobId: string,
+    listener: JobEventListener
+  ): Promise<() => Promise<void>> {
+    return this.eventBus.subscribe(jobId, listener);
+  }
+
+  /**
+   * Receive the events of every job as they are published
+   */
+  async subscribeToAllJobEvents(listener: JobEventListener): Promise<() => Promise<void>> {
+    return this.eventBus.subscribeAll(listener);
+  }
+
   /**
    * Get Manim output for a job (if available)
    */
   async getJobManimOutput(jobId: string): Promise<any[]> {
     try {
-      const job = await this.queue.getJob(jobId);
+      const job = await this.getJob(jobId);
       if (!job) {
         return [];
       }
@@ -1030,27 +1971,49 @@ export class JobQueueService {
   }
 
   /**
-   * Reset stuck progress for a job
+   * Name of the render backend and whether its tooling is available
    */
-  async resetJobProgress(jobId: string): Promise<void> {
-    try {
-      const job = await this.queue.getJob(jobId);
-      if (!job) {
-        logger.warn('Job not found for progress reset', { jobId });
-        return;
-      }
+  async getRenderBackendHealth(): Promise<{ name: string; healthy: boolean }> {
+    return { name: this.renderBackend.name, healthy: await this.renderBackend.healthCheck() };
+  }
 
-      const currentState = await job.getState();
-      logger.info('Resetting job progress', { jobId, currentState });
+  /**
+   * Stop taking jobs and give running ones up to `gracePeriodMs` to finish. Jobs still running
+   * after that are stopped and re-queued, then every container this process started is killed.
+   */
+  async drain(gracePeriodMs: number): Promise<void> {
+    clearInterval(this.watchdogTimer);
+    if (!this.workersStarted) return;
+
+    const closing = Promise.all([
+      this.validationWorker.close(),
+      this.worker.close(),
+      this.cacheWorker.close(),
+    ]);
+
+    let graceTimer: NodeJS.Timeout | undefined;
+    const finished = await Promise.race([
+      closing.then(() => true),
+      new Promise<boolean>(resolve => {
+        graceTimer = setTimeout(() => resolve(false), gracePeriodMs);
+      }),
+    ]);
+    clearTimeout(graceTimer);
+
+    if (!finished) {
+      logger.warn('Shutdown grace period elapsed, re-queueing running jobs', {
+        jobIds: [...this.runningJobs.keys()],
+      });
+      for (const controller of this.runningJobs.values()) {
+        controller.abort(SHUTDOWN_ABORT);
+      }
+      await closing;
+    }
 
-      // Reset progress to 0
-      await job.updateProgress(0);
-      logger.info('Job progress reset successfully', { jobId });
+    try {
+      await this.renderBackend.killAll();
     } catch (error) {
-      logger.error('Failed to reset job progress', { jobId, error });
-      throw new Error(
-        `Failed to reset job progress: ${error instanceof Error ? error.message : 'Unknown error'}`
-      );
+      logger.error('Failed to kill render processes on shutdown', { error });
     }
   }
 
@@ -1058,8 +2021,26 @@ export class JobQueueService {
    * Clean up resources
    */
   async close(): Promise<void> {
-    await this.worker.close();
+    clearInterval(this.watchdogTimer);
+    if (this.workersStarted) {
+      await this.validationWorker.close();
+      await this.worker.close();
+      await this.cacheWorker.close();
+      await this.cancelSubscriber.quit();
+      clearInterval(this.heartbeatTimer);
+      await this.redis.del(this.getHeartbeatKey(config.server.instanceId)).catch(() => 0);
+    }
+    await this.flowProducer.close();
+    await this.validationQueue.close();
+    await this.cacheQueue.close();
     await this.queue.close();
+    await this.eventBus.close();
+    const historySubscriber = this.historySubscriber;
+    this.historySubscriber = undefined;
+    historySubscriber?.disconnect();
+    this.history?.close();
     await this.redis.quit();
   }
 }
+
+export const jobQueueService = new JobQueueService();
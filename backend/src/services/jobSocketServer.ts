@@ -0,0 +1,311 @@
+import { IncomingMessage, Server } from 'http';
+import { RawData, WebSocket, WebSocketServer } from 'ws';
+import { logger } from '../utils/logger';
+import {
+  JobControlAction,
+  JobEvent,
+  JobSocketClientMessage,
+  JobSocketServerMessage,
+} from '../types';
+import { JobNotCancellableError, JobQueueService } from './jobQueueService';
+
+const JOB_CONTROL_ACTIONS: JobControlAction[] = ['cancel', 'regenerate'];
+// Queue-wide subscribers get what a job list needs, not every line of output
+const QUEUE_EVENT_TYPES: JobEvent['type'][] = ['status', 'linked', 'progress'];
+// Per connection, like the REST limits for the same operations
+const MAX_SUBSCRIPTIONS = 200;
+const CONTROL_WINDOW_MS = 60 * 1000;
+const MAX_CONTROL_MESSAGES = 20;
+// Dead connections are dropped when they miss a ping
+const PING_INTERVAL_MS = 30000;
+
+export interface JobSocketServerOptions {
+  path: string;
+  /** Origins browsers may connect from, as for CORS. Clients that send no Origin are allowed. */
+  allowedOrigins: string[];
+}
+
+/**
+ * One client connection and the job event subscriptions it holds
+ */
+class JobSocketConnection {
+  private readonly jobSubscriptions = new Map<string, () => Promise<void>>();
+  private queueSubscription: (() => Promise<void>) | null = null;
+  private controlMessages: number[] = [];
+  alive = true;
+
+  constructor(
+    private readonly socket: WebSocket,
+    private readonly jobQueueService: JobQueueService
+  ) {}
+
+  async handleMessage(data: RawData): Promise<void> {
+    let message: JobSocketClientMessage;
+    try {
+      message = JSON.parse(data.toString());
+    } catch (_) {
+      this.send({ type: 'error', message: 'Messages must be JSON', code: 'INVALID_MESSAGE' });
+      return;
+    }
+
+    switch (message?.type) {
+      case 'subscribe':
+        await this.subscribe(message.jobIds);
+        break;
+      case 'unsubscribe':
+        await this.unsubscribe(message.jobIds);
+        break;
+      case 'subscribe-queue':
+        if (!this.queueSubscription) {
+          this.queueSubscription = await this.jobQueueService.subscribeToAllJobEvents(event => {
+            if (QUEUE_EVENT_TYPES.includes(event.type)) {
+              this.send({ type: 'queue-event', event });
+            }
+          });
+        }
+        this.sendSubscriptions();
+        break;
+      case 'unsubscribe-queue':
+        await this.queueSubscription?.();
+        this.queueSubscription = null;
+        this.sendSubscriptions();
+        break;
+      default:
+        if (JOB_CONTROL_ACTIONS.includes(message?.type)) {
+          await this.control(message as Extract<JobSocketClientMessage, { jobId: string }>);
+        } else {
+          this.send({
+            type: 'error',
+            message: `Unknown message type: ${String((message as { type?: unknown })?.type)}`,
+            code: 'UNKNOWN_MESSAGE_TYPE',
+          });
+        }
+    }
+  }
+
+  /**
+   * Drop every subscription once the socket has closed
+   */
+  async close(): Promise<void> {
+    const subscriptions = [...this.jobSubscriptions.values()];
+    this.jobSubscriptions.clear();
+    if (this.queueSubscription) subscriptions.push(this.queueSubscription);
+    this.queueSubscription = null;
+    await Promise.all(subscriptions.map(unsubscribe => unsubscribe()));
+  }
+
+  private async subscribe(jobIds: unknown): Promise<void> {
+    if (!this.isJobIdList(jobIds)) return;
+
+    const newJobIds = jobIds.filter(jobId => !this.jobSubscriptions.has(jobId));
+    if (this.jobSubscriptions.size + newJobIds.length > MAX_SUBSCRIPTIONS) {
+      this.send({
+        type: 'error',
+        message: `A connection can follow at most ${MAX_SUBSCRIPTIONS} jobs`,
+        code: 'TOO_MANY_SUBSCRIPTIONS',
+      });
+      return;
+    }
+
+    for (const jobId of newJobIds) {
+      const unsubscribe = await this.jobQueueService.subscribeToJobEvents(jobId, event =>
+        this.send({ type: 'job-event', event })
+      );
+      this.jobSubscriptions.set(jobId, unsubscribe);
+    }
+    this.sendSubscriptions();
+  }
+
+  private async unsubscribe(jobIds: unknown): Promise<void> {
+    if (!this.isJobIdList(jobIds)) return;
+
+    for (const jobId of jobIds) {
+      const unsubscribe = this.jobSubscriptions.get(jobId);
+      this.jobSubscriptions.delete(jobId);
+      await unsubscribe?.();
+    }
+    this.sendSubscriptions();
+  }
+
+  /**
+   * Run a job operation and answer with its result
+   */
+  private async control(
+    message: Extract<JobSocketClientMessage, { jobId: string }>
+  ): Promise<void> {
+    const { type: action, jobId, requestId } = message;
+
+    if (!jobId || typeof jobId !== 'string') {
+      this.send({
+        type: 'error',
+        message: 'Valid job ID is required',
+        code: 'INVALID_JOB_ID',
+        requestId,
+      });
+      return;
+    }
+
+    const now = Date.now();
+    this.controlMessages = this.controlMessages.filter(time => now - time < CONTROL_WINDOW_MS);
+    if (this.controlMessages.length >= MAX_CONTROL_MESSAGES) {
+      this.send({
+        type: 'error',
+        message: 'Too many job control requests, please try again later.',
+        code: 'RATE_LIMIT_EXCEEDED',
+        requestId,
+      });
+      return;
+    }
+    this.controlMessages.push(now);
+
+    logger.info('Job control requested over WebSocket', { jobId, action });
+
+    try {
+      if (action === 'cancel') {
+        const cancellation = await this.jobQueueService.cancelJob(jobId);
+        if (cancellation) {
+          this.send({ type: 'result', action, jobId, requestId, cancellation });
+        } else {
+          this.send({ type: 'error', message: 'Job not found', code: 'JOB_NOT_FOUND', requestId });
+        }
+      } else {
+        const newJobId = await this.jobQueueService.regenerateCodeAndRetry(jobId);
+        if (newJobId) {
+          this.send({ type: 'result', action, jobId, requestId, newJobId });
+        } else {
+          this.send({
+            type: 'error',
+            message:
+              'Code regeneration failed. The job may not be in a failed state, or maximum regeneration attempts have been reached.',
+            code: 'REGENERATION_FAILED',
+            requestId,
+          });
+        }
+      }
+    } catch (error) {
+      if (error instanceof JobNotCancellableError) {
+        this.send({
+          type: 'error',
+          message: error.message,
+          code: 'JOB_NOT_CANCELLABLE',
+          requestId,
+        });
+        return;
+      }
+
+      logger.error('Job control over WebSocket failed', { jobId, action, error });
+      this.send({
+        type: 'error',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        code: 'JOB_CONTROL_FAILED',
+        requestId,
+      });
+    }
+  }
+
+  private isJobIdList(jobIds: unknown): jobIds is string[] {
+    if (Array.isArray(jobIds) && jobIds.every(jobId => typeof jobId === 'string' && jobId)) {
+      return true;
+    }
+    this.send({
+      type: 'error',
+      message: 'jobIds must be an array of job IDs',
+      code: 'INVALID_JOB_ID',
+    });
+    return false;
+  }
+
+  private sendSubscriptions(): void {
+    this.send({
+      type: 'subscriptions',
+      jobIds: [...this.jobSubscriptions.keys()],
+      queue: !!this.queueSubscription,
+    });
+  }
+
+  private send(message: JobSocketServerMessage): void {
+    if (this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+}
+
+/**
+ * WebSocket API next to the REST API: one connection can follow many jobs, receive
+ * queue-wide events and cancel or regenerate jobs.
+ */
+export class JobSocketServer {
+  private readonly server: WebSocketServer;
+  private readonly connections = new Map<WebSocket, JobSocketConnection>();
+  private readonly pingInterval: NodeJS.Timeout;
+
+  constructor(
+    httpServer: Server,
+    private readonly jobQueueService: JobQueueService,
+    private readonly options: JobSocketServerOptions
+  ) {
+    this.server = new WebSocketServer({
+      server: httpServer,
+      path: options.path,
+      verifyClient: ({ req }: { req: IncomingMessage }) => this.isAllowedOrigin(req),
+    });
+    this.server.on('connection', (socket, req) => this.handleConnection(socket, req));
+
+    this.pingInterval = setInterval(() => {
+      for (const [socket, connection] of this.connections) {
+        if (!connection.alive) {
+          socket.terminate();
+          continue;
+        }
+        connection.alive = false;
+        socket.ping();
+      }
+    }, PING_INTERVAL_MS);
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.pingInterval);
+    for (const socket of this.connections.keys()) {
+      socket.close(1001, 'Server shutting down');
+    }
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  private handleConnection(socket: WebSocket, req: IncomingMessage): void {
+    const connection = new JobSocketConnection(socket, this.jobQueueService);
+    this.connections.set(socket, connection);
+    logger.debug('WebSocket client connected', { ip: req.socket.remoteAddress });
+
+    // Messages are handled in order, so a subscribe is active before the next message runs
+    let handling = Promise.resolve();
+    socket.on('message', data => {
+      handling = handling
+        .then(() => connection.handleMessage(data))
+        .catch(error => {
+          logger.error('Failed to handle WebSocket message', { error });
+        });
+    });
+    socket.on('pong', () => {
+      connection.alive = true;
+    });
+    socket.on('close', () => {
+      this.connections.delete(socket);
+      handling
+        .then(() => connection.close())
+        .catch(error => {
+          logger.warn('Failed to drop WebSocket subscriptions', { error });
+        });
+    });
+    socket.on('error', error => {
+      logger.warn('WebSocket error', { error: error.message });
+    });
+  }
+
+  private isAllowedOrigin(req: IncomingMessage): boolean {
+    const origin = req.headers.origin;
+    if (!origin || this.options.allowedOrigins.includes(origin)) return true;
+
+    logger.warn('Rejected WebSocket connection from disallowed origin', { origin });
+    return false;
+  }
+}
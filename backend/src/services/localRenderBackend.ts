@@ -0,0 +1,132 @@
+import { ChildProcess, spawn } from 'child_process';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { parseSize } from '../utils/byteSize';
+import { ManimRendererService, SandboxResult, SandboxRun } from './manimRendererService';
+
+// Host directories the sandbox needs to run Python, Manim, ffmpeg and TeX
+const SYSTEM_PATHS = ['/bin', '/sbin', '/lib', '/lib32', '/lib64', '/etc', '/opt'];
+
+/**
+ * Runs a locally installed manim inside a bubblewrap sandbox, for hosts where Docker-in-Docker
+ * isn't allowed. The sandbox has no network, a read-only view of the system and only the job's
+ * directories writable; memory, CPU time and processes are capped with ulimit. CPU count and
+ * scratch size aren't enforced, and peak usage isn't measured.
+ */
+export class LocalRenderBackend extends ManimRendererService {
+  readonly name = 'local';
+
+  /** Sandbox processes currently running, by job ID */
+  private readonly processes = new Map<string, Set<ChildProcess>>();
+
+  protected async runSandboxed(run: SandboxRun): Promise<SandboxResult> {
+    const args = [
+      '--die-with-parent',
+      '--new-session',
+      '--unshare-all', // Includes the network namespace, so there's no network
+      '--clearenv',
+      '--setenv',
+      'PATH',
+      process.env.PATH || '/usr/local/bin:/usr/bin:/bin',
+      '--setenv',
+      'HOME',
+      '/tmp',
+      '--ro-bind',
+      '/usr',
+      '/usr',
+      ...SYSTEM_PATHS.flatMap(dir => ['--ro-bind-try', dir, dir]),
+      ...config.localSandbox.readOnlyPaths.flatMap(dir => ['--ro-bind', dir, dir]),
+      '--proc',
+      '/proc',
+      '--dev',
+      '/dev',
+      '--tmpfs',
+      '/tmp',
+      '--tmpfs',
+      '/var/tmp',
+    ];
+
+    if (run.asRoot) {
+      // Root only within the sandbox's user namespace
+      args.push('--uid', '0', '--gid', '0');
+    }
+    if (run.outputDir) {
+      args.push('--bind', run.outputDir, '/manim');
+    } else {
+      args.push('--dir', '/manim');
+    }
+    if (run.tempDir) {
+      args.push(run.tempReadOnly ? '--ro-bind' : '--bind', run.tempDir, '/manim/temp');
+    }
+
+    // ulimit -t caps CPU seconds across all cores, so the allowance scales with the CPU count
+    const memoryKb = Math.floor(parseSize(run.memory) / 1024);
+    const cpuSeconds = Math.ceil((run.timeoutMs / 1000) * run.cpus);
+    // The process limit is -u in bash and -p in dash
+    const processLimit = `{ ulimit -u ${run.pidsLimit} 2>/dev/null || ulimit -p ${run.pidsLimit}; }`;
+    args.push(
+      '--chdir',
+      '/manim',
+      '--',
+      'sh',
+      '-c',
+      `ulimit -v ${memoryKb} && ulimit -t ${cpuSeconds} && ${processLimit} && exec "$@"`,
+      'sandbox',
+      ...run.command
+    );
+
+    logger.debug('Starting local sandbox', { jobId: run.jobId, name: run.name, memoryKb });
+
+    const children = this.processes.get(run.jobId) || new Set<ChildProcess>();
+    this.processes.set(run.jobId, children);
+    let child: ChildProcess | undefined;
+
+    try {
+      return await this.runProcess(
+        config.localSandbox.bwrapPath,
+        args,
+        run,
+        spawned => {
+          child = spawned;
+          children.add(spawned);
+        },
+        // Killing bwrap takes the whole sandbox down with it (--die-with-parent)
+        () => {}
+      );
+    } finally {
+      if (child) children.delete(child);
+      if (children.size === 0) {
+        this.processes.delete(run.jobId);
+      }
+    }
+  }
+
+  async kill(jobId: string): Promise<void> {
+    for (const child of this.processes.get(jobId) || []) {
+      child.kill('SIGKILL');
+    }
+  }
+
+  async killAll(): Promise<void> {
+    await Promise.all([...this.processes.keys()].map(jobId => this.kill(jobId)));
+  }
+
+  /**
+   * Check that bubblewrap and manim are both installed
+   */
+  async healthCheck(): Promise<boolean> {
+    const results = await Promise.all([
+      this.commandSucceeds(config.localSandbox.bwrapPath, ['--version']),
+      this.commandSucceeds('manim', ['--version']),
+    ]);
+    return results.every(Boolean);
+  }
+
+  private commandSucceeds(command: string, args: string[]): Promise<boolean> {
+    return new Promise(resolve => {
+      const child = spawn(command, args, { stdio: 'ignore' });
+      child.on('close', code => resolve(code === 0));
+      child.on('error', () => resolve(false));
+    });
+  }
+}
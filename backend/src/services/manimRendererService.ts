@@ -1,34 +1,221 @@
-import { spawn } from 'child_process';
+import { ChildProcess, spawn } from 'child_process';
 import { promises as fs } from 'fs';
 import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import { config, getOutputPath } from '../config';
 import { logger } from '../utils/logger';
 import { JobLogger } from '../utils/jobLogger';
+import { ManimProgressParser, describeProgressEvent } from '../utils/manimProgressParser';
+import { getResourceProfile } from '../utils/resourceProfiles';
+import { codeSafetyAnalyzer } from './codeSafetyAnalyzer';
+import { renderScheduler } from './renderScheduler';
+import {
+  CodeAnalysisResult,
+  ManimOutput,
+  ManimProgressEvent,
+  RenderBackend,
+  RenderFormat,
+  RenderResult,
+  RenderSettings,
+  ResourceProfile,
+  ResourceUsage,
+  SceneClip,
+  ScriptError,
+} from '../types';
+
+/**
+ * A single Scene class to render and where its output goes
+ */
+interface SceneTarget {
+  name: string;
+  /** Output file name without extension */
+  outputName: string;
+  /** Appended to the process name so scenes of one job can render side by side */
+  processSuffix: string;
+}
+
+/**
+ * One sandboxed process, described independently of how a backend isolates it.
+ * Every backend presents the same layout: the job's output directory is the working
+ * directory at /manim, and the directory holding animation.py is at /manim/temp.
+ */
+export interface SandboxRun {
+  /** Unique per process (the container name for Docker); always contains the job ID */
+  name: string;
+  jobId: string;
+  /** Queue the job came from, recorded on the process (e.g. as a container label) */
+  queue: string;
+  command: string[];
+  /** Mounted read-write at /manim, the working directory */
+  outputDir?: string;
+  /** Mounted at /manim/temp */
+  tempDir?: string;
+  tempReadOnly?: boolean;
+  /** Memory limit, e.g. '4g' */
+  memory: string;
+  cpus: number;
+  pidsLimit: number;
+  /** Size of the scratch /tmp, e.g. '500m' */
+  scratchSize: string;
+  timeoutMs: number;
+  /** Run as root; used to get past permission problems on retries */
+  asRoot?: boolean;
+  onStdout?: (chunk: string) => void;
+  onStderr?: (chunk: string) => void;
+  /** Kills the process when aborted; the run then resolves as usual */
+  signal?: AbortSignal;
+}
 
-interface RenderResult {
-  outputPath: string;
-  duration: number;
+export interface SandboxResult {
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  /** stdout and stderr interleaved in arrival order */
+  output: string;
+  timedOut: boolean;
+  /** Killed for exceeding the memory limit, when the backend can tell */
+  oomKilled?: boolean;
+  /** Highest usage sampled while it ran, when the backend can measure it */
+  peakUsage?: ResourceUsage;
 }
 
-interface ManimOutput {
-  type: 'stdout' | 'stderr' | 'progress' | 'info';
-  data: string;
-  timestamp: Date;
+/**
+ * Raised by a render or dry run that was stopped through its AbortSignal
+ */
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Job was cancelled');
+    this.name = 'JobCancelledError';
+  }
 }
 
-export class ManimRendererService {
-  private readonly dockerImage = 'manimcommunity/manim:latest';
-  private readonly containerTimeout = 3000000; // 5 minutes - increased for complex animations
+// File extension Manim (or our packaging step) produces for each output format
+const OUTPUT_EXTENSIONS: Record<RenderFormat, string> = {
+  mp4: 'mp4',
+  webm: 'webm',
+  gif: 'gif',
+  png: 'zip', // PNG sequences are zipped into a single download
+};
+
+// Same archive as `python -m zipfile -c <zip> <dir>`, printing each file as it is added
+const ZIP_FRAMES_SCRIPT = `
+import os, sys, zipfile
+def add(zf, path, name):
+    if os.path.isfile(path):
+        zf.write(path, name, zipfile.ZIP_DEFLATED)
+        print(name, flush=True)
+    elif os.path.isdir(path):
+        zf.write(path, name)
+        for entry in sorted(os.listdir(path)):
+            add(zf, os.path.join(path, entry), os.path.join(name, entry))
+with zipfile.ZipFile(sys.argv[1], 'w') as zf:
+    add(zf, sys.argv[2], os.path.basename(sys.argv[2]))
+`;
+// Scene joins report progress at most this often; enough to keep the stall watchdog off them
+const JOIN_PROGRESS_INTERVAL_MS = 10000;
+
+/**
+ * Everything about rendering that doesn't depend on where Manim runs: safety checks,
+ * Manim arguments, multi-scene orchestration, progress parsing and output discovery.
+ * Backends only implement how a command is run in a sandbox.
+ */
+export abstract class ManimRendererService implements RenderBackend {
+  abstract readonly name: string;
+
   private readonly maxRetries = 1; // Let LLM regeneration handle subsequent attempts
+  private readonly dryRunMemory = '1g'; // No frames are encoded, so validation needs far less
+  private readonly dryRunPidsLimit = 256;
+  private readonly concatTimeout = 600000; // 10 minutes to join scene clips
+
+  /**
+   * Run a command in the backend's sandbox, resolving once it exits or is killed on timeout
+   */
+  protected abstract runSandboxed(run: SandboxRun): Promise<SandboxResult>;
+
+  abstract kill(jobId: string): Promise<void>;
+
+  abstract killAll(): Promise<void>;
+
+  abstract healthCheck(): Promise<boolean>;
 
   /**
-   * Render a Manim animation using Docker for safety
+   * Spawn a backend's sandbox process and collect its output.
+   * On timeout or abort, onTimeout stops whatever the process started and the process itself
+   * is killed.
+   */
+  protected runProcess(
+    file: string,
+    args: string[],
+    run: SandboxRun,
+    onSpawn: (child: ChildProcess) => void,
+    onTimeout: () => void
+  ): Promise<SandboxResult> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(file, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+      let stdout = '';
+      let stderr = '';
+      let output = '';
+      let timedOut = false;
+      onSpawn(child);
+
+      const timeoutId = setTimeout(() => {
+        timedOut = true;
+        logger.warn('Sandbox process timed out, killing it', {
+          jobId: run.jobId,
+          name: run.name,
+          backend: this.name,
+        });
+        onTimeout();
+        child.kill('SIGKILL');
+      }, run.timeoutMs);
+      const onAbort = () => {
+        logger.info('Sandbox process cancelled, killing it', {
+          jobId: run.jobId,
+          name: run.name,
+          backend: this.name,
+        });
+        onTimeout();
+        child.kill('SIGKILL');
+      };
+      run.signal?.addEventListener('abort', onAbort, { once: true });
+      if (run.signal?.aborted) onAbort();
+
+      child.stdout?.on('data', data => {
+        const chunk = data.toString();
+        stdout += chunk;
+        output += chunk;
+        run.onStdout?.(chunk);
+      });
+      child.stderr?.on('data', data => {
+        const chunk = data.toString();
+        stderr += chunk;
+        output += chunk;
+        run.onStderr?.(chunk);
+      });
+      child.on('close', exitCode => {
+        clearTimeout(timeoutId);
+        run.signal?.removeEventListener('abort', onAbort);
+        resolve({ exitCode, stdout, stderr, output, timedOut });
+      });
+      child.on('error', error => {
+        clearTimeout(timeoutId);
+        run.signal?.removeEventListener('abort', onAbort);
+        reject(new Error(`${this.name} sandbox process error: ${error.message}`));
+      });
+    });
+  }
+
+  /**
+   * Render a Manim animation in the backend's sandbox, within the limits of `profile`.
+   * Aborting `signal` kills the running processes and rejects with a JobCancelledError.
    */
   async renderAnimation(
     code: string,
     jobId: string,
-    onOutput?: (output: ManimOutput) => void
+    onOutput?: (output: ManimOutput) => void,
+    settings: RenderSettings = {},
+    signal?: AbortSignal,
+    profile: ResourceProfile = getResourceProfile()
   ): Promise<RenderResult> {
     const startTime = Date.now();
     const tempDir = path.join(process.cwd(), 'temp', jobId);
@@ -38,11 +225,11 @@ export class ManimRendererService {
       // Create temporary and output directories
       await this.ensureDirectories(tempDir, outputDir);
 
-      // Ensure proper permissions for Docker mounting
+      // Ensure proper permissions for the sandbox
       await this.ensureDirectoryPermissions(tempDir, outputDir);
 
-      // Validate the Manim code for potential issues
-      this.validateManimCode(code);
+      // Refuse to render code that fails static safety analysis
+      const { sceneNames = [] } = this.validateManimCode(code, jobId);
 
       // Write the Manim code to a temporary file
       const codeFilePath = path.join(tempDir, 'animation.py');
@@ -64,19 +251,49 @@ export class ManimRendererService {
             }
           }
 
-          // Render using Docker
-          const result = await this.renderWithDocker(tempDir, outputDir, jobId, onOutput, attempt);
+          // Render in the sandbox; multi-scene scripts render each scene and join the clips
+          const result =
+            sceneNames.length > 1
+              ? await this.renderScenes(
+                  tempDir,
+                  outputDir,
+                  jobId,
+                  sceneNames,
+                  onOutput,
+                  attempt,
+                  settings,
+                  profile,
+                  signal
+                )
+              : await this.renderScene(
+                  tempDir,
+                  outputDir,
+                  jobId,
+                  onOutput,
+                  attempt,
+                  settings,
+                  profile,
+                  sceneNames.length === 1
+                    ? { name: sceneNames[0], outputName: 'outputs', processSuffix: '' }
+                    : undefined,
+                  signal
+                );
 
           const duration = Date.now() - startTime;
           logger.info('Animation rendered successfully', {
             jobId,
             duration,
             outputPath: result.outputPath,
+            scenes: sceneNames.length,
             attempts: attempt,
+            profile: profile.name,
+            resourceUsage: result.resourceUsage,
           });
 
           return result;
         } catch (error) {
+          if (error instanceof JobCancelledError) throw error;
+
           lastError = error instanceof Error ? error : new Error(String(error));
           logger.warn(`Manim render attempt ${attempt} failed`, {
             jobId,
@@ -106,304 +323,358 @@ export class ManimRendererService {
   }
 
   /**
-   * Render animation using Docker container
+   * Execute the script with `manim --dry_run` in a small, short-lived sandbox.
+   * Catches syntax and runtime errors (e.g. NameError) before a full render is started.
+   * Resolves with the script's error, or null when the dry run passed.
+   * Rejects only when the sandbox itself could not run the check, or with a
+   * JobCancelledError once `signal` is aborted.
    */
-  private async renderWithDocker(
-    tempDir: string,
-    outputDir: string,
-    jobId: string,
-    onOutput?: (output: ManimOutput) => void,
-    attempt: number = 1
-  ): Promise<RenderResult> {
-    return new Promise((resolve, reject) => {
-      const containerName = `manim-render-${jobId}`;
-
-      // Check if we're running inside a Docker container
-      const isRunningInContainer = this.isRunningInDockerContainer();
-
-      // Docker run command for Manim - with proper flag ordering
-      const dockerArgs = [
-        'run',
-        '--rm',
-        '--name',
-        containerName,
-        '--memory',
-        '4g', // Increased memory for video encoding
-        '--cpus',
-        '2',
-        '--network',
-        'none', // Isolate network
-        '--tmpfs',
-        '/tmp:rw,noexec,nosuid,size=500m', // Increased temp space
-        '--tmpfs',
-        '/var/tmp:rw,noexec,nosuid,size=500m', // Additional temp space
-        '-w',
-        '/manim',
-        this.dockerImage,
-        'manim',
-        '-o',
-        '/manim/outputs.mp4', // Output file - Manim v0.19.0 creates the file directly
-        '--format',
-        'mp4',
-        '--quality',
-        attempt === 1 ? 'm' : 'l', // Use valid quality values for v0.19.0: l, m, h, p, k
-        '--disable_caching', // Disable caching to avoid conflicts
-        '--flush_cache', // Flush cache before rendering
-        'temp/animation.py', // Input file comes LAST, now in temp subdirectory
-      ];
+  async dryRun(code: string, jobId: string, signal?: AbortSignal): Promise<ScriptError | null> {
+    const tempDir = path.join(process.cwd(), 'temp', `${jobId}-dryrun`);
+    const startTime = Date.now();
 
-      // Handle Docker-in-Docker scenario
-      if (isRunningInContainer) {
-        // We're running inside a container, need to use host paths
-        // Mount the Docker socket to allow spawning containers
-        dockerArgs.splice(6, 0, '-v', '/var/run/docker.sock:/var/run/docker.sock');
+    try {
+      await this.ensureDirectories(tempDir);
+      const { sceneNames = [] } = this.validateManimCode(code, jobId);
+      await fs.writeFile(path.join(tempDir, 'animation.py'), code, 'utf8');
 
-        // Use host paths for volumes (these are the paths on the host system)
-        const hostTempDir = tempDir.replace('/app/', './');
-        const hostOutputDir = outputDir.replace('/app/', './');
+      // Manim prints its tracebacks to stdout, so both streams are kept (as `output`)
+      const { exitCode, output, timedOut } = await this.runScheduled({
+        name: `manim-validate-${jobId}`,
+        jobId,
+        queue: 'manim-validation',
+        command: [
+          'manim',
+          '--dry_run',
+          '--disable_caching',
+          'temp/animation.py',
+          // Name every scene, otherwise Manim prompts for one when there are several
+          ...sceneNames,
+        ],
+        tempDir,
+        tempReadOnly: true,
+        memory: this.dryRunMemory,
+        cpus: 1,
+        pidsLimit: this.dryRunPidsLimit,
+        scratchSize: '100m',
+        timeoutMs: config.validation.timeoutMs,
+        signal,
+      });
 
-        dockerArgs.splice(8, 0, '-v', `${hostTempDir}:/manim/temp:rw`);
-        // Mount output directory to /manim so the output file appears there
-        dockerArgs.splice(10, 0, '-v', `${hostOutputDir}:/manim:rw`);
+      const duration = Date.now() - startTime;
+      this.throwIfCancelled(jobId, signal);
+
+      if (timedOut) {
+        await JobLogger.append(jobId, 'Dry run timed out', { duration });
+        return {
+          type: 'Timeout',
+          message: `Dry run did not finish within ${Math.round(config.validation.timeoutMs / 1000)}s; the scene may loop forever or be far too long`,
+        };
+      }
 
-        logger.debug('Running in Docker-in-Docker mode with host paths', {
-          hostTempDir,
-          hostOutputDir,
-          jobId,
-          isRunningInContainer,
-        });
-      } else {
-        // Running locally, use direct paths
-        dockerArgs.splice(6, 0, '-v', `${tempDir}:/manim/temp:rw`);
-        // Mount output directory to /manim so the output file appears there
-        dockerArgs.splice(8, 0, '-v', `${outputDir}:/manim:rw`);
-
-        logger.debug('Running in local mode with direct paths', {
-          tempDir,
-          outputDir,
-          jobId,
-          isRunningInContainer,
-        });
+      if (exitCode === 0) {
+        logger.info('Dry run passed', { jobId, duration });
+        await JobLogger.append(jobId, 'Dry run passed', { duration });
+        return null;
       }
 
-      // Handle user mapping for cross-platform compatibility
-      if (attempt > 1) {
-        // For retry attempts, run as root to bypass permission issues
-        dockerArgs.splice(6, 0, '--user', '0:0');
-        logger.debug('Retrying with root user for permission issues', {
-          jobId,
-          attempt,
-        });
-      } else {
-        // First attempt: try to run as the same user as the backend process
-        try {
-          // Cross-platform user ID handling
-          let userId: string;
-          let groupId: string;
+      // 125-127 come from the sandbox itself (daemon error, image or command not runnable)
+      if (exitCode !== null && exitCode >= 125 && exitCode <= 127) {
+        throw new Error(
+          `${this.name} backend could not run dry run (exit code ${exitCode}): ${output.trim()}`
+        );
+      }
 
-          if (process.platform === 'linux') {
-            // On Linux, use actual process UID/GID
-            userId = (process.getuid?.() || 1000).toString();
-            groupId = (process.getgid?.() || 1000).toString();
-          } else {
-            // On Windows/macOS, use default values since Docker Desktop handles permissions differently
-            userId = '1000';
-            groupId = '1000';
-          }
+      const scriptError = this.parseScriptError(output, exitCode);
+      logger.info('Dry run found a script error', { jobId, duration, scriptError });
+      await JobLogger.append(jobId, 'Dry run failed', {
+        scriptError,
+        output: output.substring(0, 4000),
+      });
+      return scriptError;
+    } catch (error) {
+      // Static analysis failures are script errors too; anything else is infrastructure
+      if (error instanceof Error && error.message.startsWith('Code safety check failed')) {
+        return { type: 'SafetyCheck', message: error.message };
+      }
+      throw error;
+    } finally {
+      await this.cleanupTempFiles(tempDir);
+    }
+  }
 
-          // Override with environment variables if set
-          userId = process.env.BACKEND_UID || userId;
-          groupId = process.env.BACKEND_GID || groupId;
+  /**
+   * Extract the exception and the offending line of animation.py from a Python or Rich traceback
+   */
+  private parseScriptError(output: string, exitCode: number | null): ScriptError {
+    // Strip ANSI colours and Rich box-drawing borders
+    const lines = output
+      // eslint-disable-next-line no-control-regex
+      .replace(/\x1b\[[0-9;]*m/g, '')
+      .split('\n')
+      .map(line => line.replace(/^[\s│|]+|[\s│|]+$/g, ''))
+      .filter(Boolean);
+
+    let type = 'Error';
+    let message = lines.length > 0 ? lines[lines.length - 1] : `Exited with code ${exitCode}`;
+    for (let i = lines.length - 1; i >= 0; i--) {
+      const match = lines[i].match(/^([A-Za-z_][\w.]*(?:Error|Exception)):\s*(.*)$/);
+      if (match) {
+        type = match[1];
+        message = match[2] || match[1];
+        break;
+      }
+    }
 
-          dockerArgs.splice(6, 0, '--user', `${userId}:${groupId}`);
+    // The innermost frame in the user's script is the last mention of animation.py
+    const frames = [...output.matchAll(/animation\.py["']?(?:, line |:)(\d+)/g)];
+    const line = frames.length > 0 ? parseInt(frames[frames.length - 1][1], 10) : undefined;
 
-          logger.debug('Running Manim container with user mapping', {
-            uid: userId,
-            gid: groupId,
-            platform: process.platform,
+    return { type, message, ...(line !== undefined ? { line } : {}) };
+  }
+
+  /**
+   * Render each scene of a multi-scene script to its own clip, then join the clips in order.
+   * Up to `rendering.sceneParallelism` scenes render at the same time; the first one to fail
+   * stops the rest.
+   */
+  private async renderScenes(
+    tempDir: string,
+    outputDir: string,
+    jobId: string,
+    sceneNames: string[],
+    onOutput: ((output: ManimOutput) => void) | undefined,
+    attempt: number,
+    settings: RenderSettings,
+    profile: ResourceProfile,
+    signal?: AbortSignal
+  ): Promise<RenderResult> {
+    const targets: SceneTarget[] = sceneNames.map((name, index) => ({
+      name,
+      outputName: `scene-${index + 1}-${name}`,
+      processSuffix: `-scene-${index + 1}`,
+    }));
+    const parallelism = Math.max(1, config.rendering.sceneParallelism);
+    const scenes: SceneClip[] = [];
+    let resourceUsage: ResourceUsage | undefined;
+
+    await JobLogger.append(jobId, 'Rendering multiple scenes', { sceneNames, parallelism });
+
+    for (let i = 0; i < targets.length; i += parallelism) {
+      this.throwIfCancelled(jobId, signal);
+      const batch = targets.slice(i, i + parallelism);
+      if (onOutput) {
+        onOutput({
+          type: 'info',
+          data: `Rendering scene ${batch.map(target => target.name).join(', ')} (${i + 1}/${targets.length})`,
+          timestamp: new Date(),
+        });
+      }
+
+      // Scenes of a batch stop together: on the job's cancellation or the first scene to fail
+      const batchController = new AbortController();
+      const abortBatch = () => batchController.abort(signal?.reason);
+      signal?.addEventListener('abort', abortBatch, { once: true });
+      let failure: { scene: string; error: unknown } | undefined;
+
+      const results = await Promise.allSettled(
+        batch.map(target =>
+          this.renderScene(
+            tempDir,
+            outputDir,
             jobId,
-          });
-        } catch (error) {
-          logger.warn('Failed to set user mapping, running as default', {
-            error,
+            onOutput,
+            attempt,
+            settings,
+            profile,
+            target,
+            batchController.signal
+          ).catch(error => {
+            if (!batchController.signal.aborted) {
+              failure = { scene: target.name, error };
+              batchController.abort();
+            }
+            throw error;
+          })
+        )
+      );
+      signal?.removeEventListener('abort', abortBatch);
+
+      this.throwIfCancelled(jobId, signal);
+      if (failure) {
+        if (batch.length > 1) {
+          logger.info('Scene failed, stopped the rest of its batch', {
             jobId,
+            scene: failure.scene,
+          });
+          await JobLogger.append(jobId, 'Scene failed, stopped the rest of its batch', {
+            scene: failure.scene,
           });
         }
+        throw failure.error;
       }
-
-      const dockerProcess = spawn('docker', dockerArgs, {
-        stdio: ['pipe', 'pipe', 'pipe'],
+      results.forEach((result, index) => {
+        if (result.status !== 'fulfilled') return;
+        scenes.push({ name: batch[index].name, outputPath: result.value.outputPath });
+        resourceUsage = this.maxUsage(resourceUsage, result.value.resourceUsage);
       });
+    }
 
-      let stdout = '';
-      let stderr = '';
-      let isResolved = false;
-      let timeoutId: NodeJS.Timeout;
+    if (onOutput) {
+      onOutput({
+        type: 'info',
+        data: `Joining ${scenes.length} scenes`,
+        timestamp: new Date(),
+      });
+    }
 
-      // Set up timeout handler
-      timeoutId = setTimeout(async () => {
-        if (!isResolved) {
-          isResolved = true;
-          logger.warn('Docker process timed out, killing container', { jobId, containerName });
+    const joined = await this.concatenateScenes(
+      outputDir,
+      jobId,
+      scenes,
+      settings.format || 'mp4',
+      profile,
+      onOutput,
+      signal
+    );
+    await JobLogger.append(jobId, 'Joined scene clips', { outputPath: joined.outputPath, scenes });
+
+    return {
+      outputPath: joined.outputPath,
+      duration: 0,
+      scenes,
+      resourceUsage: this.maxUsage(resourceUsage, joined.resourceUsage),
+    };
+  }
 
-          try {
-            // Kill the Docker container forcefully
-            const killProcess = spawn('docker', ['kill', containerName]);
-            await new Promise<void>(resolveKill => {
-              killProcess.on('close', () => {
-                logger.debug('Container killed due to timeout', { jobId, containerName });
-                resolveKill();
-              });
-            });
+  /**
+   * Join scene clips into the job's single output with ffmpeg inside the sandbox.
+   * PNG sequences are zipped together instead. Progress goes to `onOutput` as info lines.
+   */
+  private async concatenateScenes(
+    outputDir: string,
+    jobId: string,
+    scenes: SceneClip[],
+    format: RenderFormat,
+    profile: ResourceProfile,
+    onOutput?: (output: ManimOutput) => void,
+    signal?: AbortSignal
+  ): Promise<{ outputPath: string; resourceUsage?: ResourceUsage }> {
+    const outputPath = `outputs.${OUTPUT_EXTENSIONS[format]}`;
+    let command: string[];
+
+    if (format === 'png') {
+      command = ['python', '-c', ZIP_FRAMES_SCRIPT, outputPath, 'media/images'];
+    } else {
+      // The concat demuxer reads a list of files; every clip shares codec, size and frame rate
+      const listFile = 'scenes.txt';
+      await fs.writeFile(
+        path.join(outputDir, listFile),
+        scenes.map(scene => `file '${scene.outputPath}'`).join('\n'),
+        'utf8'
+      );
+      command = [
+        'ffmpeg',
+        '-y',
+        '-f',
+        'concat',
+        '-safe',
+        '0',
+        '-i',
+        listFile,
+        // GIFs can't be stream-copied across files, so they are re-encoded
+        ...(format === 'gif' ? [] : ['-c', 'copy']),
+        // key=value progress blocks on stdout, ending in `progress=continue` or `progress=end`
+        '-progress',
+        'pipe:1',
+        '-nostats',
+        outputPath,
+      ];
+    }
 
-            // Also kill the spawn process
-            try {
-              dockerProcess.kill('SIGKILL');
-            } catch (error) {
-              logger.debug('Failed to kill spawn process', { jobId, error });
-            }
+    let lastProgressAt = Date.now();
+    let latest = '';
+    const onStdout = (chunk: string) => {
+      const lines = chunk.split('\n').filter(Boolean);
+      latest =
+        format === 'png'
+          ? `added ${lines[lines.length - 1] || latest}`
+          : [...chunk.matchAll(/^out_time=(\S+)/gm)].pop()?.[1] || latest;
+      if (!latest || Date.now() - lastProgressAt < JOIN_PROGRESS_INTERVAL_MS) return;
+      lastProgressAt = Date.now();
+      onOutput?.({
+        type: 'info',
+        data: format === 'png' ? `Zipping frames: ${latest}` : `Joining scenes: ${latest} written`,
+        timestamp: new Date(),
+      });
+    };
 
-            // Clean up temporary files
-            try {
-              await fs.rm(tempDir, { recursive: true, force: true });
-              logger.debug('Cleaned up temp directory after timeout', { jobId, tempDir });
-            } catch (cleanupError) {
-              logger.warn('Failed to cleanup temp directory after timeout', {
-                jobId,
-                cleanupError,
-              });
-            }
+    const { exitCode, stderr, peakUsage } = await this.runScheduled(
+      {
+        name: `manim-render-${jobId}-concat`,
+        jobId,
+        queue: 'manim-rendering',
+        command,
+        outputDir,
+        memory: '2g',
+        cpus: 1,
+        pidsLimit: profile.pidsLimit,
+        scratchSize: profile.scratchSize,
+        timeoutMs: this.concatTimeout,
+        onStdout,
+        signal,
+      },
+      onOutput
+    );
+
+    this.throwIfCancelled(jobId, signal);
+    // stdout only carries progress; errors are on stderr
+    if (exitCode !== 0) {
+      logger.error('Failed to join scene clips', { jobId, exitCode, output: stderr.slice(-2000) });
+      throw new Error(`Failed to join scene clips (exit code ${exitCode}): ${stderr.slice(-500)}`);
+    }
 
-            reject(new Error('Docker process timed out after 5 minutes'));
-          } catch (timeoutError) {
-            logger.error('Error during timeout cleanup', { jobId, timeoutError });
-            reject(new Error('Docker process timed out and cleanup failed'));
-          }
-        }
-      }, this.containerTimeout);
+    return { outputPath, resourceUsage: peakUsage };
+  }
 
-      dockerProcess.stdout?.on('data', data => {
-        const output = data.toString();
-        stdout += output;
+  /**
+   * Render one scene (or the script's only scene) in the backend's sandbox
+   */
+  private async renderScene(
+    tempDir: string,
+    outputDir: string,
+    jobId: string,
+    onOutput?: (output: ManimOutput) => void,
+    attempt: number = 1,
+    settings: RenderSettings = {},
+    profile: ResourceProfile = getResourceProfile(),
+    scene?: SceneTarget,
+    signal?: AbortSignal
+  ): Promise<RenderResult> {
+    const format = settings.format || 'mp4';
+
+    // One parser per stream, since chunks of the two can split lines anywhere
+    const stdoutProgress = new ManimProgressParser(scene?.name);
+    const stderrProgress = new ManimProgressParser(scene?.name);
+    const run: SandboxRun = {
+      name: `manim-render-${jobId}${scene?.processSuffix || ''}`,
+      jobId,
+      queue: 'manim-rendering',
+      command: this.buildManimCommand(settings, attempt, scene),
+      outputDir,
+      tempDir,
+      memory: profile.memory,
+      cpus: profile.cpus,
+      pidsLimit: profile.pidsLimit,
+      scratchSize: profile.scratchSize,
+      timeoutMs: profile.timeoutMs,
+      // For retry attempts, run as root to bypass permission issues
+      asRoot: attempt > 1,
+      onStdout: output => {
         JobLogger.append(jobId, 'stdout', { chunk: output.substring(0, 1000) }).catch(() => {});
 
-        // Parse Manim progress information with more comprehensive patterns
-        const progressMatch = output.match(/Rendering\s+(\d+)\/(\d+)\s+frames/);
-        const sceneMatch = output.match(/Scene\s+(\w+)/);
-        const animationMatch = output.match(/Animation\s+(\d+)\/(\d+)/);
-        const fileMatch = output.match(/Writing\s+(\S+)/);
-        const frameMatch = output.match(/Frame\s+(\d+)/);
-        const timeMatch = output.match(/(\d+\.\d+)s/);
-        const qualityMatch = output.match(/quality\s+(\w+)/i);
-        const formatMatch = output.match(/format\s+(\w+)/i);
-
-        // Additional Manim progress patterns
-        const renderingMatch = output.match(/Rendering\s+(\w+)/);
-        const processingMatch = output.match(/Processing\s+(\w+)/);
-        const buildingMatch = output.match(/Building\s+(\w+)/);
-        const compilingMatch = output.match(/Compiling\s+(\w+)/);
-
-        if (progressMatch) {
-          const currentFrame = parseInt(progressMatch[1]);
-          const totalFrames = parseInt(progressMatch[2]);
-          const progressPercent = Math.round((currentFrame / totalFrames) * 100);
-
-          if (onOutput) {
-            onOutput({
-              type: 'progress',
-              data: `Rendering frame ${currentFrame}/${totalFrames} (${progressPercent}%)`,
-              timestamp: new Date(),
-            });
-          }
-        } else if (sceneMatch) {
-          if (onOutput) {
-            onOutput({
-              type: 'progress',
-              data: `Processing scene: ${sceneMatch[1]}`,
-              timestamp: new Date(),
-            });
-          }
-        } else if (animationMatch) {
-          if (onOutput) {
-            onOutput({
-              type: 'progress',
-              data: `Processing animation ${animationMatch[1]}/${animationMatch[2]}`,
-              timestamp: new Date(),
-            });
-          }
-        } else if (renderingMatch) {
-          if (onOutput) {
-            onOutput({
-              type: 'progress',
-              data: `Rendering: ${renderingMatch[1]}`,
-              timestamp: new Date(),
-            });
-          }
-        } else if (processingMatch) {
-          if (onOutput) {
-            onOutput({
-              type: 'progress',
-              data: `Processing: ${processingMatch[1]}`,
-              timestamp: new Date(),
-            });
-          }
-        } else if (buildingMatch) {
-          if (onOutput) {
-            onOutput({
-              type: 'progress',
-              data: `Building: ${buildingMatch[1]}`,
-              timestamp: new Date(),
-            });
-          }
-        } else if (compilingMatch) {
-          if (onOutput) {
-            onOutput({
-              type: 'progress',
-              data: `Compiling: ${compilingMatch[1]}`,
-              timestamp: new Date(),
-            });
-          }
-        } else if (fileMatch) {
-          if (onOutput) {
-            onOutput({
-              type: 'progress',
-              data: `Writing file: ${fileMatch[1]}`,
-              timestamp: new Date(),
-            });
-          }
-        } else if (frameMatch) {
-          if (onOutput) {
-            onOutput({
-              type: 'progress',
-              data: `Processing frame ${frameMatch[1]}`,
-              timestamp: new Date(),
-            });
-          }
-        } else if (timeMatch) {
-          if (onOutput) {
-            onOutput({
-              type: 'progress',
-              data: `Time elapsed: ${timeMatch[1]}s`,
-              timestamp: new Date(),
-            });
-          }
-        } else if (qualityMatch) {
-          if (onOutput) {
-            onOutput({
-              type: 'info',
-              data: `Quality setting: ${qualityMatch[1]}`,
-              timestamp: new Date(),
-            });
-          }
-        } else if (formatMatch) {
-          if (onOutput) {
-            onOutput({
-              type: 'info',
-              data: `Output format: ${formatMatch[1]}`,
-              timestamp: new Date(),
-            });
-          }
-        }
+        // Partial movie files are logged on stdout
+        this.reportProgress(stdoutProgress.push(output), onOutput);
 
         // Send stdout output
         if (onOutput) {
@@ -414,14 +685,14 @@ export class ManimRendererService {
           });
         }
 
-        logger.debug('Docker stdout', { jobId, data: output });
-      });
-
-      dockerProcess.stderr?.on('data', data => {
-        const output = data.toString();
-        stderr += output;
+        logger.debug('Render stdout', { jobId, data: output });
+      },
+      onStderr: output => {
         JobLogger.append(jobId, 'stderr', { chunk: output.substring(0, 1000) }).catch(() => {});
 
+        // Progress bars are drawn on stderr
+        this.reportProgress(stderrProgress.push(output), onOutput);
+
         // Send stderr output
         if (onOutput) {
           onOutput({
@@ -431,72 +702,181 @@ export class ManimRendererService {
           });
         }
 
-        logger.debug('Docker stderr', { jobId, data: output });
-      });
+        logger.debug('Render stderr', { jobId, data: output });
+      },
+      signal,
+    };
+    // The scheduler may have downsized the run, so `run.memory` is the limit it ran with
+    const { exitCode, stderr, timedOut, oomKilled, peakUsage } = await this.runScheduled(
+      run,
+      onOutput
+    );
 
-      dockerProcess.on('close', async code => {
-        if (isResolved) return; // Already handled by timeout
+    this.reportProgress([...stdoutProgress.flush(), ...stderrProgress.flush()], onOutput);
+    this.throwIfCancelled(jobId, signal);
 
-        clearTimeout(timeoutId);
-        isResolved = true;
+    if (timedOut) {
+      // Clean up temporary files
+      try {
+        await fs.rm(tempDir, { recursive: true, force: true });
+        logger.debug('Cleaned up temp directory after timeout', { jobId, tempDir });
+      } catch (cleanupError) {
+        logger.warn('Failed to cleanup temp directory after timeout', {
+          jobId,
+          cleanupError,
+        });
+      }
 
-        if (code === 0) {
-          try {
-            // Find the generated video file
-            const videoPath = await this.findVideoFile(outputDir);
-            if (videoPath) {
-              resolve({
-                outputPath: videoPath,
-                duration: 0, // Will be calculated by caller
-              });
-            } else {
-              reject(new Error('No video file found in output directory'));
-            }
-          } catch (error) {
-            reject(new Error(`Failed to locate output file: ${error}`));
-          }
-        } else {
-          // Enhanced error analysis for video encoding failures
-          let errorMessage = `Docker process failed with code ${code}`;
-
-          if (stderr.includes('Permission denied') || stderr.includes('PermissionError')) {
-            errorMessage =
-              'Permission denied during video encoding. This may be due to Docker container permissions or directory access issues. ' +
-              'Please ensure the output and temp directories have proper permissions (775 or 777). ' +
-              'You can run the setup-permissions script to fix this.';
-          } else if (stderr.includes('combine_to_movie') || stderr.includes('mux')) {
-            errorMessage =
-              'Video encoding failed during frame combination. This may be due to memory constraints or corrupted frames. ' +
-              'Try reducing animation complexity or increasing Docker memory limits.';
-          } else if (stderr.includes('av.container.output') || stderr.includes('OutputContainer')) {
-            errorMessage =
-              'FFmpeg video encoding failed. This may be due to insufficient memory or disk space. ' +
-              'Check available system resources and Docker memory limits.';
-          } else if (stderr.includes('scene.render()') || stderr.includes('SceneClass')) {
-            errorMessage = 'Scene rendering failed. Check the Manim code for errors.';
-          }
+      throw new Error(
+        `Render timed out after ${Math.round(run.timeoutMs / 60000)} minutes (${profile.name} profile)`
+      );
+    }
 
-          // Add attempt information to error
-          if (attempt > 1) {
-            errorMessage += ` (Attempt ${attempt}/${this.maxRetries})`;
-          }
+    if (exitCode === 0) {
+      let videoPath: string;
+      try {
+        // Find the generated video file
+        videoPath = await this.findVideoFile(outputDir, format, scene?.outputName || 'outputs');
+      } catch (error) {
+        throw new Error(`Failed to locate output file: ${error}`);
+      }
+      if (!videoPath) {
+        throw new Error('No video file found in output directory');
+      }
+      return {
+        outputPath: videoPath,
+        duration: 0, // Will be calculated by caller
+        resourceUsage: peakUsage,
+      };
+    }
 
-          await JobLogger.append(jobId, 'Render error', {
-            errorMessage,
-            stderr: stderr.substring(0, 4000),
-          });
-          reject(new Error(`${errorMessage}\n\nFull error: ${stderr}`));
+    // Enhanced error analysis for video encoding failures
+    let errorMessage = `Render process failed with code ${exitCode}`;
+
+    if (oomKilled) {
+      errorMessage =
+        `Render was killed for exceeding its ${run.memory} memory limit (${profile.name} profile). ` +
+        'Try reducing animation complexity, resolution or frame rate, or a larger resource profile.';
+    } else if (stderr.includes('Permission denied') || stderr.includes('PermissionError')) {
+      errorMessage =
+        'Permission denied during video encoding. This may be due to sandbox permissions or directory access issues. ' +
+        'Please ensure the output and temp directories have proper permissions (775 or 777). ' +
+        'You can run the setup-permissions script to fix this.';
+    } else if (stderr.includes('combine_to_movie') || stderr.includes('mux')) {
+      errorMessage =
+        'Video encoding failed during frame combination. This may be due to memory constraints or corrupted frames. ' +
+        'Try reducing animation complexity or increasing the render memory limit.';
+    } else if (stderr.includes('av.container.output') || stderr.includes('OutputContainer')) {
+      errorMessage =
+        'FFmpeg video encoding failed. This may be due to insufficient memory or disk space. ' +
+        'Check available system resources and the render memory limit.';
+    } else if (stderr.includes('scene.render()') || stderr.includes('SceneClass')) {
+      errorMessage = 'Scene rendering failed. Check the Manim code for errors.';
+    }
+
+    // Add attempt information to error
+    if (attempt > 1) {
+      errorMessage += ` (Attempt ${attempt}/${this.maxRetries})`;
+    }
+
+    await JobLogger.append(jobId, 'Render error', {
+      errorMessage,
+      stderr: stderr.substring(0, 4000),
+    });
+    throw new Error(`${errorMessage}\n\nFull error: ${stderr}`);
+  }
+
+  /**
+   * Run a sandbox once the render scheduler has room for it. The scheduler may give it less
+   * memory and fewer CPUs than asked for; `run` is updated with what it got.
+   */
+  private async runScheduled(
+    run: SandboxRun,
+    onOutput?: (output: ManimOutput) => void
+  ): Promise<SandboxResult> {
+    const info = (data: string) => onOutput?.({ type: 'info', data, timestamp: new Date() });
+    const admission = await renderScheduler.acquire(run.name, run.memory, run.cpus, {
+      signal: run.signal,
+      onWait: info,
+    });
+    if (!admission) {
+      // Only an aborted wait resolves without an admission
+      this.throwIfCancelled(run.jobId, run.signal);
+      throw new JobCancelledError();
+    }
+
+    try {
+      if (admission.downsized || admission.waitedMs >= 1000) {
+        const details = {
+          name: run.name,
+          memory: admission.memory,
+          cpus: admission.cpus,
+          requested: { memory: run.memory, cpus: run.cpus },
+          waitedMs: admission.waitedMs,
+        };
+        logger.info('Render scheduler admitted sandbox', { jobId: run.jobId, ...details });
+        await JobLogger.append(run.jobId, 'Admitted by render scheduler', details);
+        if (admission.downsized) {
+          info(
+            `Running with ${admission.memory} memory and ${admission.cpus} CPUs (asked for ${run.memory} and ${run.cpus}) to fit the host`
+          );
         }
-      });
+      }
+
+      run.memory = admission.memory;
+      run.cpus = admission.cpus;
+      const result = await this.runSandboxed(run);
+      if (result.peakUsage) {
+        await JobLogger.append(run.jobId, 'Sandbox resource usage', {
+          name: run.name,
+          memory: run.memory,
+          cpus: run.cpus,
+          ...result.peakUsage,
+        });
+      }
+      return result;
+    } finally {
+      admission.release();
+    }
+  }
 
-      dockerProcess.on('error', error => {
-        if (isResolved) return; // Already handled by timeout
+  /**
+   * The higher of two peak usages, field by field
+   */
+  private maxUsage(a?: ResourceUsage, b?: ResourceUsage): ResourceUsage | undefined {
+    if (!a || !b) return a || b;
+    return {
+      peakMemoryBytes: Math.max(a.peakMemoryBytes, b.peakMemoryBytes),
+      peakCpuPercent: Math.max(a.peakCpuPercent, b.peakCpuPercent),
+      peakPids: Math.max(a.peakPids, b.peakPids),
+    };
+  }
 
-        clearTimeout(timeoutId);
-        isResolved = true;
-        reject(new Error(`Docker process error: ${error.message}`));
+  /**
+   * A sandbox killed through the job's signal exits like a failure; report it as a cancellation
+   */
+  private throwIfCancelled(jobId: string, signal?: AbortSignal): void {
+    if (!signal?.aborted) return;
+    JobLogger.append(jobId, 'Cancelled').catch(() => {});
+    throw new JobCancelledError();
+  }
+
+  /**
+   * Pass parsed progress events on as `progress` outputs
+   */
+  private reportProgress(
+    events: ManimProgressEvent[],
+    onOutput?: (output: ManimOutput) => void
+  ): void {
+    if (!onOutput) return;
+    for (const event of events) {
+      onOutput({
+        type: 'progress',
+        data: describeProgressEvent(event),
+        timestamp: new Date(),
+        event,
       });
-    });
+    }
   }
 
   /**
@@ -514,14 +894,14 @@ export class ManimRendererService {
   }
 
   /**
-   * Ensure directories have proper permissions for Docker mounting
+   * Ensure directories have proper permissions for sandbox mounting
    */
   private async ensureDirectoryPermissions(tempDir: string, outputDir: string): Promise<void> {
     try {
       // Ensure directories exist and are writable
       await this.ensureDirectories(tempDir, outputDir);
 
-      // On Unix-like systems, ensure directories are writable by Docker
+      // On Unix-like systems, ensure directories are writable by the sandbox
       if (process.platform !== 'win32') {
         const { exec } = require('child_process');
         const util = require('util');
@@ -599,33 +979,109 @@ export class ManimRendererService {
   }
 
   /**
-   * Find the generated video file in the output directory
+   * Build the command run inside the Manim container for the requested settings
    */
-  private async findVideoFile(outputDir: string): Promise<string> {
+  private buildManimCommand(
+    settings: RenderSettings,
+    attempt: number,
+    scene?: SceneTarget
+  ): string[] {
+    const format = settings.format || 'mp4';
+    const outputName = scene?.outputName || 'outputs';
+    const manimArgs = [
+      'manim',
+      '-o',
+      // Manim v0.19.0 creates the file directly; for PNG this is the frame name prefix
+      format === 'png' ? outputName : `/manim/${outputName}.${OUTPUT_EXTENSIONS[format]}`,
+      '--format',
+      format,
+      '--quality',
+      // Use valid quality values for v0.19.0: l, m, h, p, k; retries drop to low quality
+      attempt === 1 ? settings.quality || 'm' : 'l',
+    ];
+
+    if (settings.fps) {
+      manimArgs.push('--fps', settings.fps.toString());
+    }
+
+    if (settings.resolution) {
+      // Manim expects "W,H"
+      manimArgs.push('-r', settings.resolution.replace('x', ','));
+    }
+
+    manimArgs.push(
+      '--disable_caching', // Disable caching to avoid conflicts
+      '--flush_cache', // Flush cache before rendering
+      'temp/animation.py' // Input file comes LAST, now in temp subdirectory
+    );
+
+    // Name the scene explicitly so Manim never has to pick one
+    if (scene) {
+      manimArgs.push(scene.name);
+    }
+
+    if (format !== 'png') {
+      return manimArgs;
+    }
+
+    // Frames land under media/images; zip them so the job still has a single output file.
+    // Scenes of a multi-scene script share that directory, so each zips only its own frames.
+    const frames =
+      outputName === 'outputs' ? 'media/images' : `$(find media/images -name '${outputName}*.png')`;
+    return [
+      'sh',
+      '-c',
+      `${manimArgs.join(' ')} && python -m zipfile -c /manim/${outputName}.zip ${frames}`,
+    ];
+  }
+
+  /**
+   * Find the generated output file (video, GIF or zipped frames) in the output directory
+   */
+  private async findVideoFile(
+    outputDir: string,
+    format: RenderFormat = 'mp4',
+    outputName: string = 'outputs'
+  ): Promise<string> {
+    const extension = `.${OUTPUT_EXTENSIONS[format]}`;
+
     try {
       // Since we're mounting the output directory to /manim in the container,
       // and the container's working directory is /manim, the output files will be
       // in the outputDir that we mounted
       const files = await fs.readdir(outputDir);
 
-      // Look for MP4 files - Manim typically names them with the scene class name
-      // or with 'animation' in the filename
-      const videoFile = files.find(
-        file =>
-          file.endsWith('.mp4') &&
-          (file.includes('animation') || file.includes('CircleToSquare') || file.includes('Scene'))
-      );
+      // Scene clips share the directory with each other, so only their exact name will do
+      if (outputName !== 'outputs') {
+        const clip = files.find(file => file === `${outputName}${extension}`);
+        if (!clip) {
+          throw new Error(`No output for ${outputName}. Available files: ${files.join(', ')}`);
+        }
+        return clip;
+      }
+
+      // Prefer the file we asked Manim for, then the usual scene/animation naming
+      const videoFile =
+        files.find(file => file === `${outputName}${extension}`) ||
+        files.find(
+          file =>
+            file.endsWith(extension) &&
+            (file.includes('animation') ||
+              file.includes('CircleToSquare') ||
+              file.includes('Scene'))
+        );
 
       if (!videoFile) {
-        // If no specific file found, look for any MP4 file
-        const anyMp4 = files.find(file => file.endsWith('.mp4'));
-        if (anyMp4) {
-          logger.info('Found MP4 file with different naming pattern', {
-            foundFile: anyMp4,
+        // If no specific file found, look for any file with the expected extension
+        const anyOutput = files.find(file => file.endsWith(extension));
+        if (anyOutput) {
+          logger.info('Found output file with different naming pattern', {
+            foundFile: anyOutput,
+            format,
             allFiles: files,
           });
           // Return just the filename for static file serving
-          return anyMp4;
+          return anyOutput;
         }
 
         throw new Error(`No video file found. Available files: ${files.join(', ')}`);
@@ -653,60 +1109,25 @@ export class ManimRendererService {
   }
 
   /**
-   * Validate Manim code for potential issues
+   * Run static analysis on the script; errors abort the render, warnings are only logged.
+   * The thrown message lists findings by line so regeneration can address them.
    */
-  private validateManimCode(code: string): void {
-    // Check for common issues that might cause rendering failures
-    const issues: string[] = [];
-
-    if (code.includes('import *')) {
-      issues.push('Wildcard imports may cause conflicts');
-    }
-
-    if (code.includes('self.wait()') && !code.includes('self.wait(')) {
-      issues.push('Infinite wait detected - this will cause rendering to hang');
-    }
-
-    if (code.includes('while True') || code.includes('for _ in range(1000)')) {
-      issues.push('Potential infinite loops detected');
-    }
+  private validateManimCode(code: string, jobId: string): CodeAnalysisResult {
+    const analysis = codeSafetyAnalyzer.analyze(code);
+    const warnings = analysis.findings.filter(finding => finding.severity === 'warning');
 
-    if (code.includes('os.system') || code.includes('subprocess')) {
-      issues.push('System commands detected - these are blocked for security');
+    if (warnings.length > 0) {
+      logger.warn('Potential Manim code issues detected', {
+        jobId,
+        issues: codeSafetyAnalyzer.summarize(warnings),
+      });
     }
 
-    if (issues.length > 0) {
-      logger.warn('Potential Manim code issues detected', { issues });
+    if (!analysis.valid) {
+      const errors = analysis.findings.filter(finding => finding.severity === 'error');
+      throw new Error(`Code safety check failed:\n${codeSafetyAnalyzer.summarize(errors)}`);
     }
-  }
 
-  /**
-   * Validate that Docker is available
-   */
-  async validateDocker(): Promise<boolean> {
-    return new Promise(resolve => {
-      const dockerProcess = spawn('docker', ['--version']);
-
-      dockerProcess.on('close', code => {
-        resolve(code === 0);
-      });
-
-      dockerProcess.on('error', () => {
-        resolve(false);
-      });
-    });
-  }
-
-  /**
-   * Check if the current process is running inside a Docker container.
-   * This is a heuristic and might not be 100% accurate.
-   */
-  private isRunningInDockerContainer(): boolean {
-    // Check if the process is running inside a Docker container
-    // This is a heuristic and might not be 100% accurate.
-    // A more robust check would involve inspecting Docker socket permissions.
-    // For now, we'll assume if DOCKER_HOST is set, we're in a container.
-    // This is a simplification and might need refinement based on actual Docker setup.
-    return !!process.env.DOCKER_HOST;
+    return analysis;
   }
 }
@@ -0,0 +1,158 @@
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { CodeGenerationProvider, CodeGenerationResponse } from '../types';
+
+interface CannedScript {
+  pattern: RegExp;
+  code: string;
+}
+
+const cannedScripts: CannedScript[] = [
+  {
+    pattern: /circle.*square|square.*circle|transform/i,
+    code: `from manim import *
+
+
+class CircleToSquare(Scene):
+    def construct(self):
+        circle = Circle(color=BLUE)
+        square = Square(color=GREEN)
+        self.play(Create(circle))
+        self.play(Transform(circle, square))
+        self.wait(1)
+`,
+  },
+  {
+    pattern: /sine|wave/i,
+    code: `from manim import *
+
+
+class SineWave(Scene):
+    def construct(self):
+        axes = Axes(x_range=[0, 2 * PI], y_range=[-1.5, 1.5])
+        curve = axes.plot(lambda x: np.sin(x), color=YELLOW)
+        dot = Dot(axes.c2p(0, 0), color=RED)
+        self.play(Create(axes))
+        self.play(Create(curve), MoveAlongPath(dot, curve), run_time=2)
+        self.wait(1)
+`,
+  },
+  {
+    pattern: /bounc|ball|gravity/i,
+    code: `from manim import *
+
+
+class BouncingBall(Scene):
+    def construct(self):
+        ground = Line(LEFT * 4, RIGHT * 4).shift(DOWN * 2)
+        ball = Circle(radius=0.3, color=ORANGE, fill_opacity=1).shift(UP * 2)
+        self.add(ground)
+        for height in [2, 1.2, 0.6]:
+            self.play(ball.animate.move_to(DOWN * 1.7), run_time=0.4, rate_func=rate_functions.ease_in_quad)
+            self.play(ball.animate.move_to(UP * (height - 1.7)), run_time=0.4, rate_func=rate_functions.ease_out_quad)
+        self.wait(1)
+`,
+  },
+];
+
+const defaultScript = `from manim import *
+
+
+class MockScene(Scene):
+    def construct(self):
+        title = Text("MLanim")
+        self.play(Write(title))
+        self.play(title.animate.shift(UP * 2))
+        self.wait(1)
+`;
+
+// Passes static analysis but fails when executed: ParametricCurve does not exist in Manim CE
+const brokenScript = `from manim import *
+
+
+class BrokenScene(Scene):
+    def construct(self):
+        curve = ParametricCurve(lambda t: [t, t ** 2, 0], t_range=[-1, 1])
+        self.play(Create(curve))
+        self.wait(1)
+`;
+
+/**
+ * Offline provider returning canned Manim scripts keyed by prompt patterns.
+ * It can return broken code for the first N attempts to exercise the regeneration loop.
+ * A `[mock-fail:N]` tag in the prompt overrides MOCK_PROVIDER_FAIL_ATTEMPTS for that prompt.
+ */
+export class MockService implements CodeGenerationProvider {
+  readonly name = 'mock';
+  readonly label = 'Mock (offline)';
+  readonly defaultModel = 'canned';
+
+  isConfigured(): boolean {
+    return config.mock.enabled;
+  }
+
+  async generateManimCode(prompt: string, _model?: string): Promise<CodeGenerationResponse> {
+    return this.respond(prompt, 1);
+  }
+
+  async generateManimCodeStream(
+    prompt: string,
+    onChunk: (chunk: string) => void,
+    _model?: string
+  ): Promise<CodeGenerationResponse> {
+    const response = this.respond(prompt, 1);
+    for (const line of response.code.split(/(?<=\n)/)) {
+      onChunk(line);
+    }
+    return response;
+  }
+
+  async regenerateManimCode(
+    originalPrompt: string,
+    _failedCode: string,
+    _error: string,
+    regenerationCount: number = 1,
+    _model?: string
+  ): Promise<CodeGenerationResponse> {
+    return this.respond(originalPrompt, regenerationCount + 1);
+  }
+
+  async listModels(): Promise<string[]> {
+    return [this.defaultModel];
+  }
+
+  async healthCheck(): Promise<boolean> {
+    return this.isConfigured();
+  }
+
+  /**
+   * Pick the script for a prompt; attempt 1 is the initial generation
+   */
+  private respond(prompt: string, attempt: number): CodeGenerationResponse {
+    const failAttempts = this.getFailAttempts(prompt);
+
+    if (attempt <= failAttempts) {
+      logger.info('Mock provider returning broken code', { attempt, failAttempts });
+      return {
+        code: brokenScript,
+        explanation: `Mock provider: deliberately broken code (attempt ${attempt}/${failAttempts})`,
+      };
+    }
+
+    const match = cannedScripts.find(script => script.pattern.test(prompt));
+    logger.info('Mock provider returning canned code', {
+      attempt,
+      pattern: match ? match.pattern.source : 'default',
+    });
+
+    return {
+      code: match ? match.code : defaultScript,
+      explanation: `Mock provider: canned code for ${match ? match.pattern.source : 'default'}`,
+    };
+  }
+
+  private getFailAttempts(prompt: string): number {
+    const tag = prompt.match(/\[mock-fail:(\d+)\]/i);
+    return tag ? parseInt(tag[1], 10) : config.mock.failAttempts;
+  }
+}
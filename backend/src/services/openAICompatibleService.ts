@@ -0,0 +1,31 @@
+import { config } from '../config';
+import { TogetherService } from './togetherService';
+
+/**
+ * Provider for any server exposing an OpenAI-compatible `/v1/chat/completions` endpoint,
+ * such as Ollama, the llama.cpp server or vLLM. Prompts never leave the configured host.
+ */
+export class OpenAICompatibleService extends TogetherService {
+  readonly name: string = 'openai-compatible';
+  readonly label: string = 'OpenAI-compatible';
+
+  constructor(modelOverride?: string) {
+    super(modelOverride || config.openaiCompatible.model, {
+      apiKey: config.openaiCompatible.apiKey,
+      baseUrl: config.openaiCompatible.baseUrl,
+    });
+  }
+
+  /**
+   * Local servers usually run without an API key, so only the base URL is required
+   */
+  isConfigured(): boolean {
+    return !!this.baseUrl;
+  }
+
+  protected ensureConfigured(): void {
+    if (!this.baseUrl) {
+      throw new Error('OpenAI-compatible base URL is not configured');
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { CodeGenerationProvider, ProviderInfo } from '../types';
+import { GeminiService } from './geminiService';
+import { TogetherService } from './togetherService';
+import { OpenAICompatibleService } from './openAICompatibleService';
+import { MockService } from './mockService';
+
+export class ProviderRegistry {
+  private providers = new Map<string, CodeGenerationProvider>();
+
+  /**
+   * Register a provider under its name, replacing any previous registration
+   */
+  register(provider: CodeGenerationProvider): void {
+    if (this.providers.has(provider.name)) {
+      logger.warn('Replacing registered code generation provider', { provider: provider.name });
+    }
+    this.providers.set(provider.name, provider);
+  }
+
+  /**
+   * Look up a provider by name
+   */
+  get(name: string): CodeGenerationProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  /**
+   * All registered providers in registration order
+   */
+  list(): CodeGenerationProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  /**
+   * Name of the provider used when a request does not choose one.
+   * Falls back to the first configured provider if the configured default is unavailable.
+   */
+  getDefaultName(): string {
+    const preferred = this.providers.get(config.providers.default);
+    if (preferred && preferred.isConfigured()) {
+      return preferred.name;
+    }
+
+    const firstConfigured = this.list().find(provider => provider.isConfigured());
+    return firstConfigured ? firstConfigured.name : config.providers.default;
+  }
+
+  /**
+   * Public description of the registered providers
+   */
+  describe(): ProviderInfo[] {
+    return this.list().map(provider => ({
+      name: provider.name,
+      label: provider.label,
+      defaultModel: provider.defaultModel,
+      configured: provider.isConfigured(),
+    }));
+  }
+}
+
+export const providerRegistry = new ProviderRegistry();
+
+providerRegistry.register(new GeminiService());
+providerRegistry.register(new TogetherService());
+providerRegistry.register(new OpenAICompatibleService());
+providerRegistry.register(new MockService());
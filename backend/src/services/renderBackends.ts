@@ -0,0 +1,18 @@
+import { config } from '../config';
+import { RenderBackend } from '../types';
+import { DockerRenderBackend } from './dockerRenderBackend';
+import { LocalRenderBackend } from './localRenderBackend';
+
+/**
+ * Render backend by name, defaulting to the configured one (RENDER_BACKEND)
+ */
+export function createRenderBackend(name: string = config.rendering.backend): RenderBackend {
+  switch (name) {
+    case 'docker':
+      return new DockerRenderBackend();
+    case 'local':
+      return new LocalRenderBackend();
+    default:
+      throw new Error(`Unknown render backend: ${name}`);
+  }
+}
@@ -0,0 +1,159 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { RenderSettings, SceneClip } from '../types';
+import { tokenizePython } from '../utils/pythonTokenizer';
+
+/**
+ * A finished render stored under outputs/cache/<key>/
+ */
+export interface RenderCacheEntry {
+  key: string;
+  /** File name of the joined output within the cache directory */
+  outputPath: string;
+  scenes?: SceneClip[];
+  sourceJobId: string;
+  createdAt: string;
+}
+
+/**
+ * Content-addressed cache of finished renders.
+ *
+ * The key covers everything that changes the output: the script (normalized so comments and
+ * formatting don't matter), the effective render settings and the Manim image. Files are
+ * hard-linked between job output directories and the cache, so a hit costs no extra disk space.
+ */
+export class RenderCacheService {
+  private readonly cacheDir = path.join(process.cwd(), 'outputs', 'cache');
+
+  /**
+   * Cache key for a script rendered with the given settings
+   */
+  getKey(code: string, settings: RenderSettings): string {
+    return createHash('sha256')
+      .update(
+        JSON.stringify({
+          code: this.normalizeCode(code),
+          quality: settings.quality || 'm',
+          format: settings.format || 'mp4',
+          fps: settings.fps || null,
+          resolution: settings.resolution || null,
+          backend: config.rendering.backend,
+          image: config.rendering.manimImage,
+        })
+      )
+      .digest('hex');
+  }
+
+  /**
+   * Cached render for a key, or null when there is none or its files have gone missing
+   */
+  async lookup(key: string): Promise<RenderCacheEntry | null> {
+    const entryDir = path.join(this.cacheDir, key);
+
+    let entry: RenderCacheEntry;
+    try {
+      entry = JSON.parse(await fs.readFile(path.join(entryDir, 'manifest.json'), 'utf8'));
+    } catch (_) {
+      return null;
+    }
+
+    try {
+      for (const file of this.entryFiles(entry)) {
+        await fs.access(path.join(entryDir, file));
+      }
+      return entry;
+    } catch (error) {
+      logger.warn('Render cache entry is missing files, dropping it', { key, error });
+      await this.invalidate(key);
+      return null;
+    }
+  }
+
+  /**
+   * Add a job's finished output to the cache
+   */
+  async store(
+    key: string,
+    jobId: string,
+    result: { outputPath: string; scenes?: SceneClip[] }
+  ): Promise<void> {
+    const entryDir = path.join(this.cacheDir, key);
+    const jobDir = path.join(process.cwd(), 'outputs', jobId);
+    const entry: RenderCacheEntry = {
+      key,
+      outputPath: path.basename(result.outputPath),
+      scenes: result.scenes?.map(scene => ({
+        name: scene.name,
+        outputPath: path.basename(scene.outputPath),
+      })),
+      sourceJobId: jobId,
+      createdAt: new Date().toISOString(),
+    };
+
+    await fs.mkdir(entryDir, { recursive: true });
+    for (const file of this.entryFiles(entry)) {
+      await this.linkOrCopy(path.join(jobDir, file), path.join(entryDir, file));
+    }
+
+    // Written last, so a half-stored entry is never found by lookup
+    await fs.writeFile(path.join(entryDir, 'manifest.json'), JSON.stringify(entry, null, 2));
+    logger.info('Stored render in cache', { key, jobId, outputPath: entry.outputPath });
+  }
+
+  /**
+   * Place a cached render's files in a job's output directory
+   */
+  async restore(entry: RenderCacheEntry, jobId: string): Promise<void> {
+    const entryDir = path.join(this.cacheDir, entry.key);
+    const jobDir = path.join(process.cwd(), 'outputs', jobId);
+
+    await fs.mkdir(jobDir, { recursive: true });
+    for (const file of this.entryFiles(entry)) {
+      await this.linkOrCopy(path.join(entryDir, file), path.join(jobDir, file));
+    }
+  }
+
+  /**
+   * Remove a cache entry
+   */
+  async invalidate(key: string): Promise<void> {
+    try {
+      await fs.rm(path.join(this.cacheDir, key), { recursive: true, force: true });
+    } catch (error) {
+      logger.warn('Failed to remove render cache entry', { key, error });
+    }
+  }
+
+  /**
+   * Token stream of the script, so comments, blank lines and spacing don't change the key.
+   * Falls back to the trimmed source for code the tokenizer rejects.
+   */
+  private normalizeCode(code: string): string {
+    try {
+      return tokenizePython(code)
+        .map(token => `${token.type}:${token.value}`)
+        .join('\n');
+    } catch (_) {
+      return code.replace(/\r\n?/g, '\n').trim();
+    }
+  }
+
+  private entryFiles(entry: RenderCacheEntry): string[] {
+    return [entry.outputPath, ...(entry.scenes || []).map(scene => scene.outputPath)];
+  }
+
+  /**
+   * Hard-link a file, copying instead when linking isn't possible (e.g. across filesystems)
+   */
+  private async linkOrCopy(source: string, destination: string): Promise<void> {
+    await fs.rm(destination, { force: true });
+    try {
+      await fs.link(source, destination);
+    } catch (_) {
+      await fs.copyFile(source, destination);
+    }
+  }
+}
@@ -0,0 +1,434 @@
+import os from 'os';
+import Redis from 'ioredis';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { formatSize, parseSize } from '../utils/byteSize';
+
+/** Memory in bytes and CPUs */
+export interface SandboxResources {
+  memory: number;
+  cpus: number;
+}
+
+export interface HostResources {
+  totalMemory: number;
+  freeMemory: number;
+  cpus: number;
+  /** 1, 5 and 15 minute load averages */
+  loadAverage: number[];
+}
+
+/**
+ * What render sandboxes on this host may use, and what they hold right now
+ */
+export interface RenderSchedulerState {
+  enabled: boolean;
+  capacity: SandboxResources;
+  /** Held by sandboxes of this process */
+  reserved: SandboxResources;
+  /** Held by sandboxes of other backends in the same pool */
+  external: SandboxResources;
+  running: number;
+  waiting: number;
+  host: HostResources;
+}
+
+/**
+ * Resources a sandbox was admitted with; `release` once it has exited
+ */
+export interface ResourceAdmission {
+  /** Docker-style memory limit, e.g. '4g' */
+  memory: string;
+  cpus: number;
+  /** Got less than it asked for */
+  downsized: boolean;
+  waitedMs: number;
+  release(): void;
+}
+
+interface PendingSandbox {
+  name: string;
+  request: SandboxResources;
+  /** Least it can be downsized to */
+  minimum: SandboxResources;
+  queuedAt: number;
+  onWait?: (message: string) => void;
+  admit(admission: ResourceAdmission | null): void;
+}
+
+const NO_RESOURCES: SandboxResources = { memory: 0, cpus: 0 };
+// A reservation whose backend stopped renewing it (it crashed) frees up after this long
+const RESERVATION_LEASE_MS = 60000;
+const RESERVATION_RENEW_INTERVAL_MS = 15000;
+// Leaves room for the rounding of CPU shares like 0.1 + 0.2
+const CPU_EPSILON = 1e-6;
+
+/**
+ * Drops expired reservations and adds one if the pool still has room for it, in one step so
+ * two backends can't both take the last of the capacity.
+ * KEYS[1]: pool hash. ARGV: id, memory, cpus, capacity memory, capacity cpus, now, expiresAt.
+ */
+const RESERVE_SCRIPT = `
+local memory, cpus = 0, 0
+local entries = redis.call('HGETALL', KEYS[1])
+for i = 1, #entries, 2 do
+  local reservation = cjson.decode(entries[i + 1])
+  if reservation.expiresAt <= tonumber(ARGV[6]) then
+    redis.call('HDEL', KEYS[1], entries[i])
+  else
+    memory = memory + reservation.memory
+    cpus = cpus + reservation.cpus
+  end
+end
+if memory + tonumber(ARGV[2]) > tonumber(ARGV[4]) or cpus + tonumber(ARGV[3]) > tonumber(ARGV[5]) + ${CPU_EPSILON} then
+  return 0
+end
+redis.call('HSET', KEYS[1], ARGV[1], cjson.encode({
+  memory = tonumber(ARGV[2]), cpus = tonumber(ARGV[3]), expiresAt = tonumber(ARGV[7])
+}))
+return 1
+`;
+
+interface PoolReservation extends SandboxResources {
+  expiresAt: number;
+}
+
+/**
+ * Admission control in front of the render backend. Every sandbox (render, scene, join and
+ * dry run) asks for memory and CPUs before it starts. It is admitted when the reservations of
+ * every sandbox in its pool plus its own stay within the configured capacity. Otherwise it is
+ * downsized to fit, or held back in arrival order until a sandbox exits.
+ *
+ * Reservations are kept in Redis (`scheduler:reservations:<SCHEDULER_POOL>`) and taken before
+ * the sandbox starts, so backends sharing a host count each other's sandboxes from the moment
+ * they are admitted. Each backend renews its reservations while they run, so a crashed
+ * backend's lapse after RESERVATION_LEASE_MS.
+ */
+export class RenderScheduler {
+  private redis: Redis | null = null;
+  /** This process's reservations by their ID in the pool */
+  private readonly reservations = new Map<string, SandboxResources>();
+  private readonly waiting: PendingSandbox[] = [];
+  private scheduling = false;
+  private rescheduleRequested = false;
+  private pollTimer?: NodeJS.Timeout;
+  private renewTimer?: NodeJS.Timeout;
+
+  /**
+   * Wait until a sandbox asking for `memory` and `cpus` fits and reserve what it gets.
+   * Resolves with null when `signal` aborts while it waits. `onWait` is called with a status
+   * line each time it is still waiting after a check of the host.
+   */
+  acquire(
+    name: string,
+    memory: string,
+    cpus: number,
+    options: { signal?: AbortSignal; onWait?: (message: string) => void } = {}
+  ): Promise<ResourceAdmission | null> {
+    const request = { memory: parseSize(memory), cpus };
+    if (!config.scheduler.enabled) {
+      return Promise.resolve(this.admit(request, request, Date.now(), () => {}));
+    }
+    if (options.signal?.aborted) return Promise.resolve(null);
+
+    const capacity = this.getCapacity();
+    if (request.memory > capacity.memory || request.cpus > capacity.cpus) {
+      logger.warn('Sandbox asks for more than the scheduler capacity, capping it', {
+        name,
+        memory,
+        cpus,
+        capacity,
+      });
+      request.memory = Math.min(request.memory, capacity.memory);
+      request.cpus = Math.min(request.cpus, capacity.cpus);
+    }
+
+    return new Promise(resolve => {
+      const pending: PendingSandbox = {
+        name,
+        request,
+        minimum: {
+          memory: Math.min(request.memory, parseSize(config.scheduler.minMemory)),
+          cpus: Math.min(request.cpus, config.scheduler.minCpus),
+        },
+        queuedAt: Date.now(),
+        onWait: options.onWait,
+        admit: admission => {
+          options.signal?.removeEventListener('abort', onAbort);
+          resolve(admission);
+        },
+      };
+      const onAbort = () => {
+        const index = this.waiting.indexOf(pending);
+        if (index === -1) return;
+        this.waiting.splice(index, 1);
+        pending.admit(null);
+        this.schedule();
+      };
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.waiting.push(pending);
+      this.schedule();
+    });
+  }
+
+  async getState(): Promise<RenderSchedulerState> {
+    const reserved = this.getReserved();
+    let external = NO_RESOURCES;
+    if (config.scheduler.enabled) {
+      try {
+        const pool = await this.getPoolReserved();
+        external = { memory: pool.memory - reserved.memory, cpus: pool.cpus - reserved.cpus };
+      } catch (error) {
+        logger.warn('Render scheduler could not read the reservation pool', { error });
+      }
+    }
+
+    return {
+      enabled: config.scheduler.enabled,
+      capacity: this.getCapacity(),
+      reserved,
+      external,
+      running: this.reservations.size,
+      waiting: this.waiting.length,
+      host: this.getHostResources(),
+    };
+  }
+
+  getHostResources(): HostResources {
+    return {
+      totalMemory: os.totalmem(),
+      freeMemory: os.freemem(),
+      cpus: os.cpus().length,
+      loadAverage: os.loadavg(),
+    };
+  }
+
+  /**
+   * Admit waiting sandboxes in order while the head of the line fits
+   */
+  private async schedule(): Promise<void> {
+    if (this.scheduling) {
+      this.rescheduleRequested = true;
+      return;
+    }
+    this.scheduling = true;
+
+    try {
+      do {
+        this.rescheduleRequested = false;
+        while (this.waiting.length > 0) {
+          const pending = this.waiting[0];
+          const granted = this.fit(pending, await this.getAvailable());
+          if (!granted) break;
+          // Another backend may have taken the room since; the next check tries again
+          const admission = await this.reserve(pending.request, granted, pending.queuedAt);
+          if (!admission) break;
+
+          const index = this.waiting.indexOf(pending);
+          if (index === -1) {
+            // Aborted while its reservation was being taken
+            admission.release();
+            continue;
+          }
+          this.waiting.splice(index, 1);
+          pending.admit(admission);
+        }
+      } while (this.rescheduleRequested);
+    } catch (error) {
+      logger.error('Render scheduler failed to admit sandboxes', { error });
+    } finally {
+      this.scheduling = false;
+      this.updatePolling();
+    }
+  }
+
+  /**
+   * What a sandbox gets out of what's available: everything it asked for, a downsized share
+   * no smaller than its minimum, or nothing yet
+   */
+  private fit(pending: PendingSandbox, available: SandboxResources): SandboxResources | null {
+    const { request, minimum } = pending;
+    if (request.memory <= available.memory && request.cpus <= available.cpus) return request;
+    if (!config.scheduler.downsize) return null;
+
+    const memory = parseSize(formatSize(Math.min(request.memory, available.memory)));
+    const cpus = Math.min(request.cpus, Math.floor(available.cpus * 10) / 10);
+    return memory >= minimum.memory && cpus >= minimum.cpus ? { memory, cpus } : null;
+  }
+
+  /**
+   * Take `granted` from the pool. Resolves with null when the pool no longer has room for it.
+   */
+  private async reserve(
+    request: SandboxResources,
+    granted: SandboxResources,
+    queuedAt: number
+  ): Promise<ResourceAdmission | null> {
+    const id = `${config.server.instanceId}:${uuidv4()}`;
+    const capacity = this.getCapacity();
+    const now = Date.now();
+    const reserved = await this.getRedis().eval(
+      RESERVE_SCRIPT,
+      1,
+      this.getPoolKey(),
+      id,
+      granted.memory,
+      granted.cpus,
+      capacity.memory,
+      capacity.cpus,
+      now,
+      now + RESERVATION_LEASE_MS
+    );
+    if (reserved !== 1) return null;
+
+    this.reservations.set(id, { ...granted });
+    this.updateRenewal();
+    return this.admit(request, granted, queuedAt, () => {
+      if (!this.reservations.delete(id)) return;
+      this.updateRenewal();
+      this.getRedis()
+        .hdel(this.getPoolKey(), id)
+        .catch(error => {
+          logger.warn('Render scheduler failed to release a reservation', { id, error });
+        })
+        .finally(() => this.schedule());
+    });
+  }
+
+  private admit(
+    request: SandboxResources,
+    granted: SandboxResources,
+    queuedAt: number,
+    release: () => void
+  ): ResourceAdmission {
+    return {
+      memory: formatSize(granted.memory),
+      cpus: granted.cpus,
+      downsized: granted.memory < request.memory || granted.cpus < request.cpus,
+      waitedMs: Date.now() - queuedAt,
+      release,
+    };
+  }
+
+  /**
+   * Room left within the capacity after the pool's reservations
+   */
+  private async getAvailable(): Promise<SandboxResources> {
+    const capacity = this.getCapacity();
+    const reserved = await this.getPoolReserved();
+
+    return {
+      memory: capacity.memory - reserved.memory,
+      cpus: capacity.cpus - reserved.cpus + CPU_EPSILON,
+    };
+  }
+
+  private getCapacity(): SandboxResources {
+    return {
+      memory: config.scheduler.memory
+        ? parseSize(config.scheduler.memory)
+        : os.totalmem() - parseSize(config.scheduler.headroomMemory),
+      cpus: config.scheduler.cpus || os.cpus().length,
+    };
+  }
+
+  private getReserved(): SandboxResources {
+    let memory = 0;
+    let cpus = 0;
+    for (const reservation of this.reservations.values()) {
+      memory += reservation.memory;
+      cpus += reservation.cpus;
+    }
+    return { memory, cpus };
+  }
+
+  /**
+   * Unexpired reservations of every backend in the pool, this one's included
+   */
+  private async getPoolReserved(): Promise<SandboxResources> {
+    const entries = await this.getRedis().hvals(this.getPoolKey());
+    const now = Date.now();
+    return entries
+      .map(entry => JSON.parse(entry) as PoolReservation)
+      .filter(reservation => reservation.expiresAt > now)
+      .reduce(
+        (total, reservation) => ({
+          memory: total.memory + reservation.memory,
+          cpus: total.cpus + reservation.cpus,
+        }),
+        NO_RESOURCES
+      );
+  }
+
+  /**
+   * Extend the lease of this process's reservations every RESERVATION_RENEW_INTERVAL_MS while
+   * it holds any
+   */
+  private updateRenewal(): void {
+    if (this.reservations.size === 0) {
+      clearInterval(this.renewTimer);
+      this.renewTimer = undefined;
+      return;
+    }
+    if (this.renewTimer) return;
+
+    this.renewTimer = setInterval(() => {
+      const expiresAt = Date.now() + RESERVATION_LEASE_MS;
+      const leases = Object.fromEntries(
+        [...this.reservations].map(([id, reservation]) => [
+          id,
+          JSON.stringify({ ...reservation, expiresAt }),
+        ])
+      );
+      if (Object.keys(leases).length === 0) return;
+      this.getRedis()
+        .hset(this.getPoolKey(), leases)
+        .catch(error => {
+          logger.warn('Render scheduler failed to renew its reservations', { error });
+        });
+    }, RESERVATION_RENEW_INTERVAL_MS);
+    this.renewTimer.unref();
+  }
+
+  private getRedis(): Redis {
+    if (!this.redis) {
+      this.redis = new Redis(config.redis.url);
+      this.redis.on('error', (error: Error) => {
+        logger.error('Render scheduler Redis error', { error: error.message });
+      });
+    }
+    return this.redis;
+  }
+
+  private getPoolKey(): string {
+    return `scheduler:reservations:${config.scheduler.pool}`;
+  }
+
+  /**
+   * While sandboxes wait, re-check the pool every SCHEDULER_POLL_INTERVAL_MS: sandboxes of
+   * other backends exiting don't trigger a release here
+   */
+  private updatePolling(): void {
+    if (this.waiting.length === 0) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+      return;
+    }
+    if (this.pollTimer) return;
+
+    this.pollTimer = setInterval(() => {
+      for (const pending of this.waiting) {
+        const waitedSeconds = Math.round((Date.now() - pending.queuedAt) / 1000);
+        pending.onWait?.(
+          `Waiting for host resources (${waitedSeconds}s): needs ${formatSize(pending.request.memory)} memory and ${pending.request.cpus} CPUs`
+        );
+      }
+      this.schedule();
+    }, config.scheduler.pollIntervalMs);
+    this.pollTimer.unref();
+  }
+}
+
+export const renderScheduler = new RenderScheduler();
@@ -0,0 +1,184 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { RecoveryReport } from '../types';
+import { DockerContainerSummary, MLANIM_LABELS, dockerClient } from './dockerClient';
+import { JobQueueService, jobQueueService } from './jobQueueService';
+
+// Dry runs work in temp/<jobId>-dryrun
+const DRY_RUN_SUFFIX = '-dryrun';
+// Not job outputs: the render cache lives under outputs/cache
+const RESERVED_OUTPUT_DIRS = ['cache'];
+
+/**
+ * Boot-time reconciliation after a crash: compares render containers, the temp/ and outputs/
+ * directories and the queue, kills containers and deletes files no live job owns, re-queues or
+ * fails jobs left active by a dead worker, and logs a report of what it did.
+ */
+export class StartupRecoveryService {
+  private readonly tempDir = path.join(process.cwd(), 'temp');
+  private readonly outputsDir = path.join(process.cwd(), 'outputs');
+
+  constructor(private readonly jobQueue: JobQueueService) {}
+
+  async recover(): Promise<RecoveryReport> {
+    const startedAt = Date.now();
+    const report: RecoveryReport = {
+      requeued: [],
+      failed: [],
+      live: [],
+      removedContainers: [],
+      adoptedContainers: [],
+      removedTempDirs: [],
+      clearedOutputDirs: [],
+      unknownOutputDirs: [],
+    };
+
+    const containers = await this.listRenderContainers();
+    // Partial files go before the job is re-queued and can be picked up again
+    const jobs = await this.jobQueue.recoverInterruptedJobs(jobId =>
+      this.clearJobFiles(jobId, report)
+    );
+    Object.assign(report, jobs);
+
+    const liveJobIds = new Set(jobs.live);
+    await this.reconcileContainers(containers, report);
+    await this.removeTempDirs(liveJobIds, startedAt, report);
+    // Worker processes don't have the job history to tell finished jobs' outputs apart
+    if (this.jobQueue.hasHistory()) await this.findUnknownOutputDirs(report);
+
+    logger.info('Startup recovery finished', {
+      requeuedJobs: report.requeued,
+      failedJobs: report.failed,
+      liveJobs: report.live,
+      removedContainers: report.removedContainers,
+      adoptedContainers: report.adoptedContainers,
+      removedTempDirs: report.removedTempDirs,
+      clearedOutputDirs: report.clearedOutputDirs,
+      unknownOutputDirs: report.unknownOutputDirs,
+    });
+    return report;
+  }
+
+  /**
+   * Render containers on this Docker host, of every instance; none without the Docker backend
+   */
+  private async listRenderContainers(): Promise<DockerContainerSummary[]> {
+    if (config.rendering.backend !== 'docker') return [];
+
+    try {
+      return await dockerClient.listContainers({ label: [MLANIM_LABELS.jobId] });
+    } catch (error) {
+      logger.warn('Startup recovery could not list render containers', { error });
+      return [];
+    }
+  }
+
+  /**
+   * Kill and remove containers of processes that are gone. Containers of another process
+   * whose heartbeat is current are left to it, whatever state their job is in.
+   */
+  private async reconcileContainers(
+    containers: DockerContainerSummary[],
+    report: RecoveryReport
+  ): Promise<void> {
+    for (const container of containers) {
+      const jobId = container.Labels[MLANIM_LABELS.jobId];
+      if (this.jobQueue.isJobRunningHere(jobId)) continue;
+
+      const instanceId = container.Labels[MLANIM_LABELS.instance];
+      if (await this.jobQueue.isOtherInstanceAlive(instanceId)) {
+        if (container.State === 'running') report.adoptedContainers.push(container.Id);
+        continue;
+      }
+
+      try {
+        await dockerClient.killContainer(container.Id);
+        await dockerClient.removeContainer(container.Id);
+        report.removedContainers.push(container.Id);
+      } catch (error) {
+        logger.warn('Startup recovery failed to remove container', {
+          jobId,
+          containerId: container.Id,
+          error,
+        });
+      }
+    }
+  }
+
+  /**
+   * Delete the temp files and partial outputs of an interrupted job
+   */
+  private async clearJobFiles(jobId: string, report: RecoveryReport): Promise<void> {
+    for (const name of [jobId, `${jobId}${DRY_RUN_SUFFIX}`]) {
+      if (await this.removeDir(this.tempDir, name)) report.removedTempDirs.push(name);
+    }
+    if (await this.removeDir(this.outputsDir, jobId)) report.clearedOutputDirs.push(jobId);
+  }
+
+  /**
+   * Delete temp/ directories left from before this start by jobs not running on this instance.
+   * Live jobs of other instances keep theirs, in case they share the directory.
+   */
+  private async removeTempDirs(
+    liveJobIds: Set<string>,
+    startedAt: number,
+    report: RecoveryReport
+  ): Promise<void> {
+    for (const name of await this.listDirs(this.tempDir, startedAt)) {
+      const jobId = name.endsWith(DRY_RUN_SUFFIX) ? name.slice(0, -DRY_RUN_SUFFIX.length) : name;
+      if (this.jobQueue.isJobRunningHere(jobId) || liveJobIds.has(jobId)) continue;
+
+      if (await this.removeDir(this.tempDir, name)) report.removedTempDirs.push(name);
+    }
+  }
+
+  /**
+   * Report output directories of jobs neither the queue nor the history knows
+   */
+  private async findUnknownOutputDirs(report: RecoveryReport): Promise<void> {
+    for (const name of await this.listDirs(this.outputsDir)) {
+      if (RESERVED_OUTPUT_DIRS.includes(name)) continue;
+      if (!(await this.jobQueue.hasJobRecord(name))) report.unknownOutputDirs.push(name);
+    }
+  }
+
+  /**
+   * Subdirectories of `dir`, optionally only those last modified before `before`
+   */
+  private async listDirs(dir: string, before?: number): Promise<string[]> {
+    try {
+      const entries = await fs.readdir(dir, { withFileTypes: true });
+      const names: string[] = [];
+      for (const entry of entries) {
+        if (!entry.isDirectory()) continue;
+        if (before && (await fs.stat(path.join(dir, entry.name))).mtimeMs >= before) continue;
+        names.push(entry.name);
+      }
+      return names;
+    } catch (error) {
+      logger.warn('Startup recovery could not read directory', { dir, error });
+      return [];
+    }
+  }
+
+  /**
+   * Delete a directory if it exists; resolves with whether it did
+   */
+  private async removeDir(dir: string, name: string): Promise<boolean> {
+    const target = path.join(dir, name);
+    try {
+      await fs.access(target);
+      await fs.rm(target, { recursive: true, force: true });
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.warn('Startup recovery failed to remove directory', { path: target, error });
+      }
+      return false;
+    }
+  }
+}
+
+export const startupRecoveryService = new StartupRecoveryService(jobQueueService);
@@ -1,24 +1,105 @@
 import fetch from 'node-fetch';
 import { config } from '../config';
 import { logger } from '../utils/logger';
+import { CodeGenerationProvider } from '../types';
 
 export interface TogetherResponse {
   code: string;
   explanation?: string;
 }
 
-export class TogetherService {
-  private readonly apiKey: string;
-  private readonly baseUrl: string;
-  private readonly defaultModel: string;
+/**
+ * Connection settings for an endpoint that speaks the OpenAI chat completions dialect
+ */
+export interface ChatCompletionsSettings {
+  apiKey: string;
+  baseUrl: string;
+}
+
+export class TogetherService implements CodeGenerationProvider {
+  readonly name: string = 'together';
+  readonly label: string = 'Together';
+  readonly defaultModel: string;
+  protected readonly apiKey: string;
+  protected readonly baseUrl: string;
 
-  constructor(modelOverride?: string) {
-    this.apiKey = config.together.apiKey;
-    this.baseUrl = config.together.baseUrl;
+  constructor(modelOverride?: string, settings: ChatCompletionsSettings = config.together) {
+    this.apiKey = settings.apiKey;
+    this.baseUrl = settings.baseUrl.replace(/\/+$/, '');
     // Sensible default general LLM; user can override from UI
     this.defaultModel = modelOverride || 'meta-llama/Meta-Llama-3.1-8B-Instruct-Turbo';
   }
 
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  /**
+   * Throw if the endpoint cannot be called with the current configuration
+   */
+  protected ensureConfigured(): void {
+    if (!this.apiKey) {
+      throw new Error(`${this.label} API key is not configured`);
+    }
+  }
+
+  /**
+   * Request headers, omitting Authorization when no API key is set
+   */
+  protected buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+
+  /**
+   * List chat models available to this API key
+   */
+  async listModels(): Promise<string[]> {
+    this.ensureConfigured();
+
+    const response = await fetch(`${this.baseUrl}/models`, {
+      headers: this.buildHeaders(),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      logger.error(`${this.label} API error (list models)`, {
+        status: response.status,
+        errorText,
+      });
+      throw new Error(`${this.label} API error: ${response.status} ${errorText}`);
+    }
+
+    const data: any = await response.json();
+    const models: any[] = Array.isArray(data) ? data : data?.data || [];
+    return models
+      .filter(model => !model.type || model.type === 'chat')
+      .map(model => model.id)
+      .filter((id: unknown): id is string => typeof id === 'string');
+  }
+
+  /**
+   * Check that the API is reachable with the configured key
+   */
+  async healthCheck(): Promise<boolean> {
+    if (!this.isConfigured()) {
+      return false;
+    }
+
+    try {
+      const response = await fetch(`${this.baseUrl}/models`, {
+        headers: this.buildHeaders(),
+      });
+      return response.ok;
+    } catch (error) {
+      logger.warn(`${this.label} health check failed`, { error });
+      return false;
+    }
+  }
+
   async regenerateManimCode(
     originalPrompt: string,
     failedCode: string,
@@ -26,9 +107,7 @@ export class TogetherService {
     regenerationCount: number = 1,
     model?: string
   ): Promise<TogetherResponse> {
-    if (!this.apiKey) {
-      throw new Error('Together API key is not configured');
-    }
+    this.ensureConfigured();
 
     const systemPrompt = `You are an expert in mathematical animations and the Manim library.
 The previous code generation failed with an error. Please analyze the error and generate corrected code.
@@ -52,7 +131,7 @@ INSTRUCTIONS:
 
 Validation rules:
 - Imports: use only "from manim import *" plus standard library modules when needed
-- Must define exactly one Scene subclass with a construct(self) method
+- Define at least one Scene subclass with a construct(self) method; for long, multi-part animations use several Scene subclasses, written in the order they should play (they are rendered and joined into one video)
 - Do NOT invent helpers or functions that don't exist in manimcommunity/manim or the Python standard library
 - Use clear and meaningful variable names
 - Add concise comments explaining the fixes made
@@ -65,16 +144,13 @@ This is regeneration attempt #${regenerationCount}. Make sure to fix the specifi
     const chosenModel = model || this.defaultModel;
 
     try {
-      logger.info('Calling Together API for regeneration', {
+      logger.info(`Calling ${this.label} API for regeneration`, {
         model: chosenModel,
         regenerationCount,
       });
       const response = await fetch(`${this.baseUrl}/chat/completions`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${this.apiKey}`,
-        },
+        headers: this.buildHeaders(),
         body: JSON.stringify({
           model: chosenModel,
           messages: [
@@ -88,56 +164,39 @@ This is regeneration attempt #${regenerationCount}. Make sure to fix the specifi
 
       if (!response.ok) {
         const errorText = await response.text();
-        logger.error('Together API error (regeneration)', { status: response.status, errorText });
-        throw new Error(`Together API error: ${response.status} ${errorText}`);
+        logger.error(`${this.label} API error (regeneration)`, {
+          status: response.status,
+          errorText,
+        });
+        throw new Error(`${this.label} API error: ${response.status} ${errorText}`);
       }
 
       const data: any = await response.json();
       const content = data?.choices?.[0]?.message?.content || '';
       const code = this.extractCodeFromResponse(content);
 
-      return { code, explanation: `Regenerated code using Together: ${chosenModel}` };
+      return { code, explanation: `Regenerated code using ${this.label}: ${chosenModel}` };
     } catch (err) {
-      logger.error('Failed Together regeneration', { error: err });
+      logger.error(`Failed ${this.label} regeneration`, { error: err });
       if (err instanceof Error) {
-        throw new Error(`Together regeneration failed: ${err.message}`);
+        throw new Error(`${this.label} regeneration failed: ${err.message}`);
       }
-      throw new Error('Together regeneration failed: Unknown error');
+      throw new Error(`${this.label} regeneration failed: Unknown error`);
     }
   }
 
   async generateManimCode(prompt: string, model?: string): Promise<TogetherResponse> {
-    if (!this.apiKey) {
-      throw new Error('Together API key is not configured');
-    }
-
-    const systemPrompt = `You are an expert in mathematical animations and the Manim library.
-Generate valid Python code using the manimcommunity/manim package.
-
-Validation rules:
-- Imports: use only "from manim import *" plus standard library modules when needed (e.g., import random, import math)
-- Must define exactly one Scene subclass with a construct(self) method
-- Only use functions and classes that actually exist in manimcommunity/manim
-- If a standard library function is used, include the correct import
-- Do NOT invent helpers, aliases, or outdated Manim APIs
-- Use clear and meaningful variable names
-- Add concise comments explaining steps
-- Keep animations simple but visually engaging
-- Ensure the script is complete, runnable, and will render without syntax or runtime errors
-- Output ONLY the final Python code, no markdown or explanations
+    this.ensureConfigured();
 
-User prompt: ${prompt}`;
+    const systemPrompt = this.buildGenerationPrompt(prompt);
 
     const chosenModel = model || this.defaultModel;
 
     try {
-      logger.info('Calling Together API for generation', { model: chosenModel });
+      logger.info(`Calling ${this.label} API for generation`, { model: chosenModel });
       const response = await fetch(`${this.baseUrl}/chat/completions`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${this.apiKey}`,
-        },
+        headers: this.buildHeaders(),
         body: JSON.stringify({
           model: chosenModel,
           messages: [
@@ -151,8 +210,8 @@ User prompt: ${prompt}`;
 
       if (!response.ok) {
         const errorText = await response.text();
-        logger.error('Together API error', { status: response.status, errorText });
-        throw new Error(`Together API error: ${response.status} ${errorText}`);
+        logger.error(`${this.label} API error`, { status: response.status, errorText });
+        throw new Error(`${this.label} API error: ${response.status} ${errorText}`);
       }
 
       const data: any = await response.json();
@@ -160,48 +219,107 @@ User prompt: ${prompt}`;
 
       const code = this.extractCodeFromResponse(content);
 
-      return { code, explanation: `Generated Manim code using Together: ${chosenModel}` };
+      return { code, explanation: `Generated Manim code using ${this.label}: ${chosenModel}` };
     } catch (error) {
-      logger.error('Failed Together generation', { error });
+      logger.error(`Failed ${this.label} generation`, { error });
       if (error instanceof Error) {
-        throw new Error(`Together generation failed: ${error.message}`);
+        throw new Error(`${this.label} generation failed: ${error.message}`);
       }
-      throw new Error('Together generation failed: Unknown error');
+      throw new Error(`${this.label} generation failed: Unknown error`);
     }
   }
 
-  validateGeneratedCode(code: string): boolean {
-    const dangerousPatterns = [
-      /import\s+os/,
-      /import\s+subprocess/,
-      /import\s+sys/,
-      /eval\s*\(/,
-      /exec\s*\(/,
-      /__import__\s*\(/,
-      /open\s*\(/,
-      /file\s*\(/,
-    ];
-
-    for (const pattern of dangerousPatterns) {
-      if (pattern.test(code)) {
-        logger.warn('Together generated code contains potentially dangerous patterns', {
-          pattern: pattern.source,
-        });
-        return false;
+  /**
+   * Generate Manim code with `stream: true`, forwarding each content delta as it arrives
+   */
+  async generateManimCodeStream(
+    prompt: string,
+    onChunk: (chunk: string) => void,
+    model?: string
+  ): Promise<TogetherResponse> {
+    this.ensureConfigured();
+
+    const chosenModel = model || this.defaultModel;
+
+    try {
+      logger.info(`Calling ${this.label} API for streaming generation`, { model: chosenModel });
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: this.buildHeaders(),
+        body: JSON.stringify({
+          model: chosenModel,
+          messages: [
+            { role: 'system', content: 'You generate only Python code for manim.' },
+            { role: 'user', content: this.buildGenerationPrompt(prompt) },
+          ],
+          temperature: 0.2,
+          max_tokens: 2048,
+          stream: true,
+        }),
+      });
+
+      if (!response.ok || !response.body) {
+        const errorText = await response.text();
+        logger.error(`${this.label} API error (stream)`, { status: response.status, errorText });
+        throw new Error(`${this.label} API error: ${response.status} ${errorText}`);
       }
-    }
 
-    const requiredPatterns = [/from\s+manim\s+import/, /class\s+\w+.*Scene/, /def\s+construct/];
-    for (const pattern of requiredPatterns) {
-      if (!pattern.test(code)) {
-        logger.warn('Together generated code missing required Manim elements', {
-          pattern: pattern.source,
-        });
-        return false;
+      // The body is a server-sent event stream of `data: {json}` lines ending with `data: [DONE]`
+      let content = '';
+      let buffer = '';
+      for await (const part of response.body) {
+        buffer += part.toString();
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) continue;
+
+          const payload = trimmed.slice('data:'.length).trim();
+          if (!payload || payload === '[DONE]') continue;
+
+          try {
+            const delta = JSON.parse(payload)?.choices?.[0]?.delta?.content;
+            if (delta) {
+              content += delta;
+              onChunk(delta);
+            }
+          } catch (parseError) {
+            logger.debug(`Skipping unparseable ${this.label} stream line`, { line: trimmed });
+          }
+        }
       }
+
+      const code = this.extractCodeFromResponse(content);
+
+      return { code, explanation: `Generated Manim code using ${this.label}: ${chosenModel}` };
+    } catch (error) {
+      logger.error(`Failed ${this.label} streaming generation`, { error });
+      if (error instanceof Error) {
+        throw new Error(`${this.label} generation failed: ${error.message}`);
+      }
+      throw new Error(`${this.label} generation failed: Unknown error`);
     }
+  }
+
+  private buildGenerationPrompt(prompt: string): string {
+    return `You are an expert in mathematical animations and the Manim library.
+Generate valid Python code using the manimcommunity/manim package.
 
-    return true;
+Validation rules:
+- Imports: use only "from manim import *" plus standard library modules when needed (e.g., import random, import math)
+- Define at least one Scene subclass with a construct(self) method; for long, multi-part animations use several Scene subclasses, written in the order they should play (they are rendered and joined into one video)
+- Only use functions and classes that actually exist in manimcommunity/manim
+- If a standard library function is used, include the correct import
+- Do NOT invent helpers, aliases, or outdated Manim APIs
+- Use clear and meaningful variable names
+- Add concise comments explaining steps
+- Keep animations simple but visually engaging
+- Ensure the script is complete, runnable, and will render without syntax or runtime errors
+- Output ONLY the final Python code, no markdown or explanations
+
+User prompt: ${prompt}`;
   }
 
   private extractCodeFromResponse(response: string): string {
@@ -1,7 +1,59 @@
-export interface GenerateRequest {
+export type RenderQuality = 'l' | 'm' | 'h' | 'p' | 'k';
+
+/** `png` renders a PNG sequence, delivered as a zip of the frames */
+export type RenderFormat = 'mp4' | 'webm' | 'gif' | 'png';
+
+/**
+ * Output options passed through to Manim; unset fields use Manim's defaults for the quality
+ */
+export interface RenderSettings {
+  quality?: RenderQuality;
+  fps?: number;
+  /** Pixel size as WIDTHxHEIGHT, e.g. 1920x1080 */
+  resolution?: string;
+  format?: RenderFormat;
+}
+
+/** Stage of a two-phase render: a quick low-quality preview, then the full-quality render */
+export type RenderPhase = 'preview' | 'final';
+
+/** Named set of sandbox limits a render runs with, from smallest to largest */
+export type ResourceProfileName = 'preview' | 'standard' | 'heavy';
+
+/**
+ * Limits of every sandbox a render runs in, as set for a profile in config
+ */
+export interface ResourceProfile {
+  name: ResourceProfileName;
+  /** Memory limit, e.g. '4g' */
+  memory: string;
+  cpus: number;
+  /** Most processes and threads a sandbox may run at once */
+  pidsLimit: number;
+  /** Size of the scratch /tmp, the only disk a sandbox gets besides its output directory */
+  scratchSize: string;
+  timeoutMs: number;
+}
+
+/**
+ * Highest usage sampled from a render's sandboxes
+ */
+export interface ResourceUsage {
+  peakMemoryBytes: number;
+  peakCpuPercent: number;
+  peakPids: number;
+}
+
+export interface GenerateRequest extends RenderSettings {
   prompt: string;
-  provider?: 'gemini' | 'together';
+  provider?: string;
   model?: string;
+  /** Render a quick -ql preview first; the requested quality (default h) is rendered after it */
+  preview?: boolean;
+  /** Queue the full-quality render as soon as the preview is done (default true) */
+  autoFinalize?: boolean;
+  /** Limits to render with; at most the largest profile the client is allowed */
+  resourceProfile?: ResourceProfileName;
 }
 
 export interface GenerateResponse {
@@ -10,22 +62,232 @@ export interface GenerateResponse {
   code: string;
 }
 
-export interface JobStatus {
+export interface JobStatus extends RenderSettings {
   id: string;
-  status: 'pending' | 'running' | 'done' | 'error';
+  status: 'pending' | 'validating' | 'running' | 'done' | 'error' | 'cancelled';
   progress?: number;
   videoUrl?: string;
+  /** Low-quality preview of a two-phase render, available before videoUrl */
+  previewUrl?: string;
+  phase?: RenderPhase;
+  previewJobId?: string;
+  finalJobId?: string;
+  /** Per-scene clips of a multi-scene render, in order */
+  scenes?: { name: string; url: string }[];
+  cached?: boolean;
   error?: string;
   code?: string;
+  regenerationCount?: number;
+  originalJobId?: string;
+  provider?: string;
+  model?: string;
+  validationError?: ScriptError;
+  resourceProfile?: ResourceProfileName;
+  /** Set once the render is done, when the backend can measure it */
+  resourceUsage?: ResourceUsage;
   createdAt: Date;
   updatedAt: Date;
 }
 
-export interface GeminiResponse {
+export interface CodeGenerationResponse {
   code: string;
   explanation?: string;
 }
 
+export type GeminiResponse = CodeGenerationResponse;
+
+/**
+ * Contract every LLM backend implements to turn prompts into Manim code
+ */
+export interface CodeGenerationProvider {
+  /** Identifier used in requests and stored on jobs */
+  readonly name: string;
+  /** Human-readable name shown in the UI */
+  readonly label: string;
+  /** Model used when the request does not specify one */
+  readonly defaultModel: string;
+
+  isConfigured(): boolean;
+  generateManimCode(prompt: string, model?: string): Promise<CodeGenerationResponse>;
+  /** Same as generateManimCode, but calls onChunk with raw text as the model produces it */
+  generateManimCodeStream(
+    prompt: string,
+    onChunk: (chunk: string) => void,
+    model?: string
+  ): Promise<CodeGenerationResponse>;
+  regenerateManimCode(
+    originalPrompt: string,
+    failedCode: string,
+    error: string,
+    regenerationCount?: number,
+    model?: string
+  ): Promise<CodeGenerationResponse>;
+  listModels(): Promise<string[]>;
+  healthCheck(): Promise<boolean>;
+}
+
+/**
+ * Structured progress parsed from Manim's output
+ */
+export type ManimProgressEvent =
+  | {
+      /** A progress bar update: `Animation N: <name> | x% | done/total` */
+      kind: 'animation';
+      /** Scene being rendered; set for multi-scene scripts */
+      scene?: string;
+      /** 0-based index of the animation within its scene */
+      animation: number;
+      name: string;
+      framesDone: number;
+      framesTotal: number;
+      percent: number;
+    }
+  | {
+      /** An animation finished and its partial movie file was written */
+      kind: 'partial-movie';
+      scene?: string;
+      animation: number;
+      path?: string;
+    };
+
+/**
+ * A line or event from a running render, streamed to the job's progress view
+ */
+export interface ManimOutput {
+  type: 'stdout' | 'stderr' | 'progress' | 'info';
+  data: string;
+  timestamp: Date;
+  /** Set on `progress` outputs parsed from Manim's progress bars and logs */
+  event?: ManimProgressEvent;
+}
+
+/**
+ * Something that happened to a job, published on the job event bus
+ */
+export type JobEventPayload =
+  | { type: 'status'; status: JobStatus['status']; error?: string }
+  /** A regenerated job replaces this one, or a final render was queued for this preview */
+  | { type: 'linked'; nextJobId?: string; finalJobId?: string }
+  | { type: 'progress'; progress: number }
+  | { type: 'output'; output: ManimOutput }
+  | { type: 'render-progress'; event: ManimProgressEvent };
+
+/**
+ * A published job event. `id` is its entry ID in the job's Redis stream, usable to resume.
+ */
+export type JobEvent = JobEventPayload & { id: string; jobId: string; timestamp: string };
+
+/**
+ * What cancelling a job did: `dequeued` removed a job that had not started,
+ * `stopped` aborted its running validation or render
+ */
+export type JobCancellation = 'dequeued' | 'stopped';
+
+/** Job operations that can be requested over the WebSocket API */
+export type JobControlAction = 'cancel' | 'regenerate';
+
+/**
+ * Messages clients send over the WebSocket API
+ */
+export type JobSocketClientMessage =
+  | { type: 'subscribe'; jobIds: string[] }
+  | { type: 'unsubscribe'; jobIds: string[] }
+  /** Status and progress events of every job */
+  | { type: 'subscribe-queue' }
+  | { type: 'unsubscribe-queue' }
+  /** `requestId` is echoed back in the matching `result` or `error` message */
+  | { type: JobControlAction; jobId: string; requestId?: string };
+
+/**
+ * Messages the server sends over the WebSocket API
+ */
+export type JobSocketServerMessage =
+  | { type: 'job-event'; event: JobEvent }
+  | { type: 'queue-event'; event: JobEvent }
+  | { type: 'subscriptions'; jobIds: string[]; queue: boolean }
+  | {
+      type: 'result';
+      action: JobControlAction;
+      jobId: string;
+      requestId?: string;
+      /** Set for `regenerate`: the job running the regenerated code */
+      newJobId?: string;
+      /** Set for `cancel` */
+      cancellation?: JobCancellation;
+    }
+  | { type: 'error'; message: string; code: string; requestId?: string };
+
+export interface RenderResult {
+  /** File name within the job's output directory */
+  outputPath: string;
+  duration: number;
+  scenes?: SceneClip[];
+  /** Peak usage across the render's sandboxes, when the backend can measure it */
+  resourceUsage?: ResourceUsage;
+}
+
+/**
+ * Where Manim runs: a Docker container, a local sandbox, ...
+ * The queue workers only talk to this interface.
+ */
+export interface RenderBackend {
+  /** Identifier used in config (RENDER_BACKEND) and health output */
+  readonly name: string;
+
+  /** Render a script into outputs/<jobId>/ within `profile`'s limits; aborting `signal` stops it */
+  renderAnimation(
+    code: string,
+    jobId: string,
+    onOutput?: (output: ManimOutput) => void,
+    settings?: RenderSettings,
+    signal?: AbortSignal,
+    profile?: ResourceProfile
+  ): Promise<RenderResult>;
+  /** Run `manim --dry_run`; resolves with the script's error, or null when it passed */
+  dryRun(code: string, jobId: string, signal?: AbortSignal): Promise<ScriptError | null>;
+  /** Stop every process this backend is running for a job */
+  kill(jobId: string): Promise<void>;
+  /** Stop every process this backend instance is running, e.g. on shutdown */
+  killAll(): Promise<void>;
+  /** Whether the backend's tooling is available on this host */
+  healthCheck(): Promise<boolean>;
+}
+
+export interface ProviderInfo {
+  name: string;
+  label: string;
+  defaultModel: string;
+  configured: boolean;
+}
+
+/**
+ * A problem found by static analysis of a generated script.
+ * Errors block rendering; warnings are surfaced but allowed.
+ */
+export interface CodeFinding {
+  rule: string;
+  severity: 'error' | 'warning';
+  message: string;
+  line: number;
+  column: number;
+}
+
+export interface CodeAnalysisResult {
+  valid: boolean;
+  findings: CodeFinding[];
+  /** Renderable Scene classes in definition order */
+  sceneNames?: string[];
+}
+
+/**
+ * Error raised by a generated script during the dry-run validation stage
+ */
+export interface ScriptError {
+  type: string;
+  message: string;
+  line?: number;
+}
+
 export interface CodeRegenerationRequest {
   originalPrompt: string;
   failedCode: string;
@@ -40,17 +302,130 @@ export interface CodeRegenerationResponse {
   regenerationCount: number;
 }
 
-export interface RenderJob {
+/**
+ * One scene's clip from a multi-scene render; the job output is all clips joined in order
+ */
+export interface SceneClip {
+  name: string;
+  /** File name within the job's output directory */
+  outputPath: string;
+}
+
+export interface RenderJob extends RenderSettings {
   id: string;
   prompt: string;
   code: string;
-  status: 'pending' | 'running' | 'done' | 'error';
+  status: 'pending' | 'validating' | 'running' | 'done' | 'error' | 'cancelled';
   outputPath?: string;
   error?: string;
   createdAt: Date;
   updatedAt: Date;
   regenerationCount?: number;
   originalJobId?: string;
+  provider?: string;
+  model?: string;
+  validationError?: ScriptError;
+  phase?: RenderPhase;
+  autoFinalize?: boolean;
+  /** Set on final jobs: the preview job whose code they re-render */
+  previewJobId?: string;
+  /** The code already passed a dry run, as a preview's; the job skips validation */
+  validated?: boolean;
+  /** Set on preview jobs once the full-quality render is queued */
+  finalJobId?: string;
+  scenes?: SceneClip[];
+  /** Completed from the render cache instead of rendering */
+  cached?: boolean;
+  resourceProfile?: ResourceProfileName;
+  resourceUsage?: ResourceUsage;
+}
+
+/**
+ * A job as kept in the job history database, after the queue and Redis have dropped it
+ */
+export interface JobHistoryRecord extends RenderJob {
+  progress: number;
+  /** Set on failed jobs replaced by a regenerated one */
+  nextJobId?: string;
+  /** First job of the regeneration chain this job belongs to */
+  rootJobId: string;
+  startedAt?: Date;
+  finishedAt?: Date;
+  /** Render time reported by the renderer */
+  renderDurationMs?: number;
+}
+
+export type JobListSort = 'createdAt' | 'updatedAt' | 'progress';
+
+/**
+ * Filters, search, sort and page of a job history listing
+ */
+export interface JobListQuery {
+  status?: RenderJob['status'][];
+  provider?: string;
+  model?: string;
+  createdAfter?: Date;
+  createdBefore?: Date;
+  /** Only jobs whose regeneration chain has (or has not) more than one job */
+  hasRegenerations?: boolean;
+  /** Full-text search over prompts; every word must match, as a prefix */
+  search?: string;
+  sort?: JobListSort;
+  order?: 'asc' | 'desc';
+  limit?: number;
+  /** `nextCursor` of the previous page */
+  cursor?: string;
+}
+
+export interface JobListPage {
+  jobs: JobHistoryRecord[];
+  /** Set when more jobs match; pass it as `cursor` to get them */
+  nextCursor?: string;
+}
+
+/** A status a job entered, in the job history */
+export interface JobStatusTransition {
+  status: RenderJob['status'];
+  error?: string;
+  at: Date;
+}
+
+/** One script of a job's regeneration chain, oldest first */
+export interface JobCodeVersion {
+  jobId: string;
+  regenerationCount: number;
+  code: string;
+  status: RenderJob['status'];
+  error?: string;
+  createdAt: Date;
+}
+
+/**
+ * Jobs a startup recovery found left active by a worker that is gone
+ */
+export interface InterruptedJobsRecovery {
+  /** Put back on the queue */
+  requeued: string[];
+  /** Failed, having been interrupted more than the allowed number of times */
+  failed: string[];
+  /** Still run by a live worker, possibly on another instance */
+  live: string[];
+}
+
+/**
+ * What the startup recovery found and did. Job IDs are render job IDs.
+ */
+export interface RecoveryReport extends InterruptedJobsRecovery {
+  /** Containers of jobs no live worker runs; killed and removed */
+  removedContainers: string[];
+  /** Running containers of jobs a live worker on another instance runs; left to it */
+  adoptedContainers: string[];
+  /** temp/ directories of jobs not running here */
+  removedTempDirs: string[];
+  /** Partial outputs of recovered jobs, cleared before they render again */
+  clearedOutputDirs: string[];
+  /** outputs/ directories no job in the queue or history accounts for; left in place */
+  unknownOutputDirs: string[];
 }
 
 export interface ApiError {
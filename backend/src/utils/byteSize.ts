@@ -0,0 +1,21 @@
+const UNITS: Record<string, number> = { '': 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3 };
+
+/**
+ * Bytes in a Docker-style size such as '4g' or '500m'
+ */
+export function parseSize(size: string): number {
+  const match = size.trim().match(/^(\d+(?:\.\d+)?)([kmg]?)b?$/i);
+  if (!match) {
+    throw new Error(`Invalid size: ${size}`);
+  }
+  return Math.floor(parseFloat(match[1]) * UNITS[match[2].toLowerCase()]);
+}
+
+/**
+ * Docker-style size for a number of bytes, rounded down to whole megabytes below a gigabyte
+ * and to whole gigabytes only when exact, e.g. '4g' or '3584m'
+ */
+export function formatSize(bytes: number): string {
+  if (bytes >= UNITS.g && bytes % UNITS.g === 0) return `${bytes / UNITS.g}g`;
+  return `${Math.floor(bytes / UNITS.m)}m`;
+}
@@ -0,0 +1,185 @@
+import { ManimProgressEvent } from '../types';
+import { tokenizePython } from './pythonTokenizer';
+
+// tqdm bar as Manim draws it: "Animation 3: Create(Circle), etc.:  45%|████▌     | 27/60 [00:01<...]"
+const ANIMATION_BAR = /Animation\s+(\d+):\s*(.*?):?\s+(\d+)%\|[^|]*\|\s*(\d+)\/(\d+)/;
+// Logged once an animation is done: "Animation 3 : Partial movie file written in '<path>'"
+const PARTIAL_MOVIE = /Animation\s+(\d+)\s*:\s*Partial movie file written in(.*)$/;
+// Rich log layout: the source location printed at the right edge of wrapped log lines
+const LOG_LOCATION = /\s+\S+\.py:\d+\s*$/;
+// eslint-disable-next-line no-control-regex
+const ANSI = /\x1b\[[0-9;?]*[A-Za-z]/g;
+
+// Lines to look through for the rest of a wrapped partial movie path
+const MAX_PATH_LINES = 5;
+
+/**
+ * Turns the raw stdout/stderr of one Manim process into typed progress events.
+ * Chunks may split lines anywhere; progress bars redraw with carriage returns.
+ */
+export class ManimProgressParser {
+  private buffer = '';
+  private lastBar = '';
+  private pendingMovie: { animation: number; text: string; lines: number } | null = null;
+
+  constructor(private readonly scene?: string) {}
+
+  /**
+   * Feed a chunk of output, returning the events completed by it
+   */
+  push(chunk: string): ManimProgressEvent[] {
+    this.buffer += chunk.replace(ANSI, '');
+    const lines = this.buffer.split(/\r\n|\r|\n/);
+    this.buffer = lines.pop() || '';
+
+    const events: ManimProgressEvent[] = [];
+    for (const line of lines) {
+      const event = this.parseLine(line);
+      if (event) events.push(event);
+    }
+    return events;
+  }
+
+  /**
+   * Events still held back once the process has exited
+   */
+  flush(): ManimProgressEvent[] {
+    const events = this.buffer ? this.push('\n') : [];
+    if (this.pendingMovie) {
+      events.push(this.partialMovieEvent(this.pendingMovie.animation, this.pendingMovie.text));
+      this.pendingMovie = null;
+    }
+    return events;
+  }
+
+  private parseLine(line: string): ManimProgressEvent | null {
+    if (this.pendingMovie) {
+      const pending = this.pendingMovie;
+      pending.text += line.replace(LOG_LOCATION, '').trim();
+      pending.lines++;
+      if (/'[^']*'/.test(pending.text) || pending.lines >= MAX_PATH_LINES) {
+        this.pendingMovie = null;
+        return this.partialMovieEvent(pending.animation, pending.text);
+      }
+      return null;
+    }
+
+    const bar = line.match(ANIMATION_BAR);
+    if (bar) {
+      const event: ManimProgressEvent = {
+        kind: 'animation',
+        scene: this.scene,
+        animation: parseInt(bar[1], 10),
+        name: bar[2].trim(),
+        framesDone: parseInt(bar[4], 10),
+        framesTotal: parseInt(bar[5], 10),
+        percent: parseInt(bar[3], 10),
+      };
+      // tqdm redraws more often than the numbers change
+      const key = `${event.animation}:${event.framesDone}/${event.framesTotal}`;
+      if (key === this.lastBar) return null;
+      this.lastBar = key;
+      return event;
+    }
+
+    const movie = line.match(PARTIAL_MOVIE);
+    if (movie) {
+      const text = movie[2].replace(LOG_LOCATION, '').trim();
+      if (/'[^']*'/.test(text)) {
+        return this.partialMovieEvent(parseInt(movie[1], 10), text);
+      }
+      // Rich wrapped the path onto the following lines
+      this.pendingMovie = { animation: parseInt(movie[1], 10), text, lines: 0 };
+    }
+
+    return null;
+  }
+
+  private partialMovieEvent(animation: number, text: string): ManimProgressEvent {
+    return {
+      kind: 'partial-movie',
+      scene: this.scene,
+      animation,
+      path: text.match(/'([^']*)'/)?.[1],
+    };
+  }
+}
+
+/**
+ * Human-readable line for a progress event
+ */
+export function describeProgressEvent(event: ManimProgressEvent): string {
+  const scene = event.scene ? `${event.scene}: ` : '';
+  if (event.kind === 'animation') {
+    return `${scene}Animation ${event.animation} (${event.name}) ${event.framesDone}/${event.framesTotal} frames (${event.percent}%)`;
+  }
+  return `${scene}Animation ${event.animation} written`;
+}
+
+/**
+ * Number of animations a script will play, counted from its `.play(` and `.wait(` calls.
+ * Loops make this an underestimate, which RenderProgressTracker allows for.
+ */
+export function estimateAnimationCount(code: string): number {
+  try {
+    const tokens = tokenizePython(code);
+    let count = 0;
+    for (let i = 1; i < tokens.length - 1; i++) {
+      const token = tokens[i];
+      if (
+        token.type === 'name' &&
+        (token.value === 'play' || token.value === 'wait') &&
+        tokens[i - 1].value === '.' &&
+        tokens[i + 1].value === '('
+      ) {
+        count++;
+      }
+    }
+    return count;
+  } catch (_) {
+    return 0;
+  }
+}
+
+/**
+ * Overall render progress (0-100) from the progress events of all of a job's scenes
+ */
+export class RenderProgressTracker {
+  /** Per scene: animations finished and progress through the current one (0-1) */
+  private scenes = new Map<string, { finished: Set<number>; current: number }>();
+
+  constructor(private readonly expectedAnimations: number) {}
+
+  update(event: ManimProgressEvent): number {
+    const key = event.scene || '';
+    const scene = this.scenes.get(key) || { finished: new Set<number>(), current: 0 };
+    this.scenes.set(key, scene);
+
+    if (event.kind === 'partial-movie') {
+      scene.finished.add(event.animation);
+      scene.current = 0;
+    } else if (event.framesDone >= event.framesTotal) {
+      scene.finished.add(event.animation);
+      scene.current = 0;
+    } else {
+      scene.current = event.framesTotal > 0 ? event.framesDone / event.framesTotal : 0;
+    }
+
+    return this.getPercent();
+  }
+
+  getPercent(): number {
+    let finished = 0;
+    let current = 0;
+    let active = 0;
+    for (const scene of this.scenes.values()) {
+      finished += scene.finished.size;
+      current += scene.current;
+      if (scene.current > 0) active++;
+    }
+
+    // Never claim to be done: the estimate may be short, and encoding still follows
+    const total = Math.max(this.expectedAnimations, finished + active, 1);
+    return Math.min(99, Math.round(((finished + current) / total) * 100));
+  }
+}
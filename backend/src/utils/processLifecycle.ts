@@ -0,0 +1,45 @@
+import { config } from '../config';
+import { logger } from './logger';
+
+// Extra time on top of the grace period for closing queues and connections
+const SHUTDOWN_DEADLINE_MARGIN_MS = 30000;
+
+/**
+ * Exit on uncaught errors and run `shutdown` on SIGTERM/SIGINT. A second signal, or a shutdown
+ * still running past the grace period plus a margin, exits immediately.
+ */
+export function handleProcessLifecycle(shutdown: () => Promise<void>): void {
+  let shutdownSignal: NodeJS.Signals | undefined;
+
+  // Handle uncaught exceptions
+  process.on('uncaughtException', error => {
+    logger.error('Uncaught Exception', { error });
+    process.exit(1);
+  });
+
+  // Handle unhandled promise rejections
+  process.on('unhandledRejection', (reason, promise) => {
+    logger.error('Unhandled Rejection', { reason, promise });
+    process.exit(1);
+  });
+
+  const onSignal = (signal: NodeJS.Signals) => {
+    if (shutdownSignal) {
+      logger.warn(`${signal} received during shutdown, exiting immediately`);
+      process.exit(1);
+    }
+    shutdownSignal = signal;
+    logger.info(`${signal} received, shutting down gracefully`);
+
+    // Don't let a hung close keep the process around forever
+    setTimeout(() => {
+      logger.error('Graceful shutdown timed out, exiting');
+      process.exit(1);
+    }, config.server.shutdownGracePeriodMs + SHUTDOWN_DEADLINE_MARGIN_MS).unref();
+
+    shutdown();
+  };
+
+  process.on('SIGTERM', onSignal);
+  process.on('SIGINT', onSignal);
+}
@@ -0,0 +1,253 @@
+export type PythonTokenType =
+  | 'name'
+  | 'number'
+  | 'string'
+  | 'op'
+  | 'newline'
+  | 'indent'
+  | 'dedent'
+  | 'end';
+
+export interface PythonToken {
+  type: PythonTokenType;
+  value: string;
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+export class PythonSyntaxError extends Error {
+  constructor(
+    message: string,
+    public readonly line: number,
+    public readonly column: number
+  ) {
+    super(message);
+    this.name = 'PythonSyntaxError';
+  }
+}
+
+const STRING_START = /^(?:[rRbBuUfF]|[rR][bBfF]|[bBfF][rR])?('''|"""|'|")/;
+const NUMBER =
+  /^(?:0[xX][0-9a-fA-F_]+|0[oO][0-7_]+|0[bB][01_]+|(?:\d[\d_]*\.?[\d_]*|\.\d[\d_]*)(?:[eE][+-]?\d[\d_]*)?[jJ]?)/;
+const NAME = /^[A-Za-z_\u00C0-\uFFFF][\w\u00C0-\uFFFF]*/;
+
+// Longest operators first so that `**=` is not read as `**` followed by `=`
+const OPERATORS = [
+  '**=', '//=', '>>=', '<<=', '...',
+  '->', ':=', '**', '//', '<<', '>>', '<=', '>=', '==', '!=',
+  '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '@=',
+  '+', '-', '*', '/', '%', '@', '&', '|', '^', '~', '<', '>',
+  '(', ')', '[', ']', '{', '}', ',', ':', '.', ';', '=',
+]; // prettier-ignore
+
+const CLOSING_BRACKETS: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+
+/**
+ * Split Python source into tokens following the rules of CPython's tokenizer:
+ * comments are dropped, NEWLINE only ends logical lines, and INDENT/DEDENT
+ * mark block structure. Throws PythonSyntaxError for input CPython would reject
+ * at tokenization time (unterminated strings, unbalanced brackets, bad dedents).
+ */
+export function tokenizePython(source: string): PythonToken[] {
+  const src = source.replace(/\r\n?/g, '\n');
+  const tokens: PythonToken[] = [];
+  const indents = [0];
+  const brackets: PythonToken[] = [];
+
+  let pos = 0;
+  let line = 1;
+  let lineStart = 0;
+  let atLineStart = true;
+
+  const column = () => pos - lineStart + 1;
+  const push = (type: PythonTokenType, value: string) =>
+    tokens.push({ type, value, line, column: column() });
+  const endLogicalLine = () => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type !== 'newline' && last.type !== 'indent' && last.type !== 'dedent') {
+      push('newline', '');
+    }
+  };
+
+  while (pos < src.length) {
+    if (atLineStart) {
+      atLineStart = false;
+
+      let width = 0;
+      while (src[pos] === ' ' || src[pos] === '\t' || src[pos] === '\f') {
+        width = src[pos] === '\t' ? width + 8 - (width % 8) : width + 1;
+        pos++;
+      }
+
+      // Blank and comment-only lines do not affect indentation
+      if (pos < src.length && src[pos] !== '\n' && src[pos] !== '#') {
+        if (width > indents[indents.length - 1]) {
+          indents.push(width);
+          push('indent', '');
+        } else {
+          while (width < indents[indents.length - 1]) {
+            indents.pop();
+            push('dedent', '');
+          }
+          if (width !== indents[indents.length - 1]) {
+            throw new PythonSyntaxError(
+              'unindent does not match any outer indentation level',
+              line,
+              column()
+            );
+          }
+        }
+      }
+      continue;
+    }
+
+    const ch = src[pos];
+
+    if (ch === '\n') {
+      if (brackets.length === 0) {
+        endLogicalLine();
+      }
+      pos++;
+      line++;
+      lineStart = pos;
+      // Inside brackets the next physical line continues the logical line
+      atLineStart = brackets.length === 0;
+      continue;
+    }
+
+    if (ch === ' ' || ch === '\t' || ch === '\f') {
+      pos++;
+      continue;
+    }
+
+    if (ch === '#') {
+      while (pos < src.length && src[pos] !== '\n') pos++;
+      continue;
+    }
+
+    if (ch === '\\') {
+      if (src[pos + 1] !== '\n') {
+        throw new PythonSyntaxError('unexpected character after line continuation', line, column());
+      }
+      pos += 2;
+      line++;
+      lineStart = pos;
+      continue;
+    }
+
+    // Longest opening is a two-letter prefix plus a triple quote
+    const stringStart = STRING_START.exec(src.slice(pos, pos + 5));
+    if (stringStart) {
+      readString(stringStart[0].length, stringStart[1]);
+      continue;
+    }
+
+    if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(src[pos + 1] || ''))) {
+      const match = NUMBER.exec(src.slice(pos, pos + 64)) as RegExpExecArray;
+      push('number', match[0]);
+      pos += match[0].length;
+      continue;
+    }
+
+    const name = NAME.exec(src.slice(pos, pos + 256));
+    if (name) {
+      push('name', name[0]);
+      pos += name[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => src.startsWith(op, pos));
+    if (operator) {
+      const token: PythonToken = { type: 'op', value: operator, line, column: column() };
+      if ('([{'.includes(operator)) {
+        brackets.push(token);
+      } else if (CLOSING_BRACKETS[operator]) {
+        const opening = brackets.pop();
+        if (!opening) {
+          throw new PythonSyntaxError(`unmatched '${operator}'`, line, column());
+        }
+        if (opening.value !== CLOSING_BRACKETS[operator]) {
+          throw new PythonSyntaxError(
+            `closing parenthesis '${operator}' does not match opening parenthesis '${opening.value}' on line ${opening.line}`,
+            line,
+            column()
+          );
+        }
+      }
+      tokens.push(token);
+      pos += operator.length;
+      continue;
+    }
+
+    throw new PythonSyntaxError(`invalid character '${ch}'`, line, column());
+  }
+
+  if (brackets.length > 0) {
+    const opening = brackets[brackets.length - 1];
+    throw new PythonSyntaxError(
+      `'${opening.value}' was never closed`,
+      opening.line,
+      opening.column
+    );
+  }
+
+  endLogicalLine();
+  while (indents.length > 1) {
+    indents.pop();
+    push('dedent', '');
+  }
+  push('end', '');
+
+  return tokens;
+
+  /**
+   * Consume a string literal whose prefix and opening quote are `openLength` characters long
+   */
+  function readString(openLength: number, quote: string): void {
+    const startLine = line;
+    const startColumn = column();
+    const start = pos;
+    const triple = quote.length === 3;
+    pos += openLength;
+
+    for (;;) {
+      if (pos >= src.length) {
+        throw new PythonSyntaxError(
+          triple ? 'unterminated triple-quoted string literal' : 'unterminated string literal',
+          startLine,
+          startColumn
+        );
+      }
+
+      const ch = src[pos];
+      if (ch === '\\') {
+        // Escapes (including raw strings) keep the next character, which may be a newline
+        if (src[pos + 1] === '\n') {
+          line++;
+          lineStart = pos + 2;
+        }
+        pos += 2;
+        continue;
+      }
+      if (src.startsWith(quote, pos)) {
+        pos += quote.length;
+        break;
+      }
+      if (ch === '\n') {
+        if (!triple) {
+          throw new PythonSyntaxError('unterminated string literal', startLine, startColumn);
+        }
+        line++;
+        lineStart = pos + 1;
+      }
+      pos++;
+    }
+
+    tokens.push({
+      type: 'string',
+      value: src.slice(start, pos),
+      line: startLine,
+      column: startColumn,
+    });
+  }
+}
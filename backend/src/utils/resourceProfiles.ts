@@ -0,0 +1,40 @@
+import { config } from '../config';
+import { ResourceProfile, ResourceProfileName } from '../types';
+
+/** Profile names from smallest to largest */
+export const RESOURCE_PROFILE_NAMES = Object.keys(
+  config.resourceProfiles.profiles
+) as ResourceProfileName[];
+
+export function isResourceProfileName(name: unknown): name is ResourceProfileName {
+  return typeof name === 'string' && (RESOURCE_PROFILE_NAMES as string[]).includes(name);
+}
+
+/**
+ * A profile's limits; the default profile's when none is named
+ */
+export function getResourceProfile(name?: ResourceProfileName): ResourceProfile {
+  return config.resourceProfiles.profiles[
+    name || (config.resourceProfiles.default as ResourceProfileName)
+  ];
+}
+
+/**
+ * Largest profile a client may render with, by its IP address
+ */
+export function getResourceProfileCap(clientIp?: string): ResourceProfileName {
+  // IPv4 clients of a dual-stack server show up as IPv4-mapped IPv6 addresses
+  const client = clientIp?.replace(/^::ffff:/, '');
+  return ((client && config.resourceProfiles.clientCaps[client]) ||
+    config.resourceProfiles.max) as ResourceProfileName;
+}
+
+/**
+ * Whether profile `name` is larger than `cap`
+ */
+export function exceedsResourceProfile(
+  name: ResourceProfileName,
+  cap: ResourceProfileName
+): boolean {
+  return RESOURCE_PROFILE_NAMES.indexOf(name) > RESOURCE_PROFILE_NAMES.indexOf(cap);
+}
@@ -0,0 +1,52 @@
+/**
+ * Standalone worker process: validates, renders and completes cached jobs from the shared
+ * queues without serving HTTP, so rendering scales separately from API replicas (which run
+ * with RUN_WORKERS=false). It needs the same Redis and outputs/ as the API, and sends its job
+ * history updates to the API through Redis.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { config, validateConfig } from './config';
+import { logger } from './utils/logger';
+import { handleProcessLifecycle } from './utils/processLifecycle';
+import { jobQueueService } from './services/jobQueueService';
+import { startupRecoveryService } from './services/startupRecoveryService';
+
+handleProcessLifecycle(async () => {
+  try {
+    await jobQueueService.drain(config.server.shutdownGracePeriodMs);
+    await jobQueueService.close();
+    logger.info('Worker shutdown complete');
+    process.exit(0);
+  } catch (error) {
+    logger.error('Graceful worker shutdown failed', { error });
+    process.exit(1);
+  }
+});
+
+async function main() {
+  validateConfig();
+
+  for (const dir of ['outputs', 'temp', 'logs']) {
+    await fs.mkdir(path.join(process.cwd(), dir), { recursive: true });
+  }
+
+  if (config.recovery.enabled) {
+    await startupRecoveryService.recover().catch(error => {
+      logger.error('Startup recovery failed', { error });
+    });
+  }
+  jobQueueService.startWorkers();
+
+  logger.info('MLanim render worker is running', {
+    instanceId: config.server.instanceId,
+    renderBackend: config.rendering.backend,
+    renderConcurrency: config.workers.renderConcurrency,
+  });
+}
+
+main().catch(error => {
+  logger.error('Worker startup failed', { error });
+  process.exit(1);
+});
@@ -1,28 +1,26 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Header } from './components/Header';
 import { PromptInput } from './components/PromptInput';
 import { StatusDisplay } from './components/StatusDisplay';
 import ProcessManager from './components/ProcessManager';
 import CodeDisplay from './components/CodeDisplay';
-import { AnimationApiService } from './services/api';
-import { JobStatus } from './types';
+import { AnimationApiService, CodeValidationError } from './services/api';
+import { CodeFinding, JobStatus, ManimOutput, RenderSettings } from './types';
 import { AlertCircle, CheckCircle, Sparkles, ExternalLink } from 'lucide-react';
 
 function App() {
   const [activeTab, setActiveTab] = useState<'generator' | 'processes'>('generator');
   const [isLoading, setIsLoading] = useState(false);
   const [jobStatus, setJobStatus] = useState<JobStatus | null>(null);
+  const [manimOutputs, setManimOutputs] = useState<ManimOutput[]>([]);
   const [currentJobId, setCurrentJobId] = useState<string | null>(null);
   const [generatedCode, setGeneratedCode] = useState<string>('');
+  const [isStreamingCode, setIsStreamingCode] = useState(false);
+  const [codeFindings, setCodeFindings] = useState<CodeFinding[]>([]);
   const [notification, setNotification] = useState<{
     type: 'success' | 'error';
     message: string;
   } | null>(null);
-  const errorWaitUntilRef = useRef<number | null>(null);
-  const errorWaitJobRef = useRef<string | null>(null);
-
-  // Polling interval for job status
-  const POLLING_INTERVAL = 3000; // 3 seconds
 
   // Show notification
   const showNotification = useCallback((type: 'success' | 'error', message: string) => {
@@ -33,17 +31,28 @@ function App() {
   // Handle prompt submission
   const handlePromptSubmit = async (
     prompt: string,
-    provider?: 'gemini' | 'together',
-    model?: string
+    provider?: string,
+    model?: string,
+    settings?: RenderSettings
   ) => {
     try {
       setIsLoading(true);
+      setIsStreamingCode(true);
       setJobStatus(null);
+      setGeneratedCode('');
+      setCodeFindings([]);
 
-      const response = await AnimationApiService.generateAnimation(prompt, provider, model);
+      // Show the script as the model writes it
+      const response = await AnimationApiService.generateAnimationStream(
+        prompt,
+        chunk => setGeneratedCode(prev => prev + chunk),
+        provider,
+        model,
+        settings
+      );
       setCurrentJobId(response.jobId);
 
-      // Store the generated code
+      // Replace the raw stream with the cleaned-up code that was queued
       setGeneratedCode(response.code);
 
       // Set initial status
@@ -56,77 +65,106 @@ function App() {
 
       showNotification('success', 'Animation generation started!');
     } catch (error) {
+      // Keep the rejected script on screen with the offending lines highlighted
+      if (error instanceof CodeValidationError) {
+        setGeneratedCode(error.code);
+        setCodeFindings(error.findings);
+      }
       showNotification(
         'error',
         error instanceof Error ? error.message : 'Failed to start animation generation'
       );
     } finally {
       setIsLoading(false);
+      setIsStreamingCode(false);
     }
   };
 
-  // Poll for job status updates
+  // Follow the current job's events as the backend pushes them
   useEffect(() => {
     if (!currentJobId) return;
 
-    const pollStatus = async () => {
-      try {
-        const status = await AnimationApiService.getJobStatus(currentJobId);
+    setManimOutputs([]);
+    let errorWait: ReturnType<typeof setTimeout> | undefined;
+
+    const finish = (status: JobStatus) => {
+      setCurrentJobId(null);
+      if (status.status === 'done' && status.phase === 'preview') {
+        showNotification('success', 'Preview ready!');
+      } else if (status.status === 'done') {
+        showNotification('success', 'Animation generated successfully!');
+      } else if (status.status === 'cancelled') {
+        showNotification('error', 'Animation generation was cancelled');
+      } else {
+        showNotification('error', 'Animation generation failed');
+      }
+    };
+
+    const unsubscribe = AnimationApiService.subscribeToJob(currentJobId, {
+      onStatus: status => {
         setJobStatus(status);
 
         // If backend sends updated/generated code (e.g., after regeneration), sync it
         setGeneratedCode(prev => (status.code && status.code !== prev ? status.code : prev));
 
-        // Stop polling if job is complete or failed
-        if (status.status === 'done' || status.status === 'error') {
-          // If failed but we have a successor job, follow it
-          if (status.status === 'error' && status.nextJobId) {
-            setCurrentJobId(status.nextJobId);
-            errorWaitUntilRef.current = null;
-            errorWaitJobRef.current = null;
-            return;
-          }
-          // If failed without successor yet, wait briefly to see if backend posts nextJobId mapping
-          if (status.status === 'error' && !status.nextJobId) {
-            const now = Date.now();
-            if (errorWaitJobRef.current !== currentJobId) {
-              errorWaitJobRef.current = currentJobId;
-              errorWaitUntilRef.current = now + 5000; // wait up to 5s
-              return; // keep polling
-            }
-            if (errorWaitUntilRef.current && now < errorWaitUntilRef.current) {
-              return; // keep polling
-            }
-          }
-          setCurrentJobId(null);
-          if (status.status === 'done') {
-            showNotification('success', 'Animation generated successfully!');
-          } else {
-            showNotification('error', 'Animation generation failed');
-          }
-          errorWaitUntilRef.current = null;
-          errorWaitJobRef.current = null;
+        // A finished preview hands over to its full-quality render; keep showing the preview
+        if (status.status === 'done' && status.phase === 'preview' && status.finalJobId) {
+          setCurrentJobId(status.finalJobId);
+          showNotification('success', 'Preview ready! Rendering full quality...');
+          return;
+        }
+
+        // If failed but we have a successor job, follow it
+        if (status.status === 'error' && status.nextJobId) {
+          setCurrentJobId(status.nextJobId);
+          return;
         }
-      } catch (error) {
-        console.error('Failed to poll job status:', error);
-      }
-    };
 
-    // Initial poll
-    pollStatus();
+        // If failed without successor yet, wait briefly to see if backend posts nextJobId mapping
+        if (status.status === 'error') {
+          if (!errorWait) errorWait = setTimeout(() => finish(status), 5000);
+          return;
+        }
 
-    // Set up polling interval
-    const interval = setInterval(pollStatus, POLLING_INTERVAL);
+        // Cancelled jobs are never regenerated
+        if (status.status === 'done' || status.status === 'cancelled') {
+          finish(status);
+        }
+      },
+      onProgress: progress =>
+        setJobStatus(prev => (prev?.id === currentJobId ? { ...prev, progress } : prev)),
+      onOutput: output => setManimOutputs(prev => [...prev, output]),
+    });
 
-    return () => clearInterval(interval);
+    return () => {
+      clearTimeout(errorWait);
+      unsubscribe();
+    };
   }, [currentJobId, showNotification]);
 
+  // Start the full-quality render of a finished preview
+  const handleFinalize = useCallback(async () => {
+    if (!jobStatus) return;
+    try {
+      const { finalJobId } = await AnimationApiService.finalizeJob(jobStatus.id);
+      setCurrentJobId(finalJobId);
+      showNotification('success', 'Rendering full quality...');
+    } catch (error) {
+      showNotification(
+        'error',
+        error instanceof Error ? error.message : 'Failed to start full-quality render'
+      );
+    }
+  }, [jobStatus, showNotification]);
+
   // Handle video download
   const handleDownload = useCallback(() => {
     if (jobStatus?.videoUrl) {
       const link = document.createElement('a');
       link.href = jobStatus.videoUrl;
-      link.download = `mlanim-${jobStatus.id}.mp4`;
+      // Keep the extension of the rendered file (mp4, webm, gif or zip of PNG frames)
+      const extension = jobStatus.videoUrl.split('.').pop() || 'mp4';
+      link.download = `mlanim-${jobStatus.id}.${extension}`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
@@ -143,14 +181,20 @@ function App() {
           progress: jobStatus?.progress,
           currentOperation:
             jobStatus?.status === 'running'
-              ? 'Rendering animation...'
+              ? jobStatus.phase === 'preview'
+                ? 'Rendering preview...'
+                : 'Rendering animation...'
               : jobStatus?.status === 'pending'
                 ? 'Waiting in queue...'
-                : jobStatus?.status === 'done'
-                  ? 'Animation complete'
-                  : jobStatus?.status === 'error'
-                    ? 'Generation failed'
-                    : undefined,
+                : jobStatus?.status === 'validating'
+                  ? 'Checking script...'
+                  : jobStatus?.status === 'done'
+                    ? 'Animation complete'
+                    : jobStatus?.status === 'error'
+                      ? 'Generation failed'
+                      : jobStatus?.status === 'cancelled'
+                        ? 'Generation cancelled'
+                        : undefined,
         }}
       />
 
@@ -199,7 +243,14 @@ function App() {
               </div>
 
               {/* Status display */}
-              {jobStatus && <StatusDisplay jobStatus={jobStatus} onDownload={handleDownload} />}
+              {jobStatus && (
+                <StatusDisplay
+                  jobStatus={jobStatus}
+                  manimOutputs={manimOutputs}
+                  onDownload={handleDownload}
+                  onFinalize={handleFinalize}
+                />
+              )}
 
               {/* Generated code display */}
               {generatedCode ? (
@@ -209,6 +260,8 @@ function App() {
                     code={generatedCode}
                     language="python"
                     title="Manim Animation Code"
+                    isStreaming={isStreamingCode}
+                    findings={codeFindings}
                   />
                 </div>
               ) : (
@@ -1,13 +1,16 @@
-import React, { useState } from 'react';
-import { Copy, Check } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Copy, Check, AlertTriangle, XCircle } from 'lucide-react';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { oneDark } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import { CodeFinding } from '../types';
 
 interface CodeDisplayProps {
   code: string;
   language?: string;
   title?: string;
   className?: string;
+  isStreaming?: boolean;
+  findings?: CodeFinding[];
 }
 
 const CodeDisplay: React.FC<CodeDisplayProps> = ({
@@ -15,8 +18,26 @@ const CodeDisplay: React.FC<CodeDisplayProps> = ({
   language = 'python',
   title = 'Generated Code',
   className = '',
+  isStreaming = false,
+  findings = [],
 }) => {
   const [copied, setCopied] = useState(false);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest lines in view while code is being streamed in
+  useEffect(() => {
+    if (isStreaming && scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [code, isStreaming]);
+
+  // Errors take precedence when a line has several findings
+  const lineSeverity = new Map<number, CodeFinding['severity']>();
+  for (const finding of findings) {
+    if (lineSeverity.get(finding.line) !== 'error') {
+      lineSeverity.set(finding.line, finding.severity);
+    }
+  }
 
   const handleCopy = async () => {
     try {
@@ -38,11 +59,18 @@ const CodeDisplay: React.FC<CodeDisplayProps> = ({
           <div className="w-3 h-3 rounded-full bg-yellow-500"></div>
           <div className="w-3 h-3 rounded-full bg-green-500"></div>
           <span className="ml-3 text-sm text-gray-300 font-medium">{title}</span>
+          {isStreaming && (
+            <span className="flex items-center gap-2 ml-3 text-xs text-green-400">
+              <span className="w-2 h-2 rounded-full bg-green-400 animate-pulse" />
+              Writing...
+            </span>
+          )}
         </div>
 
         {/* Copy button */}
         <button
           onClick={handleCopy}
+          disabled={isStreaming}
           className="flex items-center space-x-2 px-3 py-1 text-sm text-gray-300 hover:text-white hover:bg-gray-700 rounded transition-colors"
           title="Copy code"
         >
@@ -61,7 +89,10 @@ const CodeDisplay: React.FC<CodeDisplayProps> = ({
       </div>
 
       {/* Code content with syntax highlighting */}
-      <div className="relative">
+      <div
+        ref={scrollRef}
+        className={isStreaming ? 'relative max-h-[32rem] overflow-y-auto' : 'relative'}
+      >
         <SyntaxHighlighter
           language={language}
           style={oneDark}
@@ -84,17 +115,44 @@ const CodeDisplay: React.FC<CodeDisplayProps> = ({
             userSelect: 'none',
           }}
           wrapLines={true}
-          lineProps={{
-            style: {
-              wordBreak: 'break-all',
-              whiteSpace: 'pre-wrap',
-            },
+          lineProps={(lineNumber: number) => {
+            const severity = lineSeverity.get(lineNumber);
+            return {
+              style: {
+                display: 'block',
+                wordBreak: 'break-all',
+                whiteSpace: 'pre-wrap',
+                ...(severity && {
+                  backgroundColor:
+                    severity === 'error' ? 'rgba(239, 68, 68, 0.2)' : 'rgba(234, 179, 8, 0.15)',
+                }),
+              },
+            };
           }}
         >
           {code}
         </SyntaxHighlighter>
       </div>
 
+      {/* Static analysis findings */}
+      {findings.length > 0 && (
+        <ul className="px-4 py-3 space-y-1 bg-gray-800 border-t border-gray-700 text-sm">
+          {findings.map((finding, index) => (
+            <li key={index} className="flex items-start space-x-2">
+              {finding.severity === 'error' ? (
+                <XCircle className="w-4 h-4 mt-0.5 text-red-400 flex-shrink-0" />
+              ) : (
+                <AlertTriangle className="w-4 h-4 mt-0.5 text-yellow-400 flex-shrink-0" />
+              )}
+              <span className="text-gray-300">
+                <span className="font-mono text-gray-400">Line {finding.line}:</span>{' '}
+                {finding.message}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
       {/* Footer */}
       <div className="px-4 py-2 bg-gray-800 border-t border-gray-700">
         <div className="flex items-center justify-between text-xs text-gray-400">
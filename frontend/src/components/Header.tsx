@@ -7,7 +7,7 @@ interface HeaderProps {
   activeTab: 'generator' | 'processes';
   onTabChange: (tab: 'generator' | 'processes') => void;
   currentOperation?: {
-    status: 'pending' | 'running' | 'done' | 'error' | null;
+    status: 'pending' | 'validating' | 'running' | 'done' | 'error' | 'cancelled' | null;
     progress?: number;
     currentOperation?: string;
   };
@@ -1,9 +1,9 @@
 import React from 'react';
-import { Clock, Play, CheckCircle, XCircle, Loader2 } from 'lucide-react';
+import { Ban, Clock, Play, CheckCircle, XCircle, Loader2, ShieldCheck } from 'lucide-react';
 import { clsx } from 'clsx';
 
 interface OperationStatusProps {
-  status: 'pending' | 'running' | 'done' | 'error' | null;
+  status: 'pending' | 'validating' | 'running' | 'done' | 'error' | 'cancelled' | null;
   progress?: number;
   currentOperation?: string;
   isCompact?: boolean;
@@ -18,6 +18,14 @@ const statusConfig = {
     text: 'Queued',
     description: 'Waiting to start...',
   },
+  validating: {
+    icon: ShieldCheck,
+    color: 'text-indigo-600',
+    bgColor: 'bg-indigo-50',
+    borderColor: 'border-indigo-200',
+    text: 'Validating',
+    description: 'Dry-running the script...',
+  },
   running: {
     icon: Play,
     color: 'text-blue-600',
@@ -42,6 +50,14 @@ const statusConfig = {
     text: 'Error',
     description: 'Generation failed',
   },
+  cancelled: {
+    icon: Ban,
+    color: 'text-gray-600',
+    bgColor: 'bg-gray-50',
+    borderColor: 'border-gray-200',
+    text: 'Cancelled',
+    description: 'Stopped before it finished',
+  },
 };
 
 export const OperationStatus: React.FC<OperationStatusProps> = ({
@@ -1,5 +1,6 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import {
+  Ban,
   Play,
   Square,
   Eye,
@@ -10,8 +11,11 @@ import {
   Trash2,
   ChevronDown,
   ChevronUp,
+  ShieldCheck,
 } from 'lucide-react';
 import { AnimationApiService } from '../services/api';
+import { JobSocket } from '../services/jobSocket';
+import { JobHistoryEntry, JobListParams, ManimOutput, ProviderInfo } from '../types';
 
 interface Process {
   id: string;
@@ -25,42 +29,60 @@ interface Process {
   details?: any;
 }
 
-interface Job {
-  id: string;
+// Set by the backend on every container it starts; unlabeled containers are never killable
+const JOB_ID_LABEL = 'mlanim.job-id';
+
+// Jobs can be cancelled until they finish
+const ACTIVE_JOB_STATUSES = ['pending', 'validating', 'running'];
+
+const canKill = (process: Process) =>
+  process.type === 'job'
+    ? ACTIVE_JOB_STATUSES.includes(process.status)
+    : process.type !== 'docker' || !!process.details?.Labels?.[JOB_ID_LABEL];
+
+const JOB_PAGE_SIZE = 50;
+
+// Sort options of the job list, as sort and order of the listing API
+const JOB_SORTS: { label: string; sort: JobListParams['sort']; order: JobListParams['order'] }[] = [
+  { label: 'Newest first', sort: 'createdAt', order: 'desc' },
+  { label: 'Oldest first', sort: 'createdAt', order: 'asc' },
+  { label: 'Recently updated', sort: 'updatedAt', order: 'desc' },
+  { label: 'Most progress', sort: 'progress', order: 'desc' },
+];
+
+interface JobFilters {
+  search: string;
   status: string;
-  progress: number;
-  prompt: string;
-  createdAt: string;
-  updatedAt: string;
-  error?: string;
+  provider: string;
+  regenerations: '' | 'with' | 'without';
+  sortIndex: number;
 }
 
+const toListParams = (filters: JobFilters): JobListParams => ({
+  search: filters.search.trim() || undefined,
+  status: filters.status ? [filters.status as JobHistoryEntry['status']] : undefined,
+  provider: filters.provider || undefined,
+  hasRegenerations: filters.regenerations ? filters.regenerations === 'with' : undefined,
+  sort: JOB_SORTS[filters.sortIndex].sort,
+  order: JOB_SORTS[filters.sortIndex].order,
+  limit: JOB_PAGE_SIZE,
+});
+
 // Manim Output Display Component
 const ManimOutputDisplay: React.FC<{ jobId: string }> = ({ jobId }) => {
-  const [manimOutputs, setManimOutputs] = useState<any[]>([]);
+  const [manimOutputs, setManimOutputs] = useState<ManimOutput[]>([]);
   const [showOutputs, setShowOutputs] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
 
   useEffect(() => {
-    const fetchOutputs = async () => {
-      try {
-        setIsLoading(true);
-        const response = await AnimationApiService.getManimOutputs(jobId);
-        if (response.outputs) {
-          setManimOutputs(response.outputs);
-        }
-      } catch (error) {
-        console.error('Failed to fetch Manim outputs:', error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    fetchOutputs();
+    setManimOutputs([]);
+    setIsLoading(true);
 
-    // Poll for updates every 3 seconds
-    const interval = setInterval(fetchOutputs, 3000);
-    return () => clearInterval(interval);
+    // The stream replays the output so far before the first status, then pushes new lines
+    return AnimationApiService.subscribeToJob(jobId, {
+      onOutput: output => setManimOutputs(prev => [...prev, output]),
+      onStatus: () => setIsLoading(false),
+    });
   }, [jobId]);
 
   return (
@@ -118,78 +140,141 @@ const ManimOutputDisplay: React.FC<{ jobId: string }> = ({ jobId }) => {
 };
 
 const ProcessManager: React.FC = () => {
-  const [processes, setProcesses] = useState<Process[]>([]);
-  const [jobs, setJobs] = useState<Job[]>([]);
+  const [jobs, setJobs] = useState<JobHistoryEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | undefined>();
+  const [filters, setFilters] = useState<JobFilters>({
+    search: '',
+    status: '',
+    provider: '',
+    regenerations: '',
+    sortIndex: 0,
+  });
+  const [providers, setProviders] = useState<ProviderInfo[]>([]);
   const [dockerContainers, setDockerContainers] = useState<any[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [selectedProcess, setSelectedProcess] = useState<Process | null>(null);
   const [showDetails, setShowDetails] = useState(false);
-  const [autoRefresh, setAutoRefresh] = useState(true);
+  const [liveUpdates, setLiveUpdates] = useState(true);
+  const socketRef = useRef<JobSocket | null>(null);
+
+  // Jobs and containers as one list
+  const processes = useMemo<Process[]>(
+    () => [
+      ...jobs.map(job => ({
+        id: job.id,
+        type: 'job' as const,
+        name: `Job ${job.id}`,
+        status: job.status,
+        progress: job.progress,
+        uptime: new Date(job.updatedAt).toLocaleTimeString(),
+        details: job,
+      })),
+      ...dockerContainers.map(container => ({
+        id: container.Id,
+        type: 'docker' as const,
+        // Engine API names carry a leading slash
+        name: container.Names?.[0]?.replace(/^\//, '') || container.Id.substring(0, 12),
+        status: container.State,
+        uptime: container.Status,
+        details: container,
+      })),
+    ],
+    [jobs, dockerContainers]
+  );
 
-  // Fetch all data
+  // Fetch the first page of jobs matching the filters, and the containers
   const fetchAllData = async () => {
     setIsLoading(true);
     try {
-      // Fetch jobs
-      const jobsResponse = await fetch('/api/animations/jobs');
-      if (jobsResponse.ok) {
-        const jobsData = await jobsResponse.json();
-        setJobs(jobsData.jobs || []);
-      }
+      const [jobPage, dockerResponse] = await Promise.all([
+        AnimationApiService.listJobs(toListParams(filters)),
+        fetch('/api/system/docker/containers'),
+      ]);
+      setJobs(jobPage.jobs);
+      setNextCursor(jobPage.nextCursor);
 
-      // Fetch Docker containers
-      const dockerResponse = await fetch('/api/system/docker/containers');
       if (dockerResponse.ok) {
         const dockerData = await dockerResponse.json();
         setDockerContainers(dockerData.containers || []);
       }
+    } catch (error) {
+      console.error('Failed to fetch process data:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-      // Combine all processes
-      const allProcesses: Process[] = [];
-
-      // Add jobs as processes
-      jobs.forEach(job => {
-        allProcesses.push({
-          id: job.id,
-          type: 'job',
-          name: `Job ${job.id}`,
-          status: job.status,
-          progress: job.progress,
-          uptime: new Date(job.updatedAt).toLocaleTimeString(),
-          details: job,
-        });
-      });
+  // Live updates call the latest fetchAllData, which uses the current filters
+  const fetchAllDataRef = useRef(fetchAllData);
+  fetchAllDataRef.current = fetchAllData;
 
-      // Add Docker containers as processes
-      dockerContainers.forEach(container => {
-        allProcesses.push({
-          id: container.Id,
-          type: 'docker',
-          name: container.Names?.[0] || container.Id.substring(0, 12),
-          status: container.State,
-          memory: container.MemUsage,
-          cpu: container.CPUPerc,
-          uptime: container.RunningFor,
-          details: container,
-        });
-      });
+  const loadMoreJobs = async () => {
+    if (!nextCursor) return;
 
-      setProcesses(allProcesses);
+    setIsLoading(true);
+    try {
+      const jobPage = await AnimationApiService.listJobs({
+        ...toListParams(filters),
+        cursor: nextCursor,
+      });
+      setJobs(prev => [...prev, ...jobPage.jobs]);
+      setNextCursor(jobPage.nextCursor);
     } catch (error) {
-      console.error('Failed to fetch process data:', error);
+      console.error('Failed to load more jobs:', error);
     } finally {
       setIsLoading(false);
     }
   };
 
-  // Auto-refresh
   useEffect(() => {
-    if (autoRefresh) {
-      fetchAllData();
-      const interval = setInterval(fetchAllData, 5000);
-      return () => clearInterval(interval);
-    }
-  }, [autoRefresh]);
+    AnimationApiService.getProviders()
+      .then(response => setProviders(response.providers))
+      .catch(error => console.error('Failed to load providers:', error));
+  }, []);
+
+  // Reload when the filters change, waiting for typing in the search box to pause
+  useEffect(() => {
+    const timer = setTimeout(() => fetchAllDataRef.current(), 300);
+    return () => clearTimeout(timer);
+  }, [filters]);
+
+  const updateFilters = (changes: Partial<JobFilters>) =>
+    setFilters(prev => ({ ...prev, ...changes }));
+
+  // Live updates: refresh when a job changes state, update progress in place
+  useEffect(() => {
+    if (!liveUpdates) return;
+
+    let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+    // Several jobs often change at once (e.g. a failure and its regenerated job)
+    const scheduleRefresh = () => {
+      clearTimeout(refreshTimer);
+      refreshTimer = setTimeout(() => fetchAllDataRef.current(), 500);
+    };
+
+    // (Re)connecting may have missed events, so catch up each time
+    const socket = new JobSocket(scheduleRefresh);
+    socketRef.current = socket;
+    socket.subscribeQueue();
+    socket.onMessage(message => {
+      if (message.type !== 'queue-event') return;
+
+      const { event } = message;
+      if (event.type === 'progress') {
+        setJobs(prev =>
+          prev.map(job => (job.id === event.jobId ? { ...job, progress: event.progress } : job))
+        );
+      } else {
+        scheduleRefresh();
+      }
+    });
+
+    return () => {
+      clearTimeout(refreshTimer);
+      socket.close();
+      socketRef.current = null;
+    };
+  }, [liveUpdates]);
 
   // Manual refresh
   const handleRefresh = () => {
@@ -224,17 +309,24 @@ const ProcessManager: React.FC = () => {
     }
   };
 
+  // Cancel a job over the live connection when there is one
+  const cancelJob = async (jobId: string) => {
+    if (socketRef.current) {
+      await socketRef.current.control('cancel', jobId);
+    } else {
+      await fetch(`/api/animations/cancel/${jobId}`, { method: 'POST' });
+    }
+  };
+
   // Kill a specific process
   const killProcess = async (process: Process) => {
+    if (!canKill(process)) return;
+
     try {
       if (process.type === 'job') {
         // Kill job
-        const response = await fetch(`/api/animations/kill/${process.id}`, {
-          method: 'POST',
-        });
-        if (response.ok) {
-          console.log(`Job ${process.id} killed successfully`);
-        }
+        await cancelJob(process.id);
+        console.log(`Job ${process.id} killed successfully`);
       } else if (process.type === 'docker') {
         // Kill Docker container
         const response = await fetch(`/api/system/docker/kill/${process.id}`, {
@@ -264,16 +356,23 @@ const ProcessManager: React.FC = () => {
 
     setIsLoading(true);
     try {
-      // Kill all jobs
-      for (const job of jobs) {
-        if (job.status === 'running' || job.status === 'pending') {
-          await fetch(`/api/animations/kill/${job.id}`, { method: 'POST' });
+      // Kill all active jobs, including those not loaded into the list
+      let cursor: string | undefined;
+      do {
+        const page = await AnimationApiService.listJobs({
+          status: ACTIVE_JOB_STATUSES as JobHistoryEntry['status'][],
+          limit: 200,
+          cursor,
+        });
+        for (const job of page.jobs) {
+          await cancelJob(job.id);
         }
-      }
+        cursor = page.nextCursor;
+      } while (cursor);
 
       // Kill all Docker containers
       for (const container of dockerContainers) {
-        if (container.State === 'running') {
+        if (container.State === 'running' && container.Labels?.[JOB_ID_LABEL]) {
           await fetch(`/api/system/docker/kill/${container.Id}`, { method: 'POST' });
         }
       }
@@ -296,12 +395,17 @@ const ProcessManager: React.FC = () => {
       case 'pending':
       case 'waiting':
         return 'text-yellow-600 bg-yellow-100';
+      case 'validating':
+      case 'waiting-children':
+        return 'text-indigo-600 bg-indigo-100';
       case 'completed':
       case 'done':
         return 'text-blue-600 bg-blue-100';
       case 'failed':
       case 'error':
         return 'text-red-600 bg-red-100';
+      case 'cancelled':
+        return 'text-gray-600 bg-gray-200';
       default:
         return 'text-gray-600 bg-gray-100';
     }
@@ -316,12 +420,17 @@ const ProcessManager: React.FC = () => {
       case 'pending':
       case 'waiting':
         return <Clock className="w-4 h-4 text-yellow-600" />;
+      case 'validating':
+      case 'waiting-children':
+        return <ShieldCheck className="w-4 h-4 text-indigo-600" />;
       case 'completed':
       case 'done':
         return <CheckCircle className="w-4 h-4 text-blue-600" />;
       case 'failed':
       case 'error':
         return <XCircle className="w-4 h-4 text-red-600" />;
+      case 'cancelled':
+        return <Ban className="w-4 h-4 text-gray-600" />;
       default:
         return <AlertTriangle className="w-4 h-4 text-gray-600" />;
     }
@@ -355,18 +464,79 @@ const ProcessManager: React.FC = () => {
       </div>
 
       {/* Controls */}
-      <div className="bg-white rounded-lg shadow p-4 mb-6">
+      <div className="bg-white rounded-lg shadow p-4 mb-6 space-y-4">
         <div className="flex items-center space-x-4">
           <label className="flex items-center">
             <input
               type="checkbox"
-              checked={autoRefresh}
-              onChange={e => setAutoRefresh(e.target.checked)}
+              checked={liveUpdates}
+              onChange={e => setLiveUpdates(e.target.checked)}
               className="mr-2"
             />
-            Auto-refresh every 5 seconds
+            Live updates
           </label>
-          <span className="text-sm text-gray-500">{processes.length} total processes</span>
+          <span className="text-sm text-gray-500">
+            {jobs.length} jobs{nextCursor ? ' (more available)' : ''}, {dockerContainers.length}{' '}
+            containers
+          </span>
+        </div>
+
+        {/* Job filters */}
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+          <input
+            type="search"
+            value={filters.search}
+            onChange={e => updateFilters({ search: e.target.value })}
+            placeholder="Search prompts..."
+            className="md:col-span-2 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          />
+          <select
+            value={filters.status}
+            onChange={e => updateFilters({ status: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          >
+            <option value="">All statuses</option>
+            <option value="pending">Pending</option>
+            <option value="validating">Validating</option>
+            <option value="running">Running</option>
+            <option value="done">Done</option>
+            <option value="error">Error</option>
+            <option value="cancelled">Cancelled</option>
+          </select>
+          <select
+            value={filters.provider}
+            onChange={e => updateFilters({ provider: e.target.value })}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          >
+            <option value="">All providers</option>
+            {providers.map(provider => (
+              <option key={provider.name} value={provider.name}>
+                {provider.label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filters.regenerations}
+            onChange={e =>
+              updateFilters({ regenerations: e.target.value as JobFilters['regenerations'] })
+            }
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          >
+            <option value="">Any regenerations</option>
+            <option value="with">Regenerated</option>
+            <option value="without">Not regenerated</option>
+          </select>
+          <select
+            value={filters.sortIndex}
+            onChange={e => updateFilters({ sortIndex: Number(e.target.value) })}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+          >
+            {JOB_SORTS.map((option, index) => (
+              <option key={option.label} value={index}>
+                {option.label}
+              </option>
+            ))}
+          </select>
         </div>
       </div>
 
@@ -398,13 +568,15 @@ const ProcessManager: React.FC = () => {
                 >
                   <Eye className="w-4 h-4" />
                 </button>
-                <button
-                  onClick={() => killProcess(process)}
-                  className="p-1 text-red-400 hover:text-red-600"
-                  title="Kill Process"
-                >
-                  <Square className="w-4 h-4" />
-                </button>
+                {canKill(process) && (
+                  <button
+                    onClick={() => killProcess(process)}
+                    className="p-1 text-red-400 hover:text-red-600"
+                    title="Kill Process"
+                  >
+                    <Square className="w-4 h-4" />
+                  </button>
+                )}
                 {process.type === 'job' && (
                   <button
                     onClick={() => handleDeleteJob(process.id)}
@@ -440,6 +612,9 @@ const ProcessManager: React.FC = () => {
                   {process.status === 'pending' && (
                     <span className="ml-2 text-yellow-600">⏳ Queued</span>
                   )}
+                  {process.status === 'validating' && (
+                    <span className="ml-2 text-indigo-600">🔍 Validating</span>
+                  )}
                   {process.status === 'running' && (
                     <span className="ml-2 text-blue-600">🔄 Processing</span>
                   )}
@@ -449,6 +624,9 @@ const ProcessManager: React.FC = () => {
                   {process.status === 'error' && (
                     <span className="ml-2 text-red-600">❌ Failed</span>
                   )}
+                  {process.status === 'cancelled' && (
+                    <span className="ml-2 text-gray-600">🚫 Cancelled</span>
+                  )}
                 </div>
               )}
 
@@ -466,6 +644,18 @@ const ProcessManager: React.FC = () => {
         ))}
       </div>
 
+      {nextCursor && (
+        <div className="text-center mt-6">
+          <button
+            onClick={loadMoreJobs}
+            disabled={isLoading}
+            className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+          >
+            {isLoading ? 'Loading...' : 'Load more jobs'}
+          </button>
+        </div>
+      )}
+
       {/* Empty State */}
       {processes.length === 0 && !isLoading && (
         <div className="text-center py-12">
@@ -565,11 +755,27 @@ const ProcessManager: React.FC = () => {
                       </p>
                       <p>
                         <span className="font-medium">Ports:</span>{' '}
-                        {selectedProcess.details.Ports || 'None'}
+                        {selectedProcess.details.Ports?.length
+                          ? selectedProcess.details.Ports.map(
+                              (port: { PrivatePort: number }) => port.PrivatePort
+                            ).join(', ')
+                          : 'None'}
                       </p>
                       <p>
                         <span className="font-medium">Created:</span>{' '}
-                        {selectedProcess.details.CreatedAt}
+                        {new Date(selectedProcess.details.Created * 1000).toLocaleString()}
+                      </p>
+                      <p>
+                        <span className="font-medium">Job:</span>{' '}
+                        {selectedProcess.details.Labels?.[JOB_ID_LABEL]}
+                      </p>
+                      <p>
+                        <span className="font-medium">Queue:</span>{' '}
+                        {selectedProcess.details.Labels?.['mlanim.queue']}
+                      </p>
+                      <p>
+                        <span className="font-medium">Backend instance:</span>{' '}
+                        {selectedProcess.details.Labels?.['mlanim.instance']}
                       </p>
                     </div>
                   </div>
@@ -583,16 +789,18 @@ const ProcessManager: React.FC = () => {
                   >
                     Close
                   </button>
-                  <button
-                    onClick={() => {
-                      killProcess(selectedProcess);
-                      setShowDetails(false);
-                    }}
-                    className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 flex items-center space-x-2"
-                  >
-                    <Square className="w-4 h-4" />
-                    <span>Kill Process</span>
-                  </button>
+                  {canKill(selectedProcess) && (
+                    <button
+                      onClick={() => {
+                        killProcess(selectedProcess);
+                        setShowDetails(false);
+                      }}
+                      className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 flex items-center space-x-2"
+                    >
+                      <Square className="w-4 h-4" />
+                      <span>Kill Process</span>
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
@@ -1,12 +1,48 @@
-import React, { useState } from 'react';
-import { Send, Sparkles } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { Send, Settings, Sparkles } from 'lucide-react';
 import { clsx } from 'clsx';
+import { AnimationApiService } from '../services/api';
+import { ProviderInfo, RenderFormat, RenderQuality, RenderSettings } from '../types';
 
 interface PromptInputProps {
-  onSubmit: (prompt: string, provider?: 'gemini' | 'together', model?: string) => void;
+  onSubmit: (prompt: string, provider?: string, model?: string, settings?: RenderSettings) => void;
   isLoading: boolean;
 }
 
+// Used until the backend reports its registered providers
+const fallbackProviders: ProviderInfo[] = [
+  { name: 'gemini', label: 'Gemini', defaultModel: 'gemini-1.5-flash', configured: true },
+  {
+    name: 'together',
+    label: 'Together',
+    defaultModel: 'meta-llama/Meta-Llama-3.1-8B-Instruct-Turbo',
+    configured: true,
+  },
+  {
+    name: 'openai-compatible',
+    label: 'OpenAI-compatible',
+    defaultModel: 'llama3.1',
+    configured: true,
+  },
+];
+
+const qualityOptions: { value: RenderQuality; label: string }[] = [
+  { value: 'l', label: 'Low (480p15)' },
+  { value: 'm', label: 'Medium (720p30)' },
+  { value: 'h', label: 'High (1080p60)' },
+  { value: 'p', label: '2K (1440p60)' },
+  { value: 'k', label: '4K (2160p60)' },
+];
+
+const resolutionOptions = ['854x480', '1280x720', '1920x1080', '2560x1440', '3840x2160'];
+
+const formatOptions: { value: RenderFormat; label: string }[] = [
+  { value: 'mp4', label: 'MP4' },
+  { value: 'webm', label: 'WebM' },
+  { value: 'gif', label: 'GIF' },
+  { value: 'png', label: 'PNG sequence (zip)' },
+];
+
 const examplePrompts = [
   'Create a bouncing ball animation with gravity',
   'Show a circle transforming into a square',
@@ -19,13 +55,41 @@ const examplePrompts = [
 export const PromptInput: React.FC<PromptInputProps> = ({ onSubmit, isLoading }) => {
   const [prompt, setPrompt] = useState('');
   const [isExpanded, setIsExpanded] = useState(false);
-  const [provider, setProvider] = useState<'gemini' | 'together'>('gemini');
+  const [providers, setProviders] = useState<ProviderInfo[]>(fallbackProviders);
+  const [provider, setProvider] = useState<string>('gemini');
   const [model, setModel] = useState<string>('');
+  const [showSettings, setShowSettings] = useState(false);
+  const [quality, setQuality] = useState<RenderQuality>('m');
+  const [fps, setFps] = useState<string>('');
+  const [resolution, setResolution] = useState<string>('');
+  const [format, setFormat] = useState<RenderFormat>('mp4');
+  const [preview, setPreview] = useState(false);
+  const [autoFinalize, setAutoFinalize] = useState(true);
+
+  useEffect(() => {
+    AnimationApiService.getProviders()
+      .then(response => {
+        if (response.providers.length > 0) {
+          setProviders(response.providers);
+          setProvider(response.defaultProvider);
+        }
+      })
+      .catch(error => console.error('Failed to load providers:', error));
+  }, []);
+
+  const selectedProvider = providers.find(p => p.name === provider);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (prompt.trim() && !isLoading) {
-      onSubmit(prompt.trim(), provider, model || undefined);
+      onSubmit(prompt.trim(), provider, model || undefined, {
+        quality,
+        fps: fps ? parseInt(fps, 10) : undefined,
+        resolution: resolution || undefined,
+        format,
+        preview: preview || undefined,
+        autoFinalize: preview ? autoFinalize : undefined,
+      });
       setPrompt('');
     }
   };
@@ -75,26 +139,40 @@ export const PromptInput: React.FC<PromptInputProps> = ({ onSubmit, isLoading })
         <div className="flex flex-col gap-2 mt-2 text-sm text-gray-500">
           <div className="flex justify-between items-center">
             <span>{prompt.length}/1000 characters</span>
-            <button
-              type="button"
-              onClick={() => setIsExpanded(!isExpanded)}
-              className="flex items-center gap-2 text-primary-600 hover:text-primary-700 transition-colors"
-            >
-              <Sparkles className="w-4 h-4" />
-              {isExpanded ? 'Hide' : 'Show'} examples
-            </button>
+            <div className="flex items-center gap-4">
+              <button
+                type="button"
+                onClick={() => setShowSettings(!showSettings)}
+                className="flex items-center gap-2 text-primary-600 hover:text-primary-700 transition-colors"
+              >
+                <Settings className="w-4 h-4" />
+                Render settings
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsExpanded(!isExpanded)}
+                className="flex items-center gap-2 text-primary-600 hover:text-primary-700 transition-colors"
+              >
+                <Sparkles className="w-4 h-4" />
+                {isExpanded ? 'Hide' : 'Show'} examples
+              </button>
+            </div>
           </div>
           <div className="grid grid-cols-1 md:grid-cols-3 gap-2 items-center">
             <div className="flex items-center gap-2">
               <label className="text-gray-600">Provider</label>
               <select
                 value={provider}
-                onChange={e => setProvider(e.target.value as 'gemini' | 'together')}
+                onChange={e => setProvider(e.target.value)}
                 className="border rounded-md px-2 py-1 text-gray-700"
                 disabled={isLoading}
               >
-                <option value="gemini">Gemini</option>
-                <option value="together">Together</option>
+                {providers.map(p => (
+                  <option key={p.name} value={p.name} disabled={!p.configured}>
+                    {p.label}
+                    {!p.configured && ' (not configured)'}
+                  </option>
+                ))}
               </select>
             </div>
             <div className="md:col-span-2 flex items-center gap-2">
@@ -103,16 +181,100 @@ export const PromptInput: React.FC<PromptInputProps> = ({ onSubmit, isLoading })
                 type="text"
                 value={model}
                 onChange={e => setModel(e.target.value)}
-                placeholder={
-                  provider === 'gemini'
-                    ? 'gemini-1.5-flash'
-                    : 'meta-llama/Meta-Llama-3.1-8B-Instruct-Turbo'
-                }
+                placeholder={selectedProvider?.defaultModel || 'Default model'}
                 className="border rounded-md px-2 py-1 w-full text-gray-700"
                 disabled={isLoading}
               />
             </div>
           </div>
+
+          {/* Render settings */}
+          {showSettings && (
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-2 items-center p-3 bg-gray-50 rounded-lg border border-gray-200">
+              <div className="flex items-center gap-2">
+                <label className="text-gray-600">Quality</label>
+                <select
+                  value={quality}
+                  onChange={e => setQuality(e.target.value as RenderQuality)}
+                  className="border rounded-md px-2 py-1 text-gray-700"
+                  disabled={isLoading}
+                >
+                  {qualityOptions.map(option => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex items-center gap-2">
+                <label className="text-gray-600">FPS</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={120}
+                  value={fps}
+                  onChange={e => setFps(e.target.value)}
+                  placeholder="Default"
+                  className="border rounded-md px-2 py-1 w-full text-gray-700"
+                  disabled={isLoading}
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <label className="text-gray-600">Resolution</label>
+                <select
+                  value={resolution}
+                  onChange={e => setResolution(e.target.value)}
+                  className="border rounded-md px-2 py-1 text-gray-700"
+                  disabled={isLoading}
+                >
+                  <option value="">Default</option>
+                  {resolutionOptions.map(option => (
+                    <option key={option} value={option}>
+                      {option}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex items-center gap-2">
+                <label className="text-gray-600">Format</label>
+                <select
+                  value={format}
+                  onChange={e => setFormat(e.target.value as RenderFormat)}
+                  className="border rounded-md px-2 py-1 text-gray-700"
+                  disabled={isLoading}
+                >
+                  {formatOptions.map(option => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <label className="md:col-span-2 flex items-center gap-2 text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={preview}
+                  onChange={e => setPreview(e.target.checked)}
+                  disabled={isLoading}
+                />
+                Quick low-quality preview first
+              </label>
+              <label
+                className={clsx(
+                  'md:col-span-2 flex items-center gap-2 text-gray-600',
+                  !preview && 'opacity-50'
+                )}
+              >
+                <input
+                  type="checkbox"
+                  checked={autoFinalize}
+                  onChange={e => setAutoFinalize(e.target.checked)}
+                  disabled={isLoading || !preview}
+                />
+                Render full quality automatically after the preview
+              </label>
+            </div>
+          )}
         </div>
       </form>
 
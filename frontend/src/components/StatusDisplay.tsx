@@ -1,18 +1,32 @@
-import React, { useState, useEffect } from 'react';
-import { Download, ChevronDown, ChevronUp, Trash2 } from 'lucide-react';
-import { JobStatus } from '../types';
+import React, { useState } from 'react';
+import { Download, ChevronDown, ChevronUp, Trash2, Sparkles } from 'lucide-react';
+import { JobStatus, ManimOutput } from '../types';
 import { AnimationApiService } from '../services/api';
 import { OperationStatus } from './OperationStatus';
 
 interface StatusDisplayProps {
   jobStatus: JobStatus | null;
+  // Output of the job so far, as pushed by the backend
+  manimOutputs?: ManimOutput[];
   onDownload?: () => void;
+  onFinalize?: () => void;
 }
 
-export const StatusDisplay: React.FC<StatusDisplayProps> = ({ jobStatus, onDownload }) => {
-  const [manimOutputs, setManimOutputs] = useState<any[]>([]);
+// Playable media type for a rendered file, based on its extension
+const getOutputKind = (url: string): 'video' | 'image' | 'archive' => {
+  const extension = url.split('.').pop()?.toLowerCase();
+  if (extension === 'gif') return 'image';
+  if (extension === 'zip') return 'archive';
+  return 'video';
+};
+
+export const StatusDisplay: React.FC<StatusDisplayProps> = ({
+  jobStatus,
+  manimOutputs = [],
+  onDownload,
+  onFinalize,
+}) => {
   const [showOutputs, setShowOutputs] = useState(false);
-  const [isLoadingOutputs, setIsLoadingOutputs] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
 
   // Handle job deletion
@@ -42,42 +56,24 @@ export const StatusDisplay: React.FC<StatusDisplayProps> = ({ jobStatus, onDownl
     }
   };
 
-  // Fetch Manim outputs when job is running
-  useEffect(() => {
-    if (jobStatus?.status === 'running' || jobStatus?.status === 'done') {
-      const fetchOutputs = async () => {
-        try {
-          setIsLoadingOutputs(true);
-          const response = await AnimationApiService.getManimOutputs(jobStatus.id);
-          if (response.outputs) {
-            setManimOutputs(response.outputs);
-          }
-        } catch (error) {
-          console.error('Failed to fetch Manim outputs:', error);
-        } finally {
-          setIsLoadingOutputs(false);
-        }
-      };
-
-      fetchOutputs();
-
-      // Poll for updates every 2 seconds when running
-      if (jobStatus.status === 'running') {
-        const interval = setInterval(fetchOutputs, 2000);
-        return () => clearInterval(interval);
-      }
-    }
-  }, [jobStatus?.id, jobStatus?.status]);
-
   if (!jobStatus) return null;
 
+  // Show the full-quality render once it exists, the preview until then
+  const displayUrl =
+    (jobStatus.status === 'done' && jobStatus.videoUrl) || jobStatus.previewUrl || undefined;
+  const isShowingPreview = !!displayUrl && displayUrl === jobStatus.previewUrl;
+  const canFinalize =
+    jobStatus.phase === 'preview' && jobStatus.status === 'done' && !jobStatus.finalJobId;
+
   // Get current operation from Manim outputs
   const currentOperation =
     manimOutputs.length > 0
       ? manimOutputs[manimOutputs.length - 1]?.data
       : jobStatus.status === 'pending'
         ? 'Waiting in queue...'
-        : 'Initializing...';
+        : jobStatus.status === 'validating'
+          ? 'Checking the script with a Manim dry run...'
+          : 'Initializing...';
 
   return (
     <div className="card max-w-2xl mx-auto animate-fade-in">
@@ -102,6 +98,12 @@ export const StatusDisplay: React.FC<StatusDisplayProps> = ({ jobStatus, onDownl
 
       {/* Additional details section */}
       <div className="mt-4">
+        {jobStatus.cached && (
+          <div className="mt-2 text-xs text-green-700 bg-green-50 px-2 py-1 rounded">
+            ⚡ Identical animation rendered before - served from the render cache
+          </div>
+        )}
+
         {/* Queue position indicator for pending jobs */}
         {jobStatus.status === 'pending' && (
           <div className="mt-2 text-xs text-yellow-600 bg-yellow-50 px-2 py-1 rounded">
@@ -117,9 +119,6 @@ export const StatusDisplay: React.FC<StatusDisplayProps> = ({ jobStatus, onDownl
           >
             {showOutputs ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
             <span>Manim Output ({manimOutputs.length})</span>
-            {isLoadingOutputs && (
-              <div className="w-4 h-4 border-2 border-blue-600 border-t-transparent rounded-full animate-spin" />
-            )}
           </button>
 
           {showOutputs && (
@@ -164,20 +163,86 @@ export const StatusDisplay: React.FC<StatusDisplayProps> = ({ jobStatus, onDownl
         </div>
 
         {/* Error details */}
-        {jobStatus.status === 'error' && jobStatus.error && (
+        {jobStatus.status === 'error' && jobStatus.validationError && (
+          <div className="mb-4 p-3 bg-red-100 border border-red-200 rounded-lg">
+            <p className="text-sm text-red-800 font-medium">
+              Dry run failed: {jobStatus.validationError.type}
+              {jobStatus.validationError.line && ` (line ${jobStatus.validationError.line})`}
+            </p>
+            <p className="text-sm text-red-700 mt-1 font-mono">
+              {jobStatus.validationError.message}
+            </p>
+          </div>
+        )}
+        {jobStatus.status === 'error' && !jobStatus.validationError && jobStatus.error && (
           <div className="mb-4 p-3 bg-red-100 border border-red-200 rounded-lg">
             <p className="text-sm text-red-800 font-medium">Error Details:</p>
             <p className="text-sm text-red-700 mt-1">{jobStatus.error}</p>
           </div>
         )}
 
-        {/* Video player for completed animations */}
-        {jobStatus.status === 'done' && jobStatus.videoUrl && (
+        {/* Video player for completed animations and previews */}
+        {displayUrl && (
           <div className="mb-4">
-            <video controls className="w-full rounded-lg shadow-sm" preload="metadata">
-              <source src={jobStatus.videoUrl} type="video/mp4" />
-              Your browser does not support the video tag.
-            </video>
+            {isShowingPreview && (
+              <div className="mb-2 text-xs text-indigo-700 bg-indigo-50 px-2 py-1 rounded">
+                Low-quality preview
+                {jobStatus.phase === 'final' && jobStatus.status !== 'error'
+                  ? ' - the full-quality render will replace it when ready'
+                  : ''}
+              </div>
+            )}
+            {getOutputKind(displayUrl) === 'video' && (
+              // Keyed by URL so the player reloads when the final render replaces the preview
+              <video
+                key={displayUrl}
+                controls
+                className="w-full rounded-lg shadow-sm"
+                preload="metadata"
+              >
+                <source
+                  src={displayUrl}
+                  type={displayUrl.endsWith('.webm') ? 'video/webm' : 'video/mp4'}
+                />
+                Your browser does not support the video tag.
+              </video>
+            )}
+            {getOutputKind(displayUrl) === 'image' && (
+              <img
+                src={displayUrl}
+                alt="Rendered animation"
+                className="w-full rounded-lg shadow-sm"
+              />
+            )}
+            {getOutputKind(displayUrl) === 'archive' && (
+              <p className="text-sm text-gray-600">
+                Rendered as a PNG frame sequence. Download the zip to view the frames.
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Individual scene clips of a multi-scene render */}
+        {jobStatus.status === 'done' && jobStatus.scenes && jobStatus.scenes.length > 1 && (
+          <div className="mb-4">
+            <p className="text-sm font-medium text-gray-700 mb-2">
+              Scenes ({jobStatus.scenes.length})
+            </p>
+            <ol className="space-y-1 text-sm">
+              {jobStatus.scenes.map((scene, index) => (
+                <li key={scene.url} className="flex items-center gap-2">
+                  <span className="text-gray-500">{index + 1}.</span>
+                  <a
+                    href={scene.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-primary-600 hover:text-primary-700"
+                  >
+                    {scene.name}
+                  </a>
+                </li>
+              ))}
+            </ol>
           </div>
         )}
 
@@ -186,11 +251,18 @@ export const StatusDisplay: React.FC<StatusDisplayProps> = ({ jobStatus, onDownl
           {jobStatus.status === 'done' && jobStatus.videoUrl && (
             <button onClick={onDownload} className="btn-primary flex items-center gap-2">
               <Download className="w-4 h-4" />
-              Download Video
+              {getOutputKind(jobStatus.videoUrl) === 'archive' ? 'Download Frames' : 'Download'}
+            </button>
+          )}
+
+          {canFinalize && onFinalize && (
+            <button onClick={onFinalize} className="btn-primary flex items-center gap-2">
+              <Sparkles className="w-4 h-4" />
+              Render Full Quality
             </button>
           )}
 
-          {jobStatus.status === 'error' && (
+          {(jobStatus.status === 'error' || jobStatus.status === 'cancelled') && (
             <button onClick={() => window.location.reload()} className="btn-secondary">
               Try Again
             </button>
@@ -1,5 +1,16 @@
 import axios, { AxiosResponse } from 'axios';
-import { GenerateRequest, GenerateResponse, JobStatus } from '../types';
+import {
+  ApiError,
+  CodeFinding,
+  GenerateRequest,
+  GenerateResponse,
+  JobListParams,
+  JobListResponse,
+  JobStatus,
+  ManimOutput,
+  ProvidersResponse,
+  RenderSettings,
+} from '../types';
 
 // Create axios instance with default configuration
 const api = axios.create({
@@ -34,31 +45,131 @@ api.interceptors.response.use(
   }
 );
 
+/**
+ * Callbacks for the events of a job followed with `subscribeToJob`
+ */
+export interface JobEventHandlers {
+  onStatus?: (status: JobStatus) => void;
+  onProgress?: (progress: number) => void;
+  onOutput?: (output: ManimOutput) => void;
+}
+
+/**
+ * Thrown when the backend rejects generated code during static analysis.
+ * Carries the rejected code and the findings so the UI can highlight offending lines.
+ */
+export class CodeValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly code: string,
+    public readonly findings: CodeFinding[]
+  ) {
+    super(message);
+    this.name = 'CodeValidationError';
+  }
+}
+
+/**
+ * Build the error to throw for a failed generation request
+ */
+function toGenerationError(error: Partial<ApiError> | null | undefined): Error {
+  const message = error?.message || 'Failed to generate animation';
+  if (error?.code === 'CODE_VALIDATION_FAILED' && error.details?.findings) {
+    return new CodeValidationError(message, error.details.code || '', error.details.findings);
+  }
+  return new Error(message);
+}
+
 export class AnimationApiService {
   /**
    * Generate animation from prompt
    */
   static async generateAnimation(
     prompt: string,
-    provider?: 'gemini' | 'together',
-    model?: string
+    provider?: string,
+    model?: string,
+    settings: RenderSettings = {}
   ): Promise<GenerateResponse> {
     try {
       const response = await api.post<GenerateResponse>('/animations/generate', {
         prompt,
         provider,
         model,
+        ...settings,
       } as GenerateRequest);
 
       return response.data;
     } catch (error) {
       if (axios.isAxiosError(error) && error.response?.data) {
-        throw new Error(error.response.data.message || 'Failed to generate animation');
+        throw toGenerationError(error.response.data);
       }
       throw new Error('Network error occurred');
     }
   }
 
+  /**
+   * Generate animation from prompt, receiving the code as it is written.
+   * Resolves once the backend has validated the code and queued the render job.
+   */
+  static async generateAnimationStream(
+    prompt: string,
+    onChunk: (chunk: string) => void,
+    provider?: string,
+    model?: string,
+    settings: RenderSettings = {}
+  ): Promise<GenerateResponse> {
+    let response: Response;
+    try {
+      response = await fetch('/api/animations/generate/stream', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+        body: JSON.stringify({ prompt, provider, model, ...settings } as GenerateRequest),
+      });
+    } catch (error) {
+      throw new Error('Network error occurred');
+    }
+
+    // Validation failures are returned as plain JSON before the stream starts
+    if (!response.ok || !response.body) {
+      const errorData = await response.json().catch(() => null);
+      throw toGenerationError(errorData);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let result: GenerateResponse | null = null;
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split('\n\n');
+      buffer = events.pop() || '';
+
+      for (const rawEvent of events) {
+        const eventName = rawEvent.match(/^event: (.*)$/m)?.[1];
+        const data = rawEvent.match(/^data: (.*)$/m)?.[1];
+        if (!eventName || !data) continue;
+
+        const payload = JSON.parse(data);
+        if (eventName === 'chunk') {
+          onChunk(payload.text);
+        } else if (eventName === 'done') {
+          result = payload as GenerateResponse;
+        } else if (eventName === 'error') {
+          throw toGenerationError(payload);
+        }
+      }
+    }
+
+    if (!result) {
+      throw new Error('Code stream ended before the job was queued');
+    }
+    return result;
+  }
+
   /**
    * Get job status
    */
@@ -74,6 +185,61 @@ export class AnimationApiService {
     }
   }
 
+  /**
+   * Get a page of jobs from the job history. Pass the returned `nextCursor` with the same
+   * filters to get the next page.
+   */
+  static async listJobs(params: JobListParams = {}): Promise<JobListResponse> {
+    try {
+      const response = await api.get<JobListResponse>('/animations/jobs', {
+        params: { ...params, status: params.status?.join(',') || undefined },
+      });
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.data) {
+        throw new Error(error.response.data.message || 'Failed to list jobs');
+      }
+      throw new Error('Network error occurred');
+    }
+  }
+
+  /**
+   * Follow a job's events as the backend pushes them. The stream replays the job's output so
+   * far, then sends its current status; EventSource resumes it by itself after a reconnect.
+   * Returns a function that closes the stream.
+   */
+  static subscribeToJob(jobId: string, handlers: JobEventHandlers): () => void {
+    const source = new EventSource(`/api/animations/live/${encodeURIComponent(jobId)}`);
+    const listen = <T>(event: string, handler: (data: T) => void) => {
+      source.addEventListener(event, message =>
+        handler(JSON.parse((message as MessageEvent).data))
+      );
+    };
+
+    listen<JobStatus>('status', status => handlers.onStatus?.(status));
+    listen<{ progress: number }>('progress', ({ progress }) => handlers.onProgress?.(progress));
+    listen<ManimOutput>('output', output => handlers.onOutput?.(output));
+
+    return () => source.close();
+  }
+
+  /**
+   * Render a finished preview in full quality
+   */
+  static async finalizeJob(jobId: string): Promise<{ message: string; finalJobId: string }> {
+    try {
+      const response = await api.post<{ message: string; finalJobId: string }>(
+        `/animations/finalize/${jobId}`
+      );
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.data) {
+        throw new Error(error.response.data.message || 'Failed to start full-quality render');
+      }
+      throw new Error('Network error occurred');
+    }
+  }
+
   /**
    * Delete a job completely
    */
@@ -90,15 +256,15 @@ export class AnimationApiService {
   }
 
   /**
-   * Get Manim outputs for a job
+   * Get registered code generation providers
    */
-  static async getManimOutputs(jobId: string): Promise<{ outputs: any[] }> {
+  static async getProviders(): Promise<ProvidersResponse> {
     try {
-      const response = await api.get<{ outputs: any[] }>(`/animations/manim-output/${jobId}`);
+      const response = await api.get<ProvidersResponse>('/animations/providers');
       return response.data;
     } catch (error) {
       if (axios.isAxiosError(error) && error.response?.data) {
-        throw new Error(error.response.data.message || 'Failed to get Manim outputs');
+        throw new Error(error.response.data.message || 'Failed to get providers');
       }
       throw new Error('Network error occurred');
     }
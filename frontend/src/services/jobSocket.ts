@@ -0,0 +1,134 @@
+import { JobControlAction, JobSocketServerMessage } from '../types';
+
+// Wait before reconnecting after the connection drops
+const RECONNECT_DELAY = 2000;
+
+export type JobSocketListener = (message: JobSocketServerMessage) => void;
+
+/**
+ * Client for the backend's WebSocket API (`/api/ws`): follows jobs and the whole queue over
+ * one connection and sends job control requests. Reconnects by itself and restores its
+ * subscriptions; `onOpen` runs after every (re)connect, so callers can catch up on what they missed.
+ */
+export class JobSocket {
+  private socket: WebSocket | null = null;
+  private readonly jobIds = new Set<string>();
+  private queue = false;
+  private readonly listeners = new Set<JobSocketListener>();
+  private readonly requests = new Map<
+    string,
+    { resolve: (newJobId?: string) => void; reject: (error: Error) => void }
+  >();
+  private nextRequestId = 1;
+  private reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+  private closed = false;
+
+  constructor(private readonly onOpen?: () => void) {
+    this.connect();
+  }
+
+  /**
+   * Receive every message from the server. Returns a function that stops listening.
+   */
+  onMessage(listener: JobSocketListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  subscribe(jobIds: string[]): void {
+    jobIds.forEach(jobId => this.jobIds.add(jobId));
+    this.send({ type: 'subscribe', jobIds });
+  }
+
+  unsubscribe(jobIds: string[]): void {
+    jobIds.forEach(jobId => this.jobIds.delete(jobId));
+    this.send({ type: 'unsubscribe', jobIds });
+  }
+
+  /**
+   * Receive status and progress events of every job
+   */
+  subscribeQueue(): void {
+    this.queue = true;
+    this.send({ type: 'subscribe-queue' });
+  }
+
+  unsubscribeQueue(): void {
+    this.queue = false;
+    this.send({ type: 'unsubscribe-queue' });
+  }
+
+  /**
+   * Cancel or regenerate a job. Resolves once the backend has done it,
+   * with the new job's ID for `regenerate`.
+   */
+  control(action: JobControlAction, jobId: string): Promise<string | undefined> {
+    if (this.socket?.readyState !== WebSocket.OPEN) {
+      return Promise.reject(new Error('Not connected to the server'));
+    }
+
+    const requestId = String(this.nextRequestId++);
+    return new Promise((resolve, reject) => {
+      this.requests.set(requestId, { resolve, reject });
+      this.send({ type: action, jobId, requestId });
+    });
+  }
+
+  close(): void {
+    this.closed = true;
+    clearTimeout(this.reconnectTimer);
+    this.socket?.close();
+    this.rejectRequests('Connection closed');
+  }
+
+  private connect(): void {
+    const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+    const socket = new WebSocket(`${protocol}//${window.location.host}/api/ws`);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      if (this.jobIds.size > 0) this.send({ type: 'subscribe', jobIds: [...this.jobIds] });
+      if (this.queue) this.send({ type: 'subscribe-queue' });
+      this.onOpen?.();
+    };
+
+    socket.onmessage = event => {
+      let message: JobSocketServerMessage;
+      try {
+        message = JSON.parse(event.data);
+      } catch (error) {
+        console.error('Ignoring malformed WebSocket message:', error);
+        return;
+      }
+
+      if ((message.type === 'result' || message.type === 'error') && message.requestId) {
+        const request = this.requests.get(message.requestId);
+        this.requests.delete(message.requestId);
+        if (message.type === 'result') {
+          request?.resolve(message.newJobId);
+        } else {
+          request?.reject(new Error(message.message));
+        }
+      }
+      this.listeners.forEach(listener => listener(message));
+    };
+
+    socket.onclose = () => {
+      this.rejectRequests('Connection lost');
+      if (!this.closed) {
+        this.reconnectTimer = setTimeout(() => this.connect(), RECONNECT_DELAY);
+      }
+    };
+  }
+
+  private send(message: object): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private rejectRequests(reason: string): void {
+    this.requests.forEach(request => request.reject(new Error(reason)));
+    this.requests.clear();
+  }
+}
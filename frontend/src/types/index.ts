@@ -1,7 +1,36 @@
-export interface GenerateRequest {
+export type RenderQuality = 'l' | 'm' | 'h' | 'p' | 'k';
+
+// 'png' renders a frame sequence, delivered as a zip
+export type RenderFormat = 'mp4' | 'webm' | 'gif' | 'png';
+
+export interface RenderSettings {
+  quality?: RenderQuality;
+  fps?: number;
+  resolution?: string; // WIDTHxHEIGHT
+  format?: RenderFormat;
+  // Render a quick low-quality preview first, then the requested quality
+  preview?: boolean;
+  autoFinalize?: boolean;
+}
+
+// Two-phase renders: a quick low-quality preview, then the full-quality render
+export type RenderPhase = 'preview' | 'final';
+
+// Named sandbox limits a render runs with, from smallest to largest
+export type ResourceProfileName = 'preview' | 'standard' | 'heavy';
+
+// Highest usage sampled from a render's containers
+export interface ResourceUsage {
+  peakMemoryBytes: number;
+  peakCpuPercent: number;
+  peakPids: number;
+}
+
+export interface GenerateRequest extends RenderSettings {
   prompt: string;
-  provider?: 'gemini' | 'together';
+  provider?: string;
   model?: string;
+  resourceProfile?: ResourceProfileName;
 }
 
 export interface GenerateResponse {
@@ -10,22 +39,70 @@ export interface GenerateResponse {
   code: string;
 }
 
-export interface JobStatus {
+export interface JobStatus extends RenderSettings {
   id: string;
-  status: 'pending' | 'running' | 'done' | 'error';
+  status: 'pending' | 'validating' | 'running' | 'done' | 'error' | 'cancelled';
   progress?: number;
   videoUrl?: string;
+  previewUrl?: string;
+  phase?: RenderPhase;
+  previewJobId?: string;
+  finalJobId?: string;
+  scenes?: SceneClip[];
+  cached?: boolean;
   error?: string;
   code?: string;
   regenerationCount?: number;
   originalJobId?: string;
-  provider?: 'gemini' | 'together';
+  provider?: string;
   model?: string;
+  validationError?: ScriptError;
+  resourceProfile?: ResourceProfileName;
+  resourceUsage?: ResourceUsage;
   createdAt: string;
   updatedAt: string;
   nextJobId?: string;
 }
 
+// A line of output from a running render
+export interface ManimOutput {
+  type: 'stdout' | 'stderr' | 'progress' | 'info';
+  data: string;
+  timestamp: string;
+}
+
+// One scene's clip from a multi-scene render
+export interface SceneClip {
+  name: string;
+  url: string;
+}
+
+export interface ProviderInfo {
+  name: string;
+  label: string;
+  defaultModel: string;
+  configured: boolean;
+}
+
+export interface ProvidersResponse {
+  providers: ProviderInfo[];
+  defaultProvider: string;
+}
+
+export interface ScriptError {
+  type: string;
+  message: string;
+  line?: number;
+}
+
+export interface CodeFinding {
+  rule: string;
+  severity: 'error' | 'warning';
+  message: string;
+  line: number;
+  column: number;
+}
+
 export interface ApiError {
   message: string;
   code: string;
@@ -41,3 +118,66 @@ export interface AnimationJob {
   createdAt: string;
   updatedAt: string;
 }
+
+// Filters, search, sort and page of the job history listing
+export interface JobListParams {
+  status?: JobStatus['status'][];
+  provider?: string;
+  model?: string;
+  createdAfter?: string;
+  createdBefore?: string;
+  hasRegenerations?: boolean;
+  // Matches prompts containing every word (as a prefix)
+  search?: string;
+  sort?: 'createdAt' | 'updatedAt' | 'progress';
+  order?: 'asc' | 'desc';
+  limit?: number;
+  // nextCursor of the previous page
+  cursor?: string;
+}
+
+// A job as recorded in the backend's job history
+export interface JobHistoryEntry extends JobStatus {
+  prompt: string;
+  progress: number;
+  rootJobId: string;
+  outputPath?: string;
+  startedAt?: string;
+  finishedAt?: string;
+  renderDurationMs?: number;
+}
+
+export interface JobListResponse {
+  jobs: JobHistoryEntry[];
+  count: number;
+  // Set when more jobs match the query
+  nextCursor?: string;
+}
+
+// Something that happened to a job, as pushed over the WebSocket API
+export type JobEvent = { id: string; jobId: string; timestamp: string } & (
+  | { type: 'status'; status: JobStatus['status']; error?: string }
+  | { type: 'linked'; nextJobId?: string; finalJobId?: string }
+  | { type: 'progress'; progress: number }
+  | { type: 'output'; output: ManimOutput }
+  | { type: 'render-progress'; event: Record<string, unknown> }
+);
+
+export type JobControlAction = 'cancel' | 'regenerate';
+
+// What cancelling did: removed a job that hadn't started, or stopped a running one
+export type JobCancellation = 'dequeued' | 'stopped';
+
+export type JobSocketServerMessage =
+  | { type: 'job-event'; event: JobEvent }
+  | { type: 'queue-event'; event: JobEvent }
+  | { type: 'subscriptions'; jobIds: string[]; queue: boolean }
+  | {
+      type: 'result';
+      action: JobControlAction;
+      jobId: string;
+      requestId?: string;
+      newJobId?: string;
+      cancellation?: JobCancellation;
+    }
+  | { type: 'error'; message: string; code: string; requestId?: string };
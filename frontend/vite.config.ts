@@ -15,6 +15,8 @@ export default defineConfig({
       '/api': {
         target: 'http://localhost:3001',
         changeOrigin: true,
+        // WebSocket API at /api/ws
+        ws: true,
       },
       '/outputs': {
         target: 'http://localhost:3001',